@@ -0,0 +1,67 @@
+/**
+ * Browser pack decryption and signature verification with WebCrypto
+ */
+
+import { PackCrypto } from '../core/crypto';
+import { NONCE_SIZE } from '../core/encryption';
+import { DecryptionError, SignatureError } from '../core/errors';
+
+/**
+ * Imported keys, so a pack's blocks share one import
+ */
+const importedKeys = new WeakMap<Uint8Array, Promise<CryptoKey>>();
+
+/**
+ * Import a raw AES-256 key for decryption
+ */
+function importKey(subtle: SubtleCrypto, key: Uint8Array): Promise<CryptoKey> {
+  let imported = importedKeys.get(key);
+  if (!imported) {
+    imported = subtle.importKey('raw', key as Uint8Array<ArrayBuffer>, 'AES-GCM', false, ['decrypt']);
+    importedKeys.set(key, imported);
+  }
+  return imported;
+}
+
+/**
+ * WebCrypto of the runtime, failing with `error` if it lacks one
+ */
+function subtleOr(error: () => Error): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw error();
+  }
+  return subtle;
+}
+
+/**
+ * Error for runtimes that cannot verify signatures
+ */
+const noSignatureSupport = () =>
+  new SignatureError('Verifying CharPack signatures needs WebCrypto (crypto.subtle), which this runtime lacks');
+
+/**
+ * AES-256-GCM decryption of sealed sections ([nonce][ciphertext][tag]),
+ * SHA-256 and Ed25519 verification.
+ * WebCrypto expects the tag appended to the ciphertext, as it is stored.
+ */
+export const packCrypto: PackCrypto = {
+  decrypt: async (sealed, key) => {
+    const subtle = subtleOr(() => new DecryptionError('Decrypting CharPack needs WebCrypto (crypto.subtle), which this runtime lacks'));
+    const plaintext = await subtle.decrypt(
+      { name: 'AES-GCM', iv: sealed.subarray(0, NONCE_SIZE) as Uint8Array<ArrayBuffer> },
+      await importKey(subtle, key),
+      sealed.subarray(NONCE_SIZE) as Uint8Array<ArrayBuffer>
+    );
+    return new Uint8Array(plaintext);
+  },
+  sha256: async (data) => {
+    const subtle = subtleOr(noSignatureSupport);
+    return new Uint8Array(await subtle.digest('SHA-256', data as Uint8Array<ArrayBuffer>));
+  },
+  verify: async (message, signature, publicKey) => {
+    const subtle = subtleOr(noSignatureSupport);
+    const key = await subtle.importKey('spki', publicKey as Uint8Array<ArrayBuffer>, { name: 'Ed25519' }, false, ['verify']);
+    return subtle.verify({ name: 'Ed25519' }, key, signature as Uint8Array<ArrayBuffer>, message as Uint8Array<ArrayBuffer>);
+  },
+};
@@ -1,8 +1,14 @@
 /**
- * Browser image processor using Canvas API
+ * Browser image processor
+ * PNG is encoded in pure TypeScript, so it works wherever the decoder does
+ * (Web Workers, Deno, Bun). JPEG and WebP need a canvas: `OffscreenCanvas`
+ * when available, otherwise a DOM canvas.
  */
 
 import { RawImageData } from '../core/types';
+import type { ImageEncoder } from '../core/encoder';
+import { encodePNG } from '../core/png';
+import { ImageEncodeError, ImageLoadError } from '../core/errors';
 
 /**
  * Load image from buffer and convert to raw pixel data using Canvas API
@@ -16,7 +22,7 @@ export async function loadImageFromBuffer(buffer: ArrayBuffer): Promise<RawImage
       const canvas = document.createElement('canvas');
       const ctx = canvas.getContext('2d');
       if (!ctx) {
-        reject(new Error('Failed to get canvas context'));
+        reject(new ImageEncodeError('Failed to get canvas context'));
         return;
       }
 
@@ -26,21 +32,19 @@ export async function loadImageFromBuffer(buffer: ArrayBuffer): Promise<RawImage
 
       try {
         const imageData = ctx.getImageData(0, 0, img.width, img.height);
-        const data = new Uint8Array(imageData.data.buffer);
-
         resolve({
           width: img.width,
           height: img.height,
           channels: 4, // RGBA
-          data: Buffer.from(data),
+          data: new Uint8Array(imageData.data.buffer),
         });
       } catch (error) {
-        reject(new Error(`Failed to process image: ${error}`));
+        reject(new ImageLoadError('from buffer', { cause: error }));
       }
     };
 
     img.onerror = () => {
-      reject(new Error('Failed to load image'));
+      reject(new ImageLoadError('from buffer'));
     };
 
     img.src = URL.createObjectURL(blob);
@@ -48,150 +52,89 @@ export async function loadImageFromBuffer(buffer: ArrayBuffer): Promise<RawImage
 }
 
 /**
- * Convert raw pixel data to PNG buffer using Canvas API
+ * Convert raw pixel data to PNG
  */
-export async function toPNG(image: RawImageData): Promise<Buffer> {
-  return new Promise((resolve, reject) => {
-    try {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        reject(new Error('Failed to get canvas context'));
-        return;
-      }
-
-      canvas.width = image.width;
-      canvas.height = image.height;
+export async function toPNG(image: RawImageData): Promise<Uint8Array> {
+  try {
+    return encodePNG(image);
+  } catch (error) {
+    throw new ImageEncodeError('Failed to convert to PNG', { cause: error });
+  }
+}
 
-      // Create ImageData from raw buffer
-      const imageData = new ImageData(
-        new Uint8ClampedArray(image.data),
-        image.width,
-        image.height
-      );
+/**
+ * Convert raw pixel data to JPEG using Canvas API
+ */
+export async function toJPEG(image: RawImageData): Promise<Uint8Array> {
+  return encodeWithCanvas(image, 'image/jpeg', 'JPEG');
+}
 
-      ctx.putImageData(imageData, 0, 0);
+/**
+ * Convert raw pixel data to WebP using Canvas API
+ */
+export async function toWebP(image: RawImageData): Promise<Uint8Array> {
+  return encodeWithCanvas(image, 'image/webp', 'WebP');
+}
 
-      canvas.toBlob((blob) => {
-        if (!blob) {
-          reject(new Error('Failed to create PNG blob'));
-          return;
-        }
-
-        const reader = new FileReader();
-        reader.onload = () => {
-          const arrayBuffer = reader.result as ArrayBuffer;
-          resolve(Buffer.from(arrayBuffer));
-        };
-        reader.onerror = () => {
-          reject(new Error('Failed to read PNG blob'));
-        };
-        reader.readAsArrayBuffer(blob);
-      }, 'image/png');
-    } catch (error) {
-      reject(new Error(`Failed to convert to PNG: ${error}`));
-    }
-  });
+/**
+ * Convert raw pixel data to base64 string (PNG format)
+ */
+export async function toBase64(image: RawImageData): Promise<string> {
+  const png = await toPNG(image);
+
+  // btoa takes a binary string; convert in chunks to keep the argument list short
+  let binary = '';
+  for (let i = 0; i < png.length; i += 0x8000) {
+    binary += String.fromCharCode(...png.subarray(i, i + 0x8000));
+  }
+  return `data:image/png;base64,${btoa(binary)}`;
 }
 
 /**
- * Convert raw pixel data to JPEG buffer using Canvas API
+ * Image encoder of the browser build
  */
-export async function toJPEG(image: RawImageData): Promise<Buffer> {
-  return new Promise((resolve, reject) => {
-    try {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        reject(new Error('Failed to get canvas context'));
-        return;
-      }
+export const encoder: ImageEncoder = { png: toPNG, jpeg: toJPEG, webp: toWebP, base64: toBase64 };
 
-      canvas.width = image.width;
-      canvas.height = image.height;
+/**
+ * Encode RGBA pixels with a canvas, preferring `OffscreenCanvas` so it also works in Web Workers
+ */
+async function encodeWithCanvas(image: RawImageData, type: string, label: string): Promise<Uint8Array> {
+  if (typeof OffscreenCanvas === 'undefined' && typeof document === 'undefined') {
+    throw new ImageEncodeError(`${label} encoding needs OffscreenCanvas or a DOM canvas, which this runtime lacks; use png() instead`);
+  }
 
-      // Create ImageData from raw buffer
-      const imageData = new ImageData(
-        new Uint8ClampedArray(image.data),
-        image.width,
-        image.height
-      );
+  let blob: Blob | null;
+  try {
+    const imageData = new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
 
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const canvas = new OffscreenCanvas(image.width, image.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new ImageEncodeError('Failed to get canvas context');
+      }
       ctx.putImageData(imageData, 0, 0);
-
-      canvas.toBlob((blob) => {
-        if (!blob) {
-          reject(new Error('Failed to create JPEG blob'));
-          return;
-        }
-
-        const reader = new FileReader();
-        reader.onload = () => {
-          const arrayBuffer = reader.result as ArrayBuffer;
-          resolve(Buffer.from(arrayBuffer));
-        };
-        reader.onerror = () => {
-          reject(new Error('Failed to read JPEG blob'));
-        };
-        reader.readAsArrayBuffer(blob);
-      }, 'image/jpeg', 0.9); // 90% quality
-    } catch (error) {
-      reject(new Error(`Failed to convert to JPEG: ${error}`));
-    }
-  });
-}
-
-/**
- * Convert raw pixel data to WebP buffer using Canvas API
- */
-export async function toWebP(image: RawImageData): Promise<Buffer> {
-  return new Promise((resolve, reject) => {
-    try {
+      blob = await canvas.convertToBlob({ type, quality: 0.9 }); // 90% quality
+    } else {
       const canvas = document.createElement('canvas');
       const ctx = canvas.getContext('2d');
       if (!ctx) {
-        reject(new Error('Failed to get canvas context'));
-        return;
+        throw new ImageEncodeError('Failed to get canvas context');
       }
-
       canvas.width = image.width;
       canvas.height = image.height;
-
-      // Create ImageData from raw buffer
-      const imageData = new ImageData(
-        new Uint8ClampedArray(image.data),
-        image.width,
-        image.height
-      );
-
       ctx.putImageData(imageData, 0, 0);
-
-      canvas.toBlob((blob) => {
-        if (!blob) {
-          reject(new Error('Failed to create WebP blob'));
-          return;
-        }
-
-        const reader = new FileReader();
-        reader.onload = () => {
-          const arrayBuffer = reader.result as ArrayBuffer;
-          resolve(Buffer.from(arrayBuffer));
-        };
-        reader.onerror = () => {
-          reject(new Error('Failed to read WebP blob'));
-        };
-        reader.readAsArrayBuffer(blob);
-      }, 'image/webp', 0.9); // 90% quality
-    } catch (error) {
-      reject(new Error(`Failed to convert to WebP: ${error}`));
+      blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.9)); // 90% quality
     }
-  });
-}
+  } catch (error) {
+    if (error instanceof ImageEncodeError) {
+      throw error;
+    }
+    throw new ImageEncodeError(`Failed to convert to ${label}`, { cause: error });
+  }
 
-/**
- * Convert raw pixel data to base64 string (PNG format)
- */
-export async function toBase64(image: RawImageData): Promise<string> {
-  const pngBuffer = await toPNG(image);
-  return `data:image/png;base64,${pngBuffer.toString('base64')}`;
+  if (!blob) {
+    throw new ImageEncodeError(`Failed to create ${label} blob`);
+  }
+  return new Uint8Array(await blob.arrayBuffer());
 }
@@ -3,7 +3,31 @@
  */
 
 // Export browser-compatible read functions
-export { extract, read, unpack } from './read';
+export { extract, read, unpack, verifySignature } from './read';
+
+// Export remote read functions using HTTP Range requests
+export { extractFromUrl, openRemote } from './remote';
 
 // Re-export image processor functions for advanced usage
 export { toPNG, toJPEG, toWebP, toBase64 } from './image-processor';
+
+// Error classes, shared with the Node.js build
+export {
+  CharPackError,
+  VariationNotFoundError,
+  DuplicateVariationError,
+  DimensionMismatchError,
+  CorruptFileError,
+  UnsupportedVersionError,
+  UnsupportedCodecError,
+  InvalidInputError,
+  ImageLoadError,
+  ImageEncodeError,
+  FileLockedError,
+  FetchError,
+  LimitExceededError,
+  DecryptionError,
+  SignatureError,
+  PartNotFoundError,
+} from '../core/errors';
+export type { CharPackErrorCode } from '../core/errors';
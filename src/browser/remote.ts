@@ -0,0 +1,518 @@
+/**
+ * Browser remote reading using HTTP Range requests
+ */
+
+import type { DiffPatch, ListOptions, PartSelection, RawImageData, ReadOptions } from '../core/types';
+import { listSlots, listVariations } from '../core/variation';
+import { encodeImage, encodeVariations } from '../core/encoder';
+import { encoder } from './image-processor';
+import { packCrypto } from './crypto';
+import { CharPackImage, MemoryCharPack } from './read';
+import {
+  HEADER_SIZE,
+  HeaderFields,
+  KeyframeIndex,
+  LEGACY_VERSION,
+  PackHeader,
+  VERSION,
+  VariationIndex,
+  applyPatches,
+  baseImageOf,
+  composeParts,
+  selectParts,
+  stackLayers,
+  checkBase,
+  checkPool,
+  openPackHeader,
+  openVariationBase,
+  parseIndex,
+  parseKeyframes,
+  parseMetadata,
+  parseParts,
+  partLabel,
+  readHeader,
+  readLayout,
+  readPartBlock,
+  readVariationBlock,
+  readVersion,
+  variationChain,
+} from '../core/decode';
+import { resolveLimits, checkImageSize, checkIndexEntries } from '../core/bounds';
+import { equalBytes, findSignature, readSignature, toSpki } from '../core/signature';
+import { CorruptFileError, FetchError, UnsupportedVersionError, VariationNotFoundError } from '../core/errors';
+
+/**
+ * Positional reads from a remote pack
+ */
+interface RangeReader {
+  /**
+   * Read `length` bytes at `start`, failing with `message` if the pack ends first
+   */
+  read(start: number, length: number, message: string): Promise<Uint8Array>;
+  /**
+   * Read the first `length` bytes, or the whole pack if it is shorter
+   */
+  readPrefix(length: number): Promise<Uint8Array>;
+  /**
+   * Download the whole pack
+   */
+  readAll(): Promise<Uint8Array>;
+  /**
+   * Size of the whole pack, Infinity until the server has told it
+   */
+  size(): number;
+}
+
+/**
+ * Create a reader that fetches byte ranges of a remote pack.
+ * If the server ignores the Range header, the full response is kept and every
+ * later read is served from it, so the pack is downloaded at most once.
+ */
+function createRangeReader(url: string, init?: RequestInit): RangeReader {
+  let full: Uint8Array | undefined;
+  let totalSize = Infinity;
+
+  const request = async (range?: string): Promise<Response> => {
+    const headers = new Headers(init?.headers);
+    if (range) {
+      headers.set('Range', range);
+    }
+    const response = await fetch(url, { ...init, headers });
+    // A range past the end of a short pack is answered with 416, its bytes are read whole then
+    if (!response.ok && !(range && response.status === 416)) {
+      throw new FetchError(url, response.status, `Failed to fetch CharPack ${url}: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  };
+
+  const readAll = async (): Promise<Uint8Array> => {
+    if (!full) {
+      full = new Uint8Array(await (await request()).arrayBuffer());
+      totalSize = full.length;
+    }
+    return full;
+  };
+
+  // Fetch up to `length` bytes at `start`. Returns undefined once the whole pack
+  // is kept instead, because the server ignored the Range header or refused the range.
+  const fetchRange = async (start: number, length: number): Promise<Uint8Array | undefined> => {
+    const response = await request(`bytes=${start}-${start + length - 1}`);
+    if (response.status === 416) {
+      await response.body?.cancel();
+      await readAll();
+      return undefined;
+    }
+
+    const data = new Uint8Array(await response.arrayBuffer());
+    if (response.status === 206) {
+      // Content-Range: bytes <start>-<end>/<total>
+      const total = Number(response.headers.get('Content-Range')?.split('/')[1]);
+      if (Number.isFinite(total)) {
+        totalSize = total;
+      }
+      return data.subarray(0, length);
+    }
+
+    // The server ignored the Range header and sent the whole pack
+    full = data;
+    totalSize = data.length;
+    return undefined;
+  };
+
+  return {
+    read: async (start, length, message) => {
+      if (length === 0) {
+        return new Uint8Array(0);
+      }
+      const data = (full ? undefined : await fetchRange(start, length)) ?? full!.subarray(start, start + length);
+      if (data.length < length) {
+        throw new CorruptFileError(message);
+      }
+      return data;
+    },
+    readPrefix: async (length) => {
+      const data = full ? undefined : await fetchRange(0, length);
+      return data ?? full!.subarray(0, length);
+    },
+    readAll,
+    size: () => totalSize,
+  };
+}
+
+/**
+ * Read several sections of a remote pack.
+ * Sections stored back to back (base image, patch pool, metadata, keyframe table, index) share a single request.
+ */
+async function readSections(
+  reader: RangeReader,
+  sections: Array<{ offset: number; size: number; message: string }>
+): Promise<Uint8Array[]> {
+  const result: Uint8Array[] = [];
+
+  let i = 0;
+  while (i < sections.length) {
+    const start = sections[i].offset;
+    let end = start + sections[i].size;
+    let j = i + 1;
+    while (j < sections.length && sections[j].offset === end) {
+      end += sections[j].size;
+      j++;
+    }
+
+    const data = await reader.read(start, end - start, sections[j - 1].message);
+    for (; i < j; i++) {
+      const offset = sections[i].offset - start;
+      result.push(data.subarray(offset, offset + sections[i].size));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fetch and parse the header, base image, patch pool, metadata, part table and index of a remote pack.
+ * Variation and part blocks are not fetched.
+ */
+async function readRemoteHeader(reader: RangeReader, options: ReadOptions): Promise<PackHeader> {
+  const limits = resolveLimits(options.limits);
+  // Version 1 packs may be shorter than a version 2 header
+  const prefix = await reader.readPrefix(HEADER_SIZE);
+  const version = readVersion(prefix);
+
+  if (version === LEGACY_VERSION) {
+    // Version 1 does not record the index size, so download it whole
+    return openPackHeader(readLayout(await reader.readAll(), limits), options, packCrypto);
+  }
+  if (version !== VERSION) {
+    throw new UnsupportedVersionError(version);
+  }
+
+  const header = readHeader(prefix, reader.size());
+  checkImageSize(header.width, header.height, header.channels, limits);
+
+  const [compBase, poolSection, metadataBuf, keyframeTable, partTable, index] = await readSections(reader, [
+    { offset: header.headerSize, size: header.baseSize, message: 'Invalid CharPack file: truncated base image' },
+    { offset: header.poolOffset, size: header.poolSize, message: 'Invalid CharPack file: truncated patch pool' },
+    { offset: header.metadataOffset, size: header.metadataSize, message: 'Invalid CharPack file: truncated metadata' },
+    { offset: header.keyframesOffset, size: header.keyframesSize, message: 'Invalid CharPack file: truncated keyframe table' },
+    { offset: header.partsOffset, size: header.partsSize, message: 'Invalid CharPack file: truncated part table' },
+    { offset: header.indexOffset, size: header.indexSize, message: 'Invalid CharPack file: truncated index' },
+  ]);
+
+  checkBase(compBase, header);
+  checkPool(poolSection, header);
+  const keyframes = parseKeyframes(keyframeTable, header, reader.size(), limits);
+  const parts = parseParts(partTable, header, reader.size(), limits);
+
+  return openPackHeader({
+    version,
+    width: header.width,
+    height: header.height,
+    channels: header.channels,
+    baseCodec: header.baseCodec,
+    compressedBase: compBase,
+    variations: checkIndexEntries(parseIndex(index, header, limits), reader.size()),
+    metadata: parseMetadata(metadataBuf, header),
+    encryption: header.encryption,
+    keyframes,
+    poolSection,
+    parts,
+    header,
+    sections: {
+      header: prefix.subarray(0, header.headerSize),
+      compressedBase: compBase,
+      metadata: metadataBuf,
+      index,
+      keyframes: keyframeTable,
+      pool: poolSection,
+      parts: partTable,
+    },
+    // The signature is only fetched when it is checked
+    signature: options.publicKey === undefined
+      ? undefined
+      : await readRemoteSignature(reader, header, keyframes.length, parts.length),
+  }, options, packCrypto);
+}
+
+/**
+ * Fetch the signature section at the end of a remote pack, if there is one.
+ * Without a known size the pack is downloaded whole.
+ */
+async function readRemoteSignature(
+  reader: RangeReader,
+  header: HeaderFields,
+  keyframeCount: number,
+  partCount: number
+): Promise<Uint8Array | undefined> {
+  const fileSize = reader.size();
+  const digestCount = header.variationCount + keyframeCount + partCount;
+  if (!Number.isFinite(fileSize)) {
+    return findSignature(await reader.readAll(), digestCount);
+  }
+  return readSignature(fileSize, digestCount, (position, length) =>
+    reader.read(position, length, 'Invalid CharPack file: truncated file')
+  );
+}
+
+/**
+ * Fetch, decrypt and parse the patches of a single variation
+ */
+async function readRemoteVariation(
+  reader: RangeReader,
+  entry: VariationIndex,
+  pack: PackHeader,
+  options: ReadOptions
+): Promise<DiffPatch[]> {
+  const block = await reader.read(
+    entry.offset,
+    entry.size,
+    `Variation '${entry.name}' is corrupt: block is truncated`
+  );
+  return readVariationBlock(entry, block, pack, options, packCrypto);
+}
+
+/**
+ * Fetch, decrypt and parse the patches of the part at `position` in the part table
+ */
+async function readRemotePart(
+  reader: RangeReader,
+  position: number,
+  pack: PackHeader,
+  options: ReadOptions
+): Promise<DiffPatch[]> {
+  const part = pack.parts[position];
+  const block = await reader.read(part.offset, part.size, `Variation '${partLabel(part)}' is corrupt: block is truncated`);
+  return readPartBlock(position, block, pack, options, packCrypto);
+}
+
+/**
+ * Fetch, decrypt and decompress the base image a variation is diffed against
+ */
+function readRemoteBase(
+  reader: RangeReader,
+  entry: VariationIndex,
+  pack: PackHeader,
+  options: ReadOptions
+): Promise<RawImageData> {
+  const readBlob = (keyframe: KeyframeIndex) =>
+    reader.read(keyframe.offset, keyframe.size, 'Invalid CharPack file: truncated keyframe');
+  return openVariationBase(pack, entry, readBlob, options, packCrypto);
+}
+
+/**
+ * Headers and indexes fetched by extractFromUrl, most recently used last
+ */
+const remotePacks: RemotePack[] = [];
+
+/**
+ * Number of remote packs extractFromUrl keeps
+ */
+const MAX_REMOTE_PACKS = 8;
+
+/**
+ * Cached header of a remote pack with the arguments it was fetched and checked with
+ */
+interface RemotePack {
+  url: string;
+  init?: RequestInit;
+  options: ReadOptions;
+  pack: Promise<{ reader: RangeReader; header: PackHeader }>;
+}
+
+/**
+ * Whether a cached pack was fetched and checked like a new call would:
+ * same URL and `init` object, same key, public key and limits
+ */
+function sameRemotePack(cached: RemotePack, url: string, init: RequestInit | undefined, options: ReadOptions): boolean {
+  const sameKey = (a?: Uint8Array, b?: Uint8Array) => a === b || (!!a && !!b && equalBytes(a, b));
+  const spki = (publicKey?: Uint8Array | string) => (publicKey === undefined ? undefined : toSpki(publicKey));
+  return (
+    cached.url === url &&
+    cached.init === init &&
+    sameKey(cached.options.key, options.key) &&
+    sameKey(spki(cached.options.publicKey), spki(options.publicKey)) &&
+    JSON.stringify(cached.options.limits ?? {}) === JSON.stringify(options.limits ?? {})
+  );
+}
+
+/**
+ * Drop a cached pack, unless it was already replaced
+ */
+function forgetRemotePack(cached: RemotePack): void {
+  const position = remotePacks.indexOf(cached);
+  if (position >= 0) {
+    remotePacks.splice(position, 1);
+  }
+}
+
+/**
+ * Extract a single variation from a remote CharPack file.
+ * The header and index are fetched with Range requests and cached for later
+ * calls with the same URL, `init` object, key, public key and limits; each call
+ * then only fetches the block of the requested variation. A failed call drops
+ * the cached header, so a pack that changed on the server is read again.
+ */
+export async function extractFromUrl(
+  url: string,
+  variation: string,
+  init?: RequestInit,
+  options: ReadOptions = {}
+): Promise<CharPackImage> {
+  let cached = remotePacks.find((entry) => sameRemotePack(entry, url, init, options));
+  if (cached) {
+    forgetRemotePack(cached);
+  } else {
+    const reader = createRangeReader(url, init);
+    cached = { url, init, options, pack: readRemoteHeader(reader, options).then((header) => ({ reader, header })) };
+  }
+  remotePacks.push(cached);
+  if (remotePacks.length > MAX_REMOTE_PACKS) {
+    remotePacks.shift();
+  }
+
+  try {
+    return await extractRemoteVariation(await cached.pack, variation, options);
+  } catch (error) {
+    // Do not keep failures or a header that may no longer match the pack, so a later call reads it again
+    forgetRemotePack(cached);
+    throw error;
+  }
+}
+
+/**
+ * Fetch and reconstruct a variation of a remote pack whose header was read
+ */
+async function extractRemoteVariation(
+  remote: { reader: RangeReader; header: PackHeader },
+  variation: string,
+  options: ReadOptions
+): Promise<CharPackImage> {
+  const { reader, header } = remote;
+
+  // Find the requested variation in index
+  const varEntry = header.variations.find((v) => v.name === variation);
+  if (!varEntry) {
+    throw new VariationNotFoundError(variation);
+  }
+
+  // Apply the patches of the variation and its parents, first parent first
+  const chain = variationChain(header.variations, varEntry);
+  let image = await readRemoteBase(reader, chain[0], header, options);
+  for (const entry of chain) {
+    image = await applyPatches(image, await readRemoteVariation(reader, entry, header, options));
+  }
+
+  return encodeImage(image, encoder, { metadata: header.metadata, properties: varEntry.properties });
+}
+
+/**
+ * Open a remote CharPack file for reading several variations.
+ * The header, index and part table are fetched up front with Range requests;
+ * variation and part blocks are fetched on first use and kept until `dispose()`.
+ */
+export async function openRemote(url: string, init?: RequestInit, options: ReadOptions = {}): Promise<MemoryCharPack> {
+  const reader = createRangeReader(url, init);
+  let header = await readRemoteHeader(reader, options);
+
+  // Patches of the variations fetched so far, base images by keyframe and
+  // decoded variations that others are diffed against
+  let fetched = new Map<string, DiffPatch[]>();
+  let fetchedParts = new Map<number, DiffPatch[]>();
+  let bases = new Map<number, Promise<RawImageData>>();
+  let decodedParents = new Map<string, Promise<RawImageData>>();
+  const parents = new Set(header.variations.map((v) => v.parent));
+
+  /**
+   * Cache a pending image under `key`, dropping it if it fails so a later call can retry
+   */
+  const remember = <K>(cache: Map<K, Promise<RawImageData>>, key: K, image: Promise<RawImageData>) => {
+    cache.set(key, image);
+    image.catch(() => cache.delete(key));
+    return image;
+  };
+
+  const readBase = (varEntry: VariationIndex): Promise<RawImageData> => {
+    const baseIndex = varEntry.base ?? 0;
+    return bases.get(baseIndex) ?? remember(bases, baseIndex, readRemoteBase(reader, varEntry, header, options));
+  };
+
+  const decodeVariation = (varEntry: VariationIndex): Promise<RawImageData> => {
+    const cached = decodedParents.get(varEntry.name);
+    if (cached) {
+      return cached;
+    }
+
+    const [parent] = variationChain(header.variations, varEntry).slice(-2, -1);
+    const image = (async () => {
+      const base = parent ? await decodeVariation(parent) : await readBase(varEntry);
+      return applyPatches(base, await readPatches(varEntry));
+    })();
+    return parents.has(varEntry.name) ? remember(decodedParents, varEntry.name, image) : image;
+  };
+
+  const readPatches = async (varEntry: VariationIndex): Promise<DiffPatch[]> => {
+    let patches = fetched.get(varEntry.name);
+    if (!patches) {
+      patches = await readRemoteVariation(reader, varEntry, header, options);
+      fetched.set(varEntry.name, patches);
+    }
+    return patches;
+  };
+
+  const findVariation = (variation: string): VariationIndex => {
+    const varEntry = header.variations.find((v) => v.name === variation);
+    if (!varEntry) {
+      throw new VariationNotFoundError(variation);
+    }
+    return varEntry;
+  };
+
+  // Stacked overlays need only their own block, not a base image
+  const getImage = (variation: string | string[]) => {
+    return stackLayers(
+      variation,
+      (name) => decodeVariation(findVariation(name)),
+      (name) => readPatches(findVariation(name))
+    );
+  };
+
+  const readPart = async (position: number): Promise<DiffPatch[]> => {
+    let patches = fetchedParts.get(position);
+    if (!patches) {
+      patches = await readRemotePart(reader, position, header, options);
+      fetchedParts.set(position, patches);
+    }
+    return patches;
+  };
+
+  return {
+    ...encodeVariations(getImage, encoder),
+    dispose: () => {
+      // Release references to help GC
+      (header as any) = null;
+      (fetched as any) = null;
+      (fetchedParts as any) = null;
+      (bases as any) = null;
+      (decodedParents as any) = null;
+    },
+    // The index was fetched up front, so listing needs no request
+    list: (async (options?: ListOptions) => {
+      return listVariations(header.variations, options);
+    }) as MemoryCharPack['list'],
+    compose: async (selection: PartSelection) => {
+      // Only the blocks of the selected parts are fetched
+      const parts: DiffPatch[][] = [];
+      for (const part of selectParts(header.parts, selection)) {
+        parts.push(await readPart(header.parts.indexOf(part)));
+      }
+      const image = await composeParts(baseImageOf(header), parts);
+      return encodeImage(image, encoder, { metadata: header.metadata });
+    },
+    slots: async () => {
+      return listSlots(header.parts);
+    },
+    metadata: async () => {
+      return header.metadata;
+    },
+  };
+}
@@ -0,0 +1,297 @@
+/**
+ * Base image selection
+ *
+ * Every variation is stored as patches over the base image, so the base
+ * decides how large the pack is. `first` keeps the historical behaviour;
+ * `medoid` picks the input closest to all others, so the pack no longer
+ * depends on input order; `consensus` builds a base that matches none of the
+ * inputs exactly but each of them in most places.
+ *
+ * With `keyframes`, inputs far from the base image become additional base
+ * images, so a pack holding several outfits diffs each against its own.
+ * With `chainVariations`, an input may use an earlier input as its base instead.
+ */
+
+import { ConsensusMethod, PackConfig, RawImageData } from './types';
+import { diffArea } from './diff';
+import { DEFAULT_LIMITS } from './bounds';
+import { InvalidInputError, VariationNotFoundError } from './errors';
+
+/**
+ * Base images of a pack and the base every input is diffed against
+ */
+export interface BasePlan {
+  /**
+   * The base image, then the keyframes
+   */
+  bases: RawImageData[];
+  /**
+   * Index in `bases` of the base of every input, in input order
+   */
+  assignment: number[];
+}
+
+/**
+ * Build the base image of a pack from its inputs, see `PackConfig.baseSelection`.
+ * Returns the data of an input, or a new image for a synthetic base.
+ */
+export function buildBase(images: Array<{ name: string; data: RawImageData }>, config: PackConfig = {}): RawImageData {
+  const selection = config.baseSelection ?? 'first';
+
+  switch (selection) {
+    case 'first':
+      return images[0].data;
+    case 'named': {
+      if (config.baseName === undefined) {
+        throw new InvalidInputError("baseSelection 'named' needs the variation name in baseName");
+      }
+      const base = images.find((img) => img.name === config.baseName);
+      if (!base) {
+        throw new VariationNotFoundError(config.baseName);
+      }
+      return base.data;
+    }
+    case 'medoid':
+      return images[findMedoid(images, config)].data;
+    case 'consensus':
+      return buildConsensus(images.map((img) => img.data), config.consensus ?? 'mode', config.blockSize ?? 32);
+    default:
+      throw new InvalidInputError(`Unknown base selection: ${selection}`);
+  }
+}
+
+/**
+ * Plan the base images of a pack, see `PackConfig.keyframes`.
+ * Starting from the base image, keyframes are added greedily: each round
+ * picks the input that saves the most patch area over the current bases,
+ * until `keyframes` bases or no input saves more than the whole image area a
+ * keyframe adds. Ties keep input order.
+ */
+export function planBases(images: Array<{ name: string; data: RawImageData }>, config: PackConfig = {}): BasePlan {
+  const maxBases = config.keyframes ?? 1;
+  // Readers refuse packs with more bases than their limits allow
+  if (!Number.isInteger(maxBases) || maxBases < 1 || maxBases > DEFAULT_LIMITS.maxBases) {
+    throw new InvalidInputError(
+      `keyframes must be an integer from 1 to ${DEFAULT_LIMITS.maxBases}, got ${maxBases}`
+    );
+  }
+
+  const base = buildBase(images, config);
+  const plan: BasePlan = { bases: [base], assignment: images.map(() => 0) };
+  if (maxBases === 1 || images.length < 2) {
+    return plan;
+  }
+
+  const cost = images.map((img) => areaBetween(base, img.data, config));
+  const areas = pairwiseAreas(images, config);
+  const keyframes = new Set<number>();
+  const keyframeArea = base.width * base.height;
+
+  while (plan.bases.length < maxBases) {
+    let best = -1;
+    let bestGain = keyframeArea;
+    for (let c = 0; c < images.length; c++) {
+      if (keyframes.has(c)) {
+        continue;
+      }
+      const gain = areas[c].reduce((sum, area, i) => sum + Math.max(0, cost[i] - area), 0);
+      if (gain > bestGain) {
+        best = c;
+        bestGain = gain;
+      }
+    }
+    if (best < 0) {
+      break;
+    }
+
+    keyframes.add(best);
+    plan.bases.push(images[best].data);
+    areas[best].forEach((area, i) => {
+      if (area < cost[i]) {
+        cost[i] = area;
+        plan.assignment[i] = plan.bases.length - 1;
+      }
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * Pick the parent of every input, see `PackConfig.chainVariations`: the
+ * earlier input giving the smallest patch area, if smaller than the area
+ * against its base image. Parents always come first, so chains have no
+ * cycles, and are no deeper than `maxChainDepth`. Returns -1 for inputs
+ * diffed against their base image.
+ */
+export function planParents(
+  images: Array<{ name: string; data: RawImageData }>,
+  plan: BasePlan,
+  config: PackConfig = {}
+): number[] {
+  const maxDepth = config.maxChainDepth ?? 4;
+  // Readers refuse deeper chains than their limits allow
+  if (!Number.isInteger(maxDepth) || maxDepth < 1 || maxDepth > DEFAULT_LIMITS.maxChainDepth) {
+    throw new InvalidInputError(
+      `maxChainDepth must be an integer from 1 to ${DEFAULT_LIMITS.maxChainDepth}, got ${maxDepth}`
+    );
+  }
+
+  const parents: number[] = [];
+  const depths: number[] = [];
+  for (let i = 0; i < images.length; i++) {
+    let parent = -1;
+    let best = areaBetween(plan.bases[plan.assignment[i]], images[i].data, config);
+    for (let j = 0; j < i && best > 0; j++) {
+      if (depths[j] >= maxDepth) {
+        continue;
+      }
+      const area = areaBetween(images[j].data, images[i].data, config);
+      if (area < best) {
+        parent = j;
+        best = area;
+      }
+    }
+    parents.push(parent);
+    depths.push(parent < 0 ? 0 : depths[parent] + 1);
+  }
+  return parents;
+}
+
+/**
+ * Index of the base image giving `image` the smallest patch area. Ties keep the earlier base.
+ */
+export function closestBase(bases: RawImageData[], image: RawImageData, config: PackConfig = {}): number {
+  if (bases.length === 1) {
+    return 0;
+  }
+  const areas = bases.map((base) => areaBetween(base, image, config));
+  return areas.reduce((best, area, i) => (area < areas[best] ? i : best), 0);
+}
+
+/**
+ * Area covered by the patches from one image to another
+ */
+function areaBetween(base: RawImageData, target: RawImageData, config: PackConfig): number {
+  return diffArea(
+    base,
+    target,
+    config.blockSize ?? 32,
+    config.diffThreshold ?? 0,
+    config.colorDistanceThreshold ?? 0,
+    config.diffToleranceRatio ?? 0
+  );
+}
+
+/**
+ * Patch area between every pair of inputs.
+ * Patch area is symmetric, so each pair is diffed once.
+ */
+function pairwiseAreas(images: Array<{ data: RawImageData }>, config: PackConfig): number[][] {
+  const areas = images.map(() => new Array<number>(images.length).fill(0));
+
+  for (let i = 0; i < images.length; i++) {
+    for (let j = i + 1; j < images.length; j++) {
+      const area = areaBetween(images[i].data, images[j].data, config);
+      areas[i][j] = area;
+      areas[j][i] = area;
+    }
+  }
+
+  return areas;
+}
+
+/**
+ * Find the input whose patches to every other input cover the least area. Ties keep input order.
+ */
+function findMedoid(images: Array<{ data: RawImageData }>, config: PackConfig): number {
+  const totals = pairwiseAreas(images, config).map((row) => row.reduce((sum, area) => sum + area, 0));
+  return totals.reduce((best, total, i) => (total < totals[best] ? i : best), 0);
+}
+
+/**
+ * Build a synthetic base from all inputs
+ */
+function buildConsensus(images: RawImageData[], method: ConsensusMethod, blockSize: number): RawImageData {
+  const { width, height, channels } = images[0];
+  const data = new Uint8Array(width * height * channels);
+
+  switch (method) {
+    case 'mode':
+      fillModeBlocks(images, data, blockSize);
+      break;
+    case 'median':
+      fillMedian(images, data);
+      break;
+    default:
+      throw new InvalidInputError(`Unknown consensus method: ${method}`);
+  }
+
+  return { width, height, channels, data };
+}
+
+/**
+ * Copy every block from the inputs that agree on it most often.
+ * Blocks are aligned with the diff blocks, so a variation matching the
+ * majority in a block needs no patch there. Ties keep input order.
+ */
+function fillModeBlocks(images: RawImageData[], data: Uint8Array, blockSize: number): void {
+  const { width, height, channels } = images[0];
+
+  for (let y = 0; y < height; y += blockSize) {
+    for (let x = 0; x < width; x += blockSize) {
+      const blockWidth = Math.min(blockSize, width - x);
+      const blockHeight = Math.min(blockSize, height - y);
+
+      // Group identical blocks, keeping one representative per group
+      const groups: Array<{ image: RawImageData; count: number }> = [];
+      for (const image of images) {
+        const group = groups.find((g) => blocksEqual(g.image, image, x, y, blockWidth, blockHeight));
+        if (group) {
+          group.count++;
+        } else {
+          groups.push({ image, count: 1 });
+        }
+      }
+      const mode = groups.reduce((best, group) => (group.count > best.count ? group : best));
+
+      const rowBytes = blockWidth * channels;
+      for (let row = y; row < y + blockHeight; row++) {
+        const start = (row * width + x) * channels;
+        data.set(mode.image.data.subarray(start, start + rowBytes), start);
+      }
+    }
+  }
+}
+
+/**
+ * Check whether a block holds the same bytes in two images
+ */
+function blocksEqual(a: RawImageData, b: RawImageData, x: number, y: number, width: number, height: number): boolean {
+  const { channels } = a;
+  for (let row = y; row < y + height; row++) {
+    const start = (row * a.width + x) * channels;
+    const end = start + width * channels;
+    for (let i = start; i < end; i++) {
+      if (a.data[i] !== b.data[i]) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * Set every pixel channel to the median of the inputs (the lower one for an even count)
+ */
+function fillMedian(images: RawImageData[], data: Uint8Array): void {
+  const values = new Uint8Array(images.length);
+  const middle = (images.length - 1) >> 1;
+
+  for (let i = 0; i < data.length; i++) {
+    for (let j = 0; j < images.length; j++) {
+      values[j] = images[j].data[i];
+    }
+    data[i] = values.sort()[middle];
+  }
+}
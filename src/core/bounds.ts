@@ -0,0 +1,236 @@
+/**
+ * Bounds checks and limits for parsing untrusted packs
+ *
+ * Packs may come from anyone (e.g. user-made mods), so every offset, size,
+ * count and rectangle read from a file is checked against the bytes and
+ * pixels that actually exist before it is used. Decompression is capped at
+ * the size the surrounding structure implies. A malformed pack therefore
+ * fails with a `CorruptFileError` instead of allocating huge buffers or
+ * reading and writing out of range; packs over the configured limits fail
+ * with a `LimitExceededError`.
+ */
+
+import { Inflate } from 'pako';
+import { ParseLimits, Rectangle } from './types';
+import { CorruptFileError, InvalidInputError, LimitExceededError } from './errors';
+
+export const DEFAULT_LIMITS: Required<ParseLimits> = {
+  maxVariations: 4096,
+  maxDimension: 16384,
+  maxPixels: 64 * 1024 * 1024,
+  maxBases: 64,
+  maxChainDepth: 16,
+  maxParts: 4096,
+};
+
+/**
+ * Fill in the defaults of the `limits` option
+ */
+export function resolveLimits(limits?: ParseLimits): Required<ParseLimits> {
+  const resolved = { ...DEFAULT_LIMITS, ...limits };
+  for (const [key, value] of Object.entries(resolved)) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new InvalidInputError(`Invalid parse limit ${key}: ${value}`);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Check that `length` bytes at `offset` lie within `size` bytes
+ */
+export function checkRange(offset: number, length: number, size: number, message: string): void {
+  if (offset < 0 || length < 0 || offset + length > size) {
+    throw new CorruptFileError(message);
+  }
+}
+
+/**
+ * Check the image dimensions and channel count of a pack against the limits
+ */
+export function checkImageSize(width: number, height: number, channels: number, limits: Required<ParseLimits>): void {
+  if (width === 0 || height === 0) {
+    throw new CorruptFileError('Invalid CharPack file: empty image');
+  }
+  if (channels < 1 || channels > 4) {
+    throw new CorruptFileError(`Invalid CharPack file: unsupported channel count ${channels}`);
+  }
+  if (width > limits.maxDimension || height > limits.maxDimension) {
+    throw new LimitExceededError(
+      `CharPack image ${width}x${height} exceeds the maximum dimension of ${limits.maxDimension} pixels`
+    );
+  }
+  if (width * height > limits.maxPixels) {
+    throw new LimitExceededError(
+      `CharPack image ${width}x${height} exceeds the maximum of ${limits.maxPixels} pixels`
+    );
+  }
+}
+
+/**
+ * Check the number of base images (the base image and its keyframes) against the limits
+ */
+export function checkBaseCount(count: number, limits: Required<ParseLimits>): void {
+  if (count > limits.maxBases) {
+    throw new LimitExceededError(`CharPack has ${count} base images, more than the maximum of ${limits.maxBases}`);
+  }
+}
+
+/**
+ * Check that index entries point inside the file and that names are unique
+ */
+export function checkIndexEntries<T extends { name: string; offset: number; size: number }>(entries: T[], fileSize: number): T[] {
+  const names = new Set<string>();
+  for (const entry of entries) {
+    checkRange(entry.offset, entry.size, fileSize, `Invalid CharPack file: variation '${entry.name}' lies outside the file`);
+    if (names.has(entry.name)) {
+      throw new CorruptFileError(`Invalid CharPack file: duplicate variation '${entry.name}'`);
+    }
+    names.add(entry.name);
+  }
+  return entries;
+}
+
+/**
+ * Check that variation parents exist and form chains without cycles,
+ * no deeper than the limits
+ */
+export function checkChains<T extends { name: string; parent?: string }>(entries: T[], limits: Required<ParseLimits>): T[] {
+  const byName = new Map(entries.map((entry) => [entry.name, entry]));
+  for (const entry of entries) {
+    let depth = 0;
+    for (let current = entry; current.parent !== undefined; depth++) {
+      const parent = byName.get(current.parent);
+      if (!parent) {
+        throw new CorruptFileError(`Invalid CharPack file: variation '${current.name}' refers to missing parent '${current.parent}'`);
+      }
+      if (depth >= entries.length) {
+        throw new CorruptFileError(`Invalid CharPack file: variation '${entry.name}' is part of a parent cycle`);
+      }
+      if (depth >= limits.maxChainDepth) {
+        throw new LimitExceededError(
+          `Variation '${entry.name}' has more than the maximum of ${limits.maxChainDepth} parents`
+        );
+      }
+      current = parent;
+    }
+  }
+  return entries;
+}
+
+/**
+ * Check the variation count of a pack against the limits
+ */
+export function checkVariationCount(count: number, limits: Required<ParseLimits>): void {
+  if (count > limits.maxVariations) {
+    throw new LimitExceededError(
+      `CharPack has ${count} variations, more than the maximum of ${limits.maxVariations}`
+    );
+  }
+}
+
+/**
+ * Check the part count of a pack against the limits
+ */
+export function checkPartCount(count: number, limits: Required<ParseLimits>): void {
+  if (count > limits.maxParts) {
+    throw new LimitExceededError(`CharPack has ${count} parts, more than the maximum of ${limits.maxParts}`);
+  }
+}
+
+/**
+ * Check that a patch rectangle is non-empty and lies within the image.
+ * `name` is the variation the patch belongs to, if known.
+ */
+export function checkPatchRect(rect: Rectangle, width: number, height: number, name?: string): void {
+  if (
+    rect.width === 0 ||
+    rect.height === 0 ||
+    rect.x + rect.width > width ||
+    rect.y + rect.height > height
+  ) {
+    const patch = `patch ${rect.width}x${rect.height} at ${rect.x},${rect.y} lies outside the ${width}x${height} image`;
+    throw new CorruptFileError(name === undefined ? `Invalid ${patch}` : `Variation '${name}' is corrupt: ${patch}`);
+  }
+}
+
+/**
+ * Upper bound for the decompressed data of a patch.
+ * Raw, XOR and palette data never exceed the RGBA pixels of the patch;
+ * PNG data gets room for its chunk and filter overhead.
+ */
+export function maxPatchDataSize(rect: Rectangle): number {
+  const pixels = rect.width * rect.height * 4;
+  return pixels + rect.height * 8 + 4096;
+}
+
+/**
+ * Sequential little-endian reader that never reads past the end of its data
+ */
+export interface ByteReader {
+  readonly offset: number;
+  u8(): number;
+  u32(): number;
+  bytes(length: number): Uint8Array;
+}
+
+/**
+ * Create a reader over `data` that throws a `CorruptFileError` with `message`
+ * instead of reading past the end
+ */
+export function createByteReader(data: Uint8Array, message: string): ByteReader {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 0;
+
+  const take = (length: number): number => {
+    checkRange(offset, length, data.length, message);
+    const start = offset;
+    offset += length;
+    return start;
+  };
+
+  return {
+    get offset() {
+      return offset;
+    },
+    u8: () => view.getUint8(take(1)),
+    u32: () => view.getUint32(take(4), true),
+    bytes: (length) => {
+      const at = take(length);
+      return data.subarray(at, at + length);
+    },
+  };
+}
+
+/**
+ * Inflate zlib data, failing as soon as the output grows past `maxLength` bytes
+ */
+export function inflateWithLimit(data: Uint8Array, maxLength: number, message: string): Uint8Array {
+  const inflator = new Inflate({ chunkSize: Math.min(Math.max(maxLength, 1024), 64 * 1024) });
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  inflator.onData = (chunk) => {
+    const bytes = chunk as Uint8Array;
+    length += bytes.length;
+    if (length > maxLength) {
+      throw new CorruptFileError(`${message}: data inflates past ${maxLength} bytes`);
+    }
+    chunks.push(bytes);
+  };
+
+  if (!inflator.push(data, true) || inflator.err) {
+    throw new CorruptFileError(`${message}: ${inflator.msg || 'truncated compressed data'}`);
+  }
+
+  if (chunks.length === 1) {
+    return chunks[0];
+  }
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
@@ -0,0 +1,46 @@
+/**
+ * Compression codec identifiers shared by the Node and browser builds
+ */
+
+import { CompressionCodec, CompressionOptions } from './types';
+import { UnsupportedCodecError } from './errors';
+
+/**
+ * Codec ids as stored in the CharPack header and index table
+ */
+export const CODEC_IDS: Record<CompressionCodec, number> = {
+  store: 0,
+  deflate: 1,
+  brotli: 2,
+  zstd: 3,
+};
+
+/**
+ * Compression used when no codec is configured
+ */
+export const DEFAULT_COMPRESSION: CompressionOptions = { codec: 'deflate', level: 6 };
+
+/**
+ * Get the codec name for a stored codec id
+ */
+export function codecName(id: number): CompressionCodec {
+  const name = (Object.keys(CODEC_IDS) as CompressionCodec[]).find((key) => CODEC_IDS[key] === id);
+  if (!name) {
+    throw new UnsupportedCodecError(`Unknown compression codec id: ${id}`);
+  }
+  return name;
+}
+
+/**
+ * Normalize the `compression` pack option
+ */
+export function resolveCompression(compression?: CompressionCodec | CompressionOptions): CompressionOptions {
+  if (compression === undefined) {
+    return DEFAULT_COMPRESSION;
+  }
+  const options = typeof compression === 'string' ? { codec: compression } : compression;
+  if (!(options.codec in CODEC_IDS)) {
+    throw new UnsupportedCodecError(`Unknown compression codec: ${options.codec}`);
+  }
+  return options;
+}
@@ -1,17 +1,78 @@
-import { deflate, inflate } from 'pako';
+import { deflate } from 'pako';
+import * as zlib from 'node:zlib';
+import { CompressionCodec, CompressionOptions } from './types';
+import { CODEC_IDS, DEFAULT_COMPRESSION, codecName } from './codec';
+import { registerDecompressor } from './decompress';
+import { UnsupportedCodecError } from './errors';
 
 /**
- * Compress buffer using DEFLATE (pako)
+ * A compression codec implementation
  */
-export function compress(buf: Buffer): Buffer {
-  const result = deflate(buf, { level: 6 }); // balanced ratio & speed
-  return Buffer.from(result);
+interface Codec {
+  compress(buf: Uint8Array, level?: number): Buffer;
 }
 
 /**
- * Decompress buffer using INFLATE (pako)
+ * Node.js zlib option capping the decompressed size
  */
-export function decompress(buf: Buffer): Buffer {
-  const result = inflate(buf);
-  return Buffer.from(result);
+const maxOutput = (maxLength: number) => (Number.isFinite(maxLength) ? { maxOutputLength: maxLength } : {});
+
+/**
+ * Codec implementations by id. Codecs the runtime cannot provide are left out.
+ * Decoding `store` and `deflate` is shared with other runtimes (see decompress.ts).
+ */
+const codecs = new Map<number, Codec>();
+
+codecs.set(CODEC_IDS.store, {
+  compress: (buf) => Buffer.from(buf),
+});
+
+// DEFLATE (pako) so packs stay decodable by the browser build
+codecs.set(CODEC_IDS.deflate, {
+  compress: (buf, level = 6) => Buffer.from(deflate(buf, { level: level as 6 })),
+});
+
+codecs.set(CODEC_IDS.brotli, {
+  compress: (buf, level = 9) => zlib.brotliCompressSync(buf, {
+    params: {
+      [zlib.constants.BROTLI_PARAM_QUALITY]: level,
+      [zlib.constants.BROTLI_PARAM_SIZE_HINT]: buf.length,
+    },
+  }),
+});
+registerDecompressor(CODEC_IDS.brotli, (buf, maxLength) => zlib.brotliDecompressSync(buf, maxOutput(maxLength)));
+
+// zstd is only available in newer Node.js releases
+if (typeof zlib.zstdCompressSync === 'function') {
+  codecs.set(CODEC_IDS.zstd, {
+    compress: (buf, level = 3) => zlib.zstdCompressSync(buf, {
+      params: { [zlib.constants.ZSTD_c_compressionLevel]: level },
+    }),
+  });
+  registerDecompressor(CODEC_IDS.zstd, (buf, maxLength) => zlib.zstdDecompressSync(buf, maxOutput(maxLength)));
+}
+
+/**
+ * Check whether a codec can be used in the current runtime
+ */
+export function isCodecSupported(codec: CompressionCodec): boolean {
+  return codecs.has(CODEC_IDS[codec]);
+}
+
+/**
+ * Look up a codec implementation by id
+ */
+function getCodec(id: number): Codec {
+  const codec = codecs.get(id);
+  if (!codec) {
+    throw new UnsupportedCodecError(`Compression codec '${codecName(id)}' is not supported in this environment`);
+  }
+  return codec;
+}
+
+/**
+ * Compress buffer with the given codec (DEFLATE level 6 by default)
+ */
+export function compress(buf: Uint8Array, options: CompressionOptions = DEFAULT_COMPRESSION): Buffer {
+  return getCodec(CODEC_IDS[options.codec]).compress(buf, options.level);
 }
@@ -0,0 +1,28 @@
+/**
+ * CRC-32 (IEEE 802.3) checksum
+ * Dependency-free so it can be shared by the Node and browser builds
+ */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Calculate the CRC-32 of a byte sequence.
+ * Pass the previous result as `crc` to continue a running checksum.
+ */
+export function crc32(data: Uint8Array, crc: number = 0): number {
+  let c = (crc ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
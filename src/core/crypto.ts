@@ -0,0 +1,21 @@
+/**
+ * Cryptographic primitives of the runtime
+ *
+ * Each entry point provides a `PackCrypto` (node:crypto in Node.js, WebCrypto
+ * elsewhere) for decrypting and verifying packs, the same way it provides an
+ * `ImageEncoder`. Only Node.js writes packs, so encrypting and signing are
+ * left to the Node.js entry point.
+ */
+
+export interface PackCrypto {
+  /**
+   * AES-256-GCM decryption of a sealed section ([nonce][ciphertext][tag]).
+   * Rejects if authentication fails.
+   */
+  decrypt(sealed: Uint8Array, key: Uint8Array): Promise<Uint8Array>;
+  sha256(data: Uint8Array): Promise<Uint8Array>;
+  /**
+   * Ed25519 verification of `signature` over `message` with an SPKI DER public key
+   */
+  verify(message: Uint8Array, signature: Uint8Array, publicKey: Uint8Array): Promise<boolean>;
+}
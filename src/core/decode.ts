@@ -0,0 +1,1290 @@
+/**
+ * Isomorphic CharPack decoder
+ *
+ * Parses and decodes packs held in a `Uint8Array` using only typed arrays,
+ * `DataView`, `TextDecoder` and pako, so the Node.js build, the browser build,
+ * Web Workers, Deno and Bun all read packs with the same code. The file
+ * layout is described in format.ts, which also holds the writer.
+ *
+ * Reading a pack from disk or over HTTP is left to the entry points; they
+ * fetch the sections they need and hand them to the functions below.
+ */
+
+import {
+  CharPackData,
+  VariationMetadata,
+  PartMetadata,
+  PartSelection,
+  DiffPatch,
+  OverlayBlend,
+  PooledPatch,
+  PackMetadata,
+  VariationProperties,
+  ParseLimits,
+  ReadOptions,
+  RawImageData,
+  Rectangle,
+} from './types';
+import { decompress } from './decompress';
+import { CODEC_IDS } from './codec';
+import { POOL_REFERENCE, readPatchEncodingByte, detectLegacyPatchEncoding, decodePatchPixels } from './patch';
+import { crc32 } from './crc32';
+import {
+  DEFAULT_LIMITS,
+  resolveLimits,
+  checkRange,
+  checkImageSize,
+  checkIndexEntries,
+  checkVariationCount,
+  checkBaseCount,
+  checkChains,
+  checkPartCount,
+  checkPatchRect,
+  maxPatchDataSize,
+  createByteReader,
+} from './bounds';
+import { ENCRYPTION_IDS, decryptSection } from './encryption';
+import { PackCrypto } from './crypto';
+import {
+  SignedPack,
+  SignedSections,
+  checkPackSignature,
+  checkSignedBlock,
+  checkSignedKeyframe,
+  checkSignedPart,
+  findSignature,
+} from './signature';
+import { CorruptFileError, DecryptionError, InvalidInputError, PartNotFoundError, UnsupportedVersionError } from './errors';
+
+/**
+ * Magic number at the start of every pack ("CHPK")
+ */
+export const MAGIC = new Uint8Array([0x43, 0x48, 0x50, 0x4b]);
+export const VERSION = 2;
+export const LEGACY_VERSION = 1;
+
+/**
+ * Size of the version 2 header in bytes, including the trailing header CRC32
+ */
+export const HEADER_SIZE = 99;
+
+/**
+ * Size of an entry of the keyframe table
+ */
+export const KEYFRAME_ENTRY_SIZE = 13;
+
+/**
+ * Flag of the base field of an index entry whose patches apply to another
+ * variation; the remaining bits hold the position of that variation in the index
+ */
+export const PARENT_FLAG = 0x80000000;
+
+/**
+ * Lightweight variation index information extracted from header.
+ */
+export interface VariationIndex {
+  name: string;
+  offset: number;
+  size: number;
+  /**
+   * CRC32 of the variation block. Undefined for version 1 files.
+   */
+  crc?: number;
+  /**
+   * Codec id the block's patches are compressed with.
+   */
+  codec: number;
+  /**
+   * Variation properties stored in the index entry, if any.
+   */
+  properties?: VariationProperties;
+  /**
+   * Base image the block's patches apply to: 0 (or undefined) for the base
+   * image, k for keyframe k of the keyframe table. Ignored when `parent` is set.
+   */
+  base?: number;
+  /**
+   * Variation the block's patches apply to instead of a base image
+   */
+  parent?: string;
+}
+
+/**
+ * Location of an additional base image (keyframe), still compressed
+ */
+export interface KeyframeIndex {
+  codec: number;
+  offset: number;
+  size: number;
+  crc: number;
+}
+
+/**
+ * Location of the block of a part, see `PackParts`
+ */
+export interface PartIndex {
+  slot: string;
+  name: string;
+  offset: number;
+  size: number;
+  crc: number;
+  /**
+   * Codec id the block's patches are compressed with.
+   */
+  codec: number;
+}
+
+/**
+ * Fixed header fields of a version 2 file
+ */
+export interface HeaderFields {
+  headerSize: number;
+  width: number;
+  height: number;
+  channels: number;
+  baseCodec: number;
+  baseSize: number;
+  baseCrc: number;
+  variationCount: number;
+  indexOffset: number;
+  indexSize: number;
+  indexCrc: number;
+  metadataOffset: number;
+  metadataSize: number;
+  metadataCrc: number;
+  /**
+   * Encryption id (see ENCRYPTION_IDS), none for headers without the field.
+   */
+  encryption: number;
+  /**
+   * Keyframe table, empty (size 0) for packs with a single base image.
+   */
+  keyframesOffset: number;
+  keyframesSize: number;
+  keyframesCrc: number;
+  /**
+   * Patch pool section, empty (size 0) for packs without shared patches.
+   */
+  poolOffset: number;
+  poolSize: number;
+  poolCrc: number;
+  /**
+   * Part table, empty (size 0) for packs without parts.
+   */
+  partsOffset: number;
+  partsSize: number;
+  partsCrc: number;
+}
+
+/**
+ * Physical layout of a CharPack file with the base image still compressed
+ */
+export interface PackLayout {
+  version: number;
+  width: number;
+  height: number;
+  channels: number;
+  baseCodec: number;
+  compressedBase: Uint8Array;
+  variations: VariationIndex[];
+  metadata?: PackMetadata;
+  /**
+   * Encryption id of the base image and variation blocks
+   */
+  encryption: number;
+  /**
+   * Additional base images, referenced by `VariationIndex.base` from 1
+   */
+  keyframes: KeyframeIndex[];
+  /**
+   * Patch pool section, still sealed in encrypted packs. Empty if no patch is shared.
+   */
+  poolSection: Uint8Array;
+  /**
+   * Parts in table order, grouped by slot
+   */
+  parts: PartIndex[];
+  /**
+   * Version 2 header fields. Undefined for version 1 files.
+   */
+  header?: HeaderFields;
+  /**
+   * Raw sections covered by the head digest of a signature. Undefined for version 1 files.
+   */
+  sections?: SignedSections;
+  /**
+   * Signature section at the end of the file, if the pack is signed
+   */
+  signature?: Uint8Array;
+}
+
+/**
+ * Parsed header, base image and index table of a pack
+ */
+export interface PackHeader {
+  version: number;
+  width: number;
+  height: number;
+  channels: number;
+  baseImage: Uint8Array;
+  variations: VariationIndex[];
+  metadata?: PackMetadata;
+  /**
+   * Encryption id of the variation blocks, which are still sealed
+   */
+  encryption: number;
+  /**
+   * Additional base images, still compressed, see `openBase`
+   */
+  keyframes: KeyframeIndex[];
+  /**
+   * Patches shared by variation blocks, still compressed
+   */
+  pool: PooledPatch[];
+  /**
+   * Parts in table order, see `readPartBlock`
+   */
+  parts: PartIndex[];
+  baseCodec: number;
+  /**
+   * Signed block digests, when the signature was checked on opening
+   */
+  signed?: SignedPack;
+}
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Little-endian view over the bytes of `buffer`
+ */
+function viewOf(buffer: Uint8Array): DataView {
+  return new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+}
+
+/**
+ * Read magic number and format version
+ */
+export function readVersion(buffer: Uint8Array): number {
+  if (buffer.length < 8 || !MAGIC.every((byte, i) => buffer[i] === byte)) {
+    throw new CorruptFileError('Invalid CharPack file: magic mismatch');
+  }
+  return viewOf(buffer).getUint32(4, true);
+}
+
+/**
+ * Read and verify the version 2 header.
+ * `buffer` must hold at least the whole header; `fileSize` is the size of the whole file.
+ */
+export function readHeader(buffer: Uint8Array, fileSize: number = buffer.length): HeaderFields {
+  if (buffer.length < HEADER_SIZE || fileSize < HEADER_SIZE) {
+    throw new CorruptFileError('Invalid CharPack file: truncated header');
+  }
+  // Version 2 has a single header layout: new fields or sections need a new version
+  const view = viewOf(buffer);
+  const headerSize = view.getUint32(8, true);
+  if (headerSize !== HEADER_SIZE) {
+    throw new CorruptFileError(`Invalid CharPack file: unexpected header size ${headerSize}`);
+  }
+  if (crc32(buffer.subarray(0, HEADER_SIZE - 4)) !== view.getUint32(HEADER_SIZE - 4, true)) {
+    throw new CorruptFileError('Invalid CharPack file: header checksum mismatch');
+  }
+
+  const encryption = view.getUint8(58);
+  if (!Object.values(ENCRYPTION_IDS).some((id) => id === encryption)) {
+    throw new CorruptFileError(`Invalid CharPack file: unknown encryption ${encryption}`);
+  }
+
+  return {
+    headerSize,
+    width: view.getUint32(12, true),
+    height: view.getUint32(16, true),
+    channels: view.getUint8(20),
+    baseCodec: view.getUint8(21),
+    baseSize: view.getUint32(22, true),
+    baseCrc: view.getUint32(26, true),
+    variationCount: view.getUint32(30, true),
+    indexOffset: view.getUint32(34, true),
+    indexSize: view.getUint32(38, true),
+    indexCrc: view.getUint32(42, true),
+    metadataOffset: view.getUint32(46, true),
+    metadataSize: view.getUint32(50, true),
+    metadataCrc: view.getUint32(54, true),
+    encryption,
+    keyframesOffset: view.getUint32(59, true),
+    keyframesSize: view.getUint32(63, true),
+    keyframesCrc: view.getUint32(67, true),
+    poolOffset: view.getUint32(71, true),
+    poolSize: view.getUint32(75, true),
+    poolCrc: view.getUint32(79, true),
+    partsOffset: view.getUint32(83, true),
+    partsSize: view.getUint32(87, true),
+    partsCrc: view.getUint32(91, true),
+  };
+}
+
+/**
+ * Read and verify the metadata section, if the pack has one
+ */
+export function readMetadata(buffer: Uint8Array, header: HeaderFields): PackMetadata | undefined {
+  if (header.metadataSize === 0) {
+    return undefined;
+  }
+
+  const end = header.metadataOffset + header.metadataSize;
+  if (end > buffer.length) {
+    throw new CorruptFileError('Invalid CharPack file: truncated metadata');
+  }
+
+  return parseMetadata(buffer.subarray(header.metadataOffset, end), header);
+}
+
+/**
+ * Verify and parse the metadata section
+ */
+export function parseMetadata(metadataBuf: Uint8Array, header: HeaderFields): PackMetadata | undefined {
+  if (header.metadataSize === 0) {
+    return undefined;
+  }
+  if (crc32(metadataBuf) !== header.metadataCrc) {
+    throw new CorruptFileError('Invalid CharPack file: metadata checksum mismatch');
+  }
+
+  try {
+    return JSON.parse(textDecoder.decode(metadataBuf));
+  } catch (error) {
+    throw new CorruptFileError('Invalid CharPack file: malformed metadata', { cause: error });
+  }
+}
+
+/**
+ * Read and verify the version 2 index table
+ */
+export function readIndex(
+  buffer: Uint8Array,
+  header: HeaderFields,
+  limits: Required<ParseLimits> = DEFAULT_LIMITS
+): VariationIndex[] {
+  const end = header.indexOffset + header.indexSize;
+  if (end > buffer.length) {
+    throw new CorruptFileError('Invalid CharPack file: truncated index');
+  }
+
+  return parseIndex(buffer.subarray(header.indexOffset, end), header, limits);
+}
+
+/**
+ * Verify and parse the version 2 index table, checking every length against the table
+ */
+export function parseIndex(
+  index: Uint8Array,
+  header: HeaderFields,
+  limits: Required<ParseLimits> = DEFAULT_LIMITS
+): VariationIndex[] {
+  if (crc32(index) !== header.indexCrc) {
+    throw new CorruptFileError('Invalid CharPack file: index checksum mismatch');
+  }
+  checkVariationCount(header.variationCount, limits);
+
+  const reader = createByteReader(index, 'Invalid CharPack file: truncated index');
+  const keyframeCount = countKeyframes(header);
+  const variations: VariationIndex[] = [];
+  const parents: number[] = [];
+  for (let i = 0; i < header.variationCount; i++) {
+    const name = textDecoder.decode(reader.bytes(reader.u32()));
+    const dataOffset = reader.u32();
+    const dataSize = reader.u32();
+    const dataCrc = reader.u32();
+    const codec = reader.u8();
+    const properties = readProperties(reader.bytes(reader.u32()), name);
+    const reference = reader.u32();
+    const base = reference & PARENT_FLAG ? 0 : reference;
+    if (base > keyframeCount) {
+      throw new CorruptFileError(`Invalid CharPack file: variation '${name}' refers to missing keyframe ${base}`);
+    }
+
+    variations.push({ name, offset: dataOffset, size: dataSize, crc: dataCrc, codec, properties, base });
+    parents.push(reference & PARENT_FLAG ? reference & ~PARENT_FLAG : -1);
+  }
+
+  // Parents are stored by index position, which is only known once the whole index is read
+  parents.forEach((position, i) => {
+    if (position < 0) {
+      return;
+    }
+    if (position >= variations.length || position === i) {
+      throw new CorruptFileError(`Invalid CharPack file: variation '${variations[i].name}' refers to missing parent ${position}`);
+    }
+    variations[i].parent = variations[position].name;
+  });
+  return checkChains(variations, limits);
+}
+
+/**
+ * Number of keyframes in the keyframe table
+ */
+function countKeyframes(header: HeaderFields): number {
+  if (header.keyframesSize % KEYFRAME_ENTRY_SIZE !== 0) {
+    throw new CorruptFileError('Invalid CharPack file: malformed keyframe table');
+  }
+  return header.keyframesSize / KEYFRAME_ENTRY_SIZE;
+}
+
+/**
+ * Read and verify the keyframe table
+ */
+export function readKeyframes(
+  buffer: Uint8Array,
+  header: HeaderFields,
+  limits: Required<ParseLimits> = DEFAULT_LIMITS
+): KeyframeIndex[] {
+  const end = header.keyframesOffset + header.keyframesSize;
+  if (end > buffer.length) {
+    throw new CorruptFileError('Invalid CharPack file: truncated keyframe table');
+  }
+
+  return parseKeyframes(buffer.subarray(header.keyframesOffset, end), header, buffer.length, limits);
+}
+
+/**
+ * Verify and parse the keyframe table, checking every keyframe lies within the file
+ */
+export function parseKeyframes(
+  table: Uint8Array,
+  header: HeaderFields,
+  fileSize: number,
+  limits: Required<ParseLimits> = DEFAULT_LIMITS
+): KeyframeIndex[] {
+  if (crc32(table) !== header.keyframesCrc) {
+    throw new CorruptFileError('Invalid CharPack file: keyframe table checksum mismatch');
+  }
+  const count = countKeyframes(header);
+  checkBaseCount(count + 1, limits);
+
+  const reader = createByteReader(table, 'Invalid CharPack file: truncated keyframe table');
+  const keyframes: KeyframeIndex[] = [];
+  for (let i = 0; i < count; i++) {
+    const keyframe = { codec: reader.u8(), offset: reader.u32(), size: reader.u32(), crc: reader.u32() };
+    checkRange(keyframe.offset, keyframe.size, fileSize, `Invalid CharPack file: keyframe ${i + 1} lies outside the file`);
+    keyframes.push(keyframe);
+  }
+  return keyframes;
+}
+
+/**
+ * Read and verify the patch pool section, still sealed in encrypted packs
+ */
+export function readPool(buffer: Uint8Array, header: HeaderFields): Uint8Array {
+  const end = header.poolOffset + header.poolSize;
+  if (end > buffer.length) {
+    throw new CorruptFileError('Invalid CharPack file: truncated patch pool');
+  }
+
+  const poolSection = buffer.subarray(header.poolOffset, end);
+  checkPool(poolSection, header);
+  return poolSection;
+}
+
+/**
+ * Verify the patch pool section against the header checksum
+ */
+export function checkPool(poolSection: Uint8Array, header: HeaderFields): void {
+  if (poolSection.length > 0 && crc32(poolSection) !== header.poolCrc) {
+    throw new CorruptFileError('Invalid CharPack file: patch pool checksum mismatch');
+  }
+}
+
+/**
+ * Parse a verified, decrypted patch pool section into its entries
+ */
+export function parsePool(poolSection: Uint8Array): PooledPatch[] {
+  const reader = createByteReader(poolSection, 'Invalid CharPack file: truncated patch pool');
+  const pool: PooledPatch[] = [];
+  while (reader.offset < poolSection.length) {
+    const codec = reader.u8();
+    const encoding = readPatchEncodingByte(reader.u8());
+    pool.push({ codec, ...encoding, data: reader.bytes(reader.u32()) });
+  }
+  return pool;
+}
+
+/**
+ * Read and verify the part table
+ */
+export function readParts(
+  buffer: Uint8Array,
+  header: HeaderFields,
+  limits: Required<ParseLimits> = DEFAULT_LIMITS
+): PartIndex[] {
+  const end = header.partsOffset + header.partsSize;
+  if (end > buffer.length) {
+    throw new CorruptFileError('Invalid CharPack file: truncated part table');
+  }
+
+  return parseParts(buffer.subarray(header.partsOffset, end), header, buffer.length, limits);
+}
+
+/**
+ * Verify and parse the part table, checking every part block lies within the
+ * file and every part of a slot is named once
+ */
+export function parseParts(
+  table: Uint8Array,
+  header: HeaderFields,
+  fileSize: number,
+  limits: Required<ParseLimits> = DEFAULT_LIMITS
+): PartIndex[] {
+  if (table.length > 0 && crc32(table) !== header.partsCrc) {
+    throw new CorruptFileError('Invalid CharPack file: part table checksum mismatch');
+  }
+
+  const reader = createByteReader(table, 'Invalid CharPack file: truncated part table');
+  const parts: PartIndex[] = [];
+  const labels = new Set<string>();
+  while (reader.offset < table.length) {
+    checkPartCount(parts.length + 1, limits);
+    const slot = textDecoder.decode(reader.bytes(reader.u32()));
+    const name = textDecoder.decode(reader.bytes(reader.u32()));
+    const part = { slot, name, offset: reader.u32(), size: reader.u32(), crc: reader.u32(), codec: reader.u8() };
+    const label = partLabel(part);
+    checkRange(part.offset, part.size, fileSize, `Invalid CharPack file: part '${label}' lies outside the file`);
+    if (labels.has(label)) {
+      throw new CorruptFileError(`Invalid CharPack file: duplicate part '${label}'`);
+    }
+    labels.add(label);
+    parts.push(part);
+  }
+  return parts;
+}
+
+/**
+ * Name of a part in messages: its slot and name, e.g. `eyes/closed`
+ */
+export function partLabel(part: { slot: string; name: string }): string {
+  return `${part.slot}/${part.name}`;
+}
+
+/**
+ * Parse the variation properties of an index entry (empty means none)
+ */
+function readProperties(propertiesBuf: Uint8Array, name: string): VariationProperties | undefined {
+  if (propertiesBuf.length === 0) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(textDecoder.decode(propertiesBuf));
+  } catch (error) {
+    throw new CorruptFileError(`Invalid CharPack file: malformed properties of variation '${name}'`, { cause: error });
+  }
+}
+
+/**
+ * Verify the compressed base image against the header checksum
+ */
+export function checkBase(compressedBase: Uint8Array, header: HeaderFields): void {
+  if (crc32(compressedBase) !== header.baseCrc) {
+    throw new CorruptFileError('Invalid CharPack file: base image checksum mismatch');
+  }
+}
+
+/**
+ * Read the physical layout of a CharPack file, verifying header, index and
+ * base image checksums. Variation blocks are verified when they are decoded.
+ */
+export function readLayout(buffer: Uint8Array, limits: Required<ParseLimits> = DEFAULT_LIMITS): PackLayout {
+  const version = readVersion(buffer);
+
+  if (version === LEGACY_VERSION) {
+    const layout = readLegacyLayout(buffer, limits);
+    return { ...layout, variations: checkIndexEntries(layout.variations, buffer.length) };
+  }
+  if (version !== VERSION) {
+    throw new UnsupportedVersionError(version);
+  }
+
+  const header = readHeader(buffer);
+  checkImageSize(header.width, header.height, header.channels, limits);
+
+  const baseEnd = header.headerSize + header.baseSize;
+  if (baseEnd > buffer.length) {
+    throw new CorruptFileError('Invalid CharPack file: truncated base image');
+  }
+  const compressedBase = buffer.subarray(header.headerSize, baseEnd);
+  checkBase(compressedBase, header);
+  const keyframes = readKeyframes(buffer, header, limits);
+  const poolSection = readPool(buffer, header);
+  const parts = readParts(buffer, header, limits);
+
+  return {
+    version,
+    width: header.width,
+    height: header.height,
+    channels: header.channels,
+    baseCodec: header.baseCodec,
+    compressedBase,
+    variations: checkIndexEntries(readIndex(buffer, header, limits), buffer.length),
+    metadata: readMetadata(buffer, header),
+    encryption: header.encryption,
+    keyframes,
+    poolSection,
+    parts,
+    header,
+    sections: {
+      header: buffer.subarray(0, header.headerSize),
+      compressedBase,
+      metadata: buffer.subarray(header.metadataOffset, header.metadataOffset + header.metadataSize),
+      index: buffer.subarray(header.indexOffset, header.indexOffset + header.indexSize),
+      keyframes: buffer.subarray(header.keyframesOffset, header.keyframesOffset + header.keyframesSize),
+      pool: poolSection,
+      parts: buffer.subarray(header.partsOffset, header.partsOffset + header.partsSize),
+    },
+    signature: findSignature(buffer, header.variationCount + keyframes.length + parts.length),
+  };
+}
+
+/**
+ * Read the layout of a version 1 file (no checksums)
+ */
+export function readLegacyLayout(buffer: Uint8Array, limits: Required<ParseLimits> = DEFAULT_LIMITS): PackLayout {
+  const reader = createByteReader(buffer, 'Invalid CharPack file: truncated file');
+  reader.bytes(8);
+
+  // Dimensions & channels
+  const width = reader.u32();
+  const height = reader.u32();
+  const channels = reader.u8();
+  checkImageSize(width, height, channels, limits);
+
+  // Base image
+  const compressedBase = reader.bytes(reader.u32());
+
+  // Variation count
+  const varCount = reader.u32();
+  checkVariationCount(varCount, limits);
+
+  const variations: VariationIndex[] = [];
+  for (let i = 0; i < varCount; i++) {
+    const name = textDecoder.decode(reader.bytes(reader.u32()));
+    const dataOffset = reader.u32();
+    const dataSize = reader.u32();
+
+    variations.push({ name, offset: dataOffset, size: dataSize, codec: CODEC_IDS.deflate });
+  }
+  return {
+    version: LEGACY_VERSION,
+    width,
+    height,
+    channels,
+    baseCodec: CODEC_IDS.deflate,
+    compressedBase,
+    variations,
+    encryption: ENCRYPTION_IDS.none,
+    keyframes: [],
+    poolSection: new Uint8Array(0),
+    parts: [],
+  };
+}
+
+/**
+ * Decompress the base image of a layout, checking it holds exactly one image
+ */
+export function decodeBaseImage(
+  layout: Pick<PackLayout, 'width' | 'height' | 'channels' | 'baseCodec' | 'compressedBase'>
+): Uint8Array {
+  const expected = layout.width * layout.height * layout.channels;
+  const baseImage = decompress(layout.compressedBase, layout.baseCodec, expected, 'Invalid CharPack file: corrupt base image');
+  if (baseImage.length !== expected) {
+    throw new CorruptFileError('Invalid CharPack file: base image size mismatch');
+  }
+  return baseImage;
+}
+
+/**
+ * Decode the header, base image, patch pool and index of an unencrypted layout, leaving variation blocks alone
+ */
+export function toPackHeader(layout: PackLayout): PackHeader {
+  const { version, width, height, channels, baseCodec, variations, metadata, encryption, keyframes, poolSection, parts } = layout;
+  return {
+    version,
+    width,
+    height,
+    channels,
+    baseCodec,
+    baseImage: decodeBaseImage(layout),
+    variations,
+    metadata,
+    encryption,
+    keyframes,
+    pool: parsePool(poolSection),
+    parts,
+  };
+}
+
+/**
+ * Check the signature, then decrypt and decode the header, base image, patch
+ * pool and index of a layout, leaving variation blocks alone
+ */
+export async function openPackHeader(layout: PackLayout, options: ReadOptions, crypto: PackCrypto): Promise<PackHeader> {
+  // Nothing is decrypted or decompressed before the signature is checked
+  const signed = await checkPackSignature(layout, options, crypto);
+  const compressedBase = await decryptSection(layout.compressedBase, layout.encryption, options, crypto, 'CharPack');
+  const poolSection = layout.poolSection.length > 0
+    ? await decryptSection(layout.poolSection, layout.encryption, options, crypto, 'patch pool')
+    : layout.poolSection;
+  return { ...toPackHeader({ ...layout, compressedBase, poolSection }), signed };
+}
+
+/**
+ * Refuse encrypted packs in the synchronous API, which cannot decrypt
+ */
+function requirePlaintext(layout: PackLayout): PackLayout {
+  if (layout.encryption !== ENCRYPTION_IDS.none) {
+    throw new DecryptionError('CharPack is encrypted: read it with read() or extract() and its key');
+  }
+  return layout;
+}
+
+/**
+ * Parse CharPack header and index table without decoding variation blocks.
+ * Returns the base image (decompressed) and variation indices for random access.
+ * Encrypted packs are refused, see `openPackHeader`.
+ */
+export function parseHeaderWithIndex(buffer: Uint8Array, options: ReadOptions = {}): PackHeader {
+  return toPackHeader(requirePlaintext(readLayout(buffer, resolveLimits(options.limits))));
+}
+
+/**
+ * Check a variation block against the size and checksum in its index entry
+ */
+export function checkVariationBlock(entry: VariationIndex, block: Uint8Array): void {
+  if (block.length !== entry.size) {
+    throw new CorruptFileError(`Variation '${entry.name}' is corrupt: block is truncated`);
+  }
+  if (entry.crc !== undefined && crc32(block) !== entry.crc) {
+    throw new CorruptFileError(`Variation '${entry.name}' is corrupt: checksum mismatch`);
+  }
+}
+
+/**
+ * Verify and parse a variation block read from the location given by its index entry.
+ * Throws if the block fails its checksum, so a corrupt variation never decodes into garbage.
+ * Every length and patch rectangle is checked against the block and the image.
+ */
+export function decodeVariationBlock(
+  entry: VariationIndex,
+  block: Uint8Array,
+  pack: { version: number; width: number; height: number; pool?: PooledPatch[] }
+): DiffPatch[] {
+  checkVariationBlock(entry, block);
+  return parseVariationBlock(entry, block, pack);
+}
+
+/**
+ * Verify, decrypt and parse a variation block of a possibly encrypted pack.
+ * With `options.publicKey`, the block must match its signed digest.
+ */
+export async function readVariationBlock(
+  entry: VariationIndex,
+  block: Uint8Array,
+  pack: { version: number; width: number; height: number; encryption: number; pool?: PooledPatch[]; signed?: SignedPack },
+  options: ReadOptions,
+  crypto: PackCrypto
+): Promise<DiffPatch[]> {
+  checkVariationBlock(entry, block);
+  if (options.publicKey !== undefined) {
+    await checkSignedBlock(pack.signed, entry.name, block, crypto);
+  }
+  const payload = await decryptSection(block, pack.encryption, options, crypto, `variation '${entry.name}'`);
+  return parseVariationBlock(entry, payload, pack);
+}
+
+/**
+ * Parse the patches of a verified, decrypted variation block,
+ * resolving references to the patch pool
+ */
+function parseVariationBlock(
+  entry: VariationIndex,
+  block: Uint8Array,
+  pack: { version: number; width: number; height: number; pool?: PooledPatch[] }
+): DiffPatch[] {
+  const truncated = `Variation '${entry.name}' is corrupt: block is truncated`;
+  const reader = createByteReader(block, truncated);
+  const patchCount = reader.u32();
+
+  // Every patch takes at least its fixed header, so a huge count cannot fit
+  const patchHeaderSize = pack.version === LEGACY_VERSION ? 20 : 21;
+  checkRange(reader.offset, patchCount * patchHeaderSize, block.length, truncated);
+
+  const patches: DiffPatch[] = [];
+  for (let i = 0; i < patchCount; i++) {
+    const rect = { x: reader.u32(), y: reader.u32(), width: reader.u32(), height: reader.u32() };
+    checkPatchRect(rect, pack.width, pack.height, entry.name);
+    const encodingId = pack.version === LEGACY_VERSION ? undefined : reader.u8();
+    if (encodingId === POOL_REFERENCE) {
+      patches.push(resolvePooledPatch(entry, rect, reader.u32(), pack.pool ?? []));
+      continue;
+    }
+    const compData = reader.bytes(reader.u32());
+    const data = decompress(compData, entry.codec, maxPatchDataSize(rect), `Variation '${entry.name}' is corrupt`);
+
+    const encoding = encodingId === undefined ? { encoding: detectLegacyPatchEncoding(data) } : readPatchEncodingByte(encodingId);
+    patches.push({ rect, ...encoding, data });
+  }
+
+  return patches;
+}
+
+/**
+ * Decompress the pool entry a patch of a variation block refers to
+ */
+function resolvePooledPatch(entry: VariationIndex, rect: Rectangle, index: number, pool: PooledPatch[]): DiffPatch {
+  const pooled = pool[index];
+  if (!pooled) {
+    throw new CorruptFileError(`Variation '${entry.name}' is corrupt: refers to missing pooled patch ${index}`);
+  }
+  const data = decompress(pooled.data, pooled.codec, maxPatchDataSize(rect), `Variation '${entry.name}' is corrupt`);
+  const blend = pooled.blend ? { blend: pooled.blend } : {};
+  return { rect, encoding: pooled.encoding, ...blend, data, pooled: index };
+}
+
+/**
+ * Index entry standing for a part, so part blocks are checked and parsed like variation blocks
+ */
+function partEntry(part: PartIndex): VariationIndex {
+  return { name: partLabel(part), offset: part.offset, size: part.size, crc: part.crc, codec: part.codec };
+}
+
+/**
+ * Verify and parse the block of a part of an unencrypted pack
+ */
+export function decodePartBlock(
+  part: PartIndex,
+  block: Uint8Array,
+  pack: { version: number; width: number; height: number; pool?: PooledPatch[] }
+): DiffPatch[] {
+  return decodeVariationBlock(partEntry(part), block, pack);
+}
+
+/**
+ * Verify, decrypt and parse the block of the part at `position` in the part table.
+ * With `options.publicKey`, the block must match its signed digest.
+ */
+export async function readPartBlock(
+  position: number,
+  block: Uint8Array,
+  pack: { version: number; width: number; height: number; encryption: number; parts: PartIndex[]; pool?: PooledPatch[]; signed?: SignedPack },
+  options: ReadOptions,
+  crypto: PackCrypto
+): Promise<DiffPatch[]> {
+  const entry = partEntry(pack.parts[position]);
+  checkVariationBlock(entry, block);
+  if (options.publicKey !== undefined) {
+    await checkSignedPart(pack.signed, position, entry.name, block, crypto);
+  }
+  const payload = await decryptSection(block, pack.encryption, options, crypto, `part '${entry.name}'`);
+  return parseVariationBlock(entry, payload, pack);
+}
+
+/**
+ * Check the block of a part against the size and checksum in the part table
+ */
+export function checkPartBlock(part: PartIndex, block: Uint8Array): void {
+  checkVariationBlock(partEntry(part), block);
+}
+
+/**
+ * Slice a variation block out of a whole-file buffer
+ */
+export function sliceVariationBlock(buffer: Uint8Array, entry: Pick<VariationIndex, 'offset' | 'size'>): Uint8Array {
+  return buffer.subarray(entry.offset, entry.offset + entry.size);
+}
+
+/**
+ * Slice a keyframe out of a whole-file buffer
+ */
+export function sliceKeyframe(buffer: Uint8Array, keyframe: KeyframeIndex): Uint8Array {
+  return buffer.subarray(keyframe.offset, keyframe.offset + keyframe.size);
+}
+
+/**
+ * Check keyframe `index` (from 1) against the size and checksum in the keyframe table
+ */
+export function checkKeyframe(keyframes: KeyframeIndex[], index: number, blob: Uint8Array): KeyframeIndex {
+  const keyframe = keyframes[index - 1];
+  if (!keyframe) {
+    throw new CorruptFileError(`Invalid CharPack file: missing keyframe ${index}`);
+  }
+  if (blob.length !== keyframe.size || crc32(blob) !== keyframe.crc) {
+    throw new CorruptFileError(`Invalid CharPack file: keyframe ${index} checksum mismatch`);
+  }
+  return keyframe;
+}
+
+/**
+ * Verify and decompress keyframe `index` (from 1) of an unencrypted pack
+ */
+export function decodeKeyframe(
+  index: number,
+  blob: Uint8Array,
+  pack: Pick<PackLayout, 'width' | 'height' | 'channels' | 'keyframes'>
+): Uint8Array {
+  const keyframe = checkKeyframe(pack.keyframes, index, blob);
+  return decodeBaseImage({ ...pack, baseCodec: keyframe.codec, compressedBase: blob });
+}
+
+/**
+ * Verify, decrypt and decompress keyframe `index` (from 1) of a possibly encrypted pack.
+ * With `options.publicKey`, the keyframe must match its signed digest.
+ */
+export async function readKeyframe(
+  index: number,
+  blob: Uint8Array,
+  pack: Pick<PackHeader, 'width' | 'height' | 'channels' | 'keyframes' | 'encryption' | 'signed'>,
+  options: ReadOptions,
+  crypto: PackCrypto
+): Promise<Uint8Array> {
+  const keyframe = checkKeyframe(pack.keyframes, index, blob);
+  if (options.publicKey !== undefined) {
+    await checkSignedKeyframe(pack.signed, index, blob, crypto);
+  }
+  const compressedBase = await decryptSection(blob, pack.encryption, options, crypto, `keyframe ${index}`);
+  return decodeBaseImage({ ...pack, baseCodec: keyframe.codec, compressedBase });
+}
+
+/**
+ * Deserialize buffer to CharPack data.
+ * Encrypted packs are refused, see `decodePack`.
+ */
+export function deserialize(buffer: Uint8Array, options: ReadOptions = {}): CharPackData {
+  const layout = requirePlaintext(readLayout(buffer, resolveLimits(options.limits)));
+  const pool = parsePool(layout.poolSection);
+
+  const variations: VariationMetadata[] = layout.variations.map((entry) => ({
+    name: entry.name,
+    patches: decodeVariationBlock(entry, sliceVariationBlock(buffer, entry), { ...layout, pool }),
+    properties: entry.properties,
+    base: entry.base,
+    parent: entry.parent,
+  }));
+  const keyframes = layout.keyframes.map((keyframe, k) => decodeKeyframe(k + 1, sliceKeyframe(buffer, keyframe), layout));
+  const parts: PartMetadata[] = layout.parts.map((part) => ({
+    slot: part.slot,
+    name: part.name,
+    patches: decodePartBlock(part, sliceVariationBlock(buffer, part), { ...layout, pool }),
+  }));
+
+  return {
+    version: layout.version,
+    width: layout.width,
+    height: layout.height,
+    format: 'raw',
+    baseImage: decodeBaseImage(layout),
+    keyframes,
+    pool,
+    variations,
+    parts,
+    metadata: layout.metadata,
+  };
+}
+
+/**
+ * Decrypt and deserialize buffer to CharPack data
+ */
+export async function decodePack(buffer: Uint8Array, options: ReadOptions, crypto: PackCrypto): Promise<CharPackData> {
+  const layout = readLayout(buffer, resolveLimits(options.limits));
+  const header = await openPackHeader(layout, options, crypto);
+
+  const variations: VariationMetadata[] = [];
+  for (const entry of layout.variations) {
+    variations.push({
+      name: entry.name,
+      patches: await readVariationBlock(entry, sliceVariationBlock(buffer, entry), header, options, crypto),
+      properties: entry.properties,
+      base: entry.base,
+      parent: entry.parent,
+    });
+  }
+  const keyframes: Uint8Array[] = [];
+  for (const [k, keyframe] of layout.keyframes.entries()) {
+    keyframes.push(await readKeyframe(k + 1, sliceKeyframe(buffer, keyframe), header, options, crypto));
+  }
+  const parts: PartMetadata[] = [];
+  for (const [position, part] of layout.parts.entries()) {
+    parts.push({
+      slot: part.slot,
+      name: part.name,
+      patches: await readPartBlock(position, sliceVariationBlock(buffer, part), header, options, crypto),
+    });
+  }
+
+  return {
+    version: layout.version,
+    width: layout.width,
+    height: layout.height,
+    format: 'raw',
+    baseImage: header.baseImage,
+    keyframes,
+    pool: header.pool,
+    variations,
+    parts,
+    metadata: layout.metadata,
+  };
+}
+
+/**
+ * Base image of decoded pack data as raw image data, or `image` (a keyframe) at the same size
+ */
+export function baseImageOf(
+  data: { width: number; height: number; baseImage: Uint8Array },
+  image: Uint8Array = data.baseImage
+): RawImageData {
+  return {
+    width: data.width,
+    height: data.height,
+    channels: image.length / (data.width * data.height),
+    data: image,
+  };
+}
+
+/**
+ * Base image a variation of decoded pack data is diffed against
+ */
+export function variationBaseOf(data: CharPackData, variation: VariationMetadata): RawImageData {
+  const base = variation.base ?? 0;
+  const image = base === 0 ? data.baseImage : data.keyframes?.[base - 1];
+  if (!image) {
+    throw new CorruptFileError(`Variation '${variation.name}' refers to missing keyframe ${base}`);
+  }
+  return baseImageOf(data, image);
+}
+
+/**
+ * Base image a variation of an opened pack is diffed against.
+ * Keyframes are read with `readBlob`, so only the one needed is fetched.
+ */
+export async function openVariationBase(
+  header: PackHeader,
+  entry: VariationIndex,
+  readBlob: (keyframe: KeyframeIndex) => Uint8Array | Promise<Uint8Array>,
+  options: ReadOptions,
+  crypto: PackCrypto
+): Promise<RawImageData> {
+  const base = entry.base ?? 0;
+  if (base === 0) {
+    return baseImageOf(header);
+  }
+  const keyframe = header.keyframes[base - 1];
+  if (!keyframe) {
+    throw new CorruptFileError(`Variation '${entry.name}' refers to missing keyframe ${base}`);
+  }
+  return baseImageOf(header, await readKeyframe(base, await readBlob(keyframe), header, options, crypto));
+}
+
+/**
+ * A variation and its parents, first parent first and the variation last.
+ * Chains are checked for cycles and depth when the index is parsed.
+ */
+export function variationChain<T extends { name: string; parent?: string }>(variations: T[], variation: T): T[] {
+  const chain = [variation];
+  for (let current = variation; current.parent !== undefined && chain.length <= variations.length; ) {
+    const parent = variations.find((v) => v.name === current.parent);
+    if (!parent) {
+      throw new CorruptFileError(`Variation '${current.name}' refers to missing parent '${current.parent}'`);
+    }
+    chain.unshift(parent);
+    current = parent;
+  }
+  if (chain.length > variations.length) {
+    throw new CorruptFileError(`Variation '${variation.name}' is part of a parent cycle`);
+  }
+  return chain;
+}
+
+/**
+ * Reconstruct variations of decoded pack data, following parent chains.
+ * Images of variations that others are diffed against are cached, so
+ * decoding a whole family applies every patch once.
+ */
+export function createVariationResolver(data: CharPackData): (variation: VariationMetadata) => Promise<RawImageData> {
+  const parents = new Set(data.variations.map((v) => v.parent));
+  const cache = new Map<string, Promise<RawImageData>>();
+
+  const resolve = (variation: VariationMetadata): Promise<RawImageData> => {
+    const cached = cache.get(variation.name);
+    if (cached) {
+      return cached;
+    }
+
+    const chain = variationChain(data.variations, variation);
+    const root = chain[0];
+    const image = chain.length === 1
+      ? applyPatches(variationBaseOf(data, root), root.patches)
+      : resolve(chain[chain.length - 2]).then((parent) => applyPatches(parent, variation.patches));
+    if (parents.has(variation.name)) {
+      cache.set(variation.name, image);
+      // Do not cache failures, so a later call can retry
+      image.catch(() => cache.delete(variation.name));
+    }
+    return image;
+  };
+
+  return resolve;
+}
+
+/**
+ * Parts picked by a selection, in the order they are stored.
+ * Throws a `PartNotFoundError` for an unknown slot or part.
+ */
+export function selectParts<T extends { slot: string; name: string }>(parts: T[], selection: PartSelection): T[] {
+  for (const [slot, name] of Object.entries(selection)) {
+    if (!parts.some((part) => part.slot === slot)) {
+      throw new PartNotFoundError(slot);
+    }
+    if (!parts.some((part) => part.slot === slot && part.name === name)) {
+      throw new PartNotFoundError(slot, name);
+    }
+  }
+  return parts.filter((part) => selection[part.slot] === part.name);
+}
+
+/**
+ * Compose an image from the base image and the patches of some parts.
+ * Each part is applied to the base image on its own and only its changed
+ * pixels are kept, so parts whose patch rectangles overlap do not erase
+ * each other; later parts win where they change the same pixel.
+ */
+export async function composeParts(baseImage: RawImageData, parts: DiffPatch[][]): Promise<RawImageData> {
+  const base = baseImage.data;
+  const resultData = new Uint8Array(base);
+  const channels = baseImage.channels;
+
+  for (const patches of parts) {
+    const layer = (await applyPatches(baseImage, patches)).data;
+    for (const { rect } of patches) {
+      for (let y = rect.y; y < rect.y + rect.height; y++) {
+        for (let x = rect.x; x < rect.x + rect.width; x++) {
+          const offset = (y * baseImage.width + x) * channels;
+          const pixel = layer.subarray(offset, offset + channels);
+          if (pixel.some((value, c) => value !== base[offset + c])) {
+            resultData.set(pixel, offset);
+          }
+        }
+      }
+    }
+  }
+
+  return { ...baseImage, data: resultData };
+}
+
+/**
+ * Reconstruct the first variation of `layers` with `decode` and stack the others
+ * on it in order. Stacked variations must be overlays: their patches, read with
+ * `patchesOf`, are composited over the image instead of replacing it.
+ */
+export async function stackLayers(
+  layers: string | string[],
+  decode: (name: string) => Promise<RawImageData>,
+  patchesOf: (name: string) => Promise<DiffPatch[]>
+): Promise<RawImageData> {
+  const [first, ...overlays] = typeof layers === 'string' ? [layers] : layers;
+  if (first === undefined) {
+    throw new InvalidInputError('No variation to reconstruct');
+  }
+
+  let image = await decode(first);
+  for (const name of overlays) {
+    const patches = await patchesOf(name);
+    if (patches.some((patch) => (patch.blend ?? 'replace') === 'replace')) {
+      throw new InvalidInputError(`Variation '${name}' is not an overlay and cannot be stacked`);
+    }
+    image = await applyPatches(image, patches);
+  }
+  return image;
+}
+
+/**
+ * Blend mode of an overlay variation, undefined for variations that replace pixels
+ */
+export function overlayBlend(patches: Array<Pick<DiffPatch, 'blend'>>): OverlayBlend | undefined {
+  const [first] = patches;
+  if (!first?.blend || first.blend === 'replace' || patches.some((patch) => patch.blend !== first.blend)) {
+    return undefined;
+  }
+  return first.blend;
+}
+
+/**
+ * Apply patches to a base image to reconstruct the target image.
+ * `replace` patches overwrite their rectangle, others are composited over it.
+ */
+export async function applyPatches(
+  baseImage: RawImageData,
+  patches: DiffPatch[]
+): Promise<RawImageData> {
+  // Clone base image data
+  const resultData = new Uint8Array(baseImage.data);
+
+  for (const patch of patches) {
+    const { x, y, width, height } = patch.rect;
+    const channels = baseImage.channels;
+    checkPatchRect(patch.rect, baseImage.width, baseImage.height);
+
+    // Decode patch to raw pixels according to its recorded encoding
+    // (XOR patches are relative to the unmodified base image)
+    const patchPixels = decodePatchPixels(patch, channels, baseImage);
+    const blend = patch.blend ?? 'replace';
+
+    let patchOffset = 0;
+    for (let dy = 0; dy < height; dy++) {
+      const targetOffset = ((y + dy) * baseImage.width + x) * channels;
+      const row = patchPixels.subarray(patchOffset, patchOffset + width * channels);
+      if (blend === 'replace') {
+        resultData.set(row, targetOffset);
+      } else {
+        compositeRow(resultData.subarray(targetOffset, targetOffset + row.length), row, channels, blend);
+      }
+      patchOffset += width * channels;
+    }
+  }
+
+  return {
+    width: baseImage.width,
+    height: baseImage.height,
+    channels: baseImage.channels,
+    data: resultData,
+  };
+}
+
+/**
+ * Composite a row of patch pixels over a row of image pixels in place, with
+ * straight (not premultiplied) alpha in the last channel of 2 and 4 channel images.
+ * The source-over operator is used for both modes; `multiply` first mixes the
+ * patch color with its product with the image color, by the image alpha.
+ * Images without alpha are opaque.
+ */
+function compositeRow(target: Uint8Array, source: Uint8Array, channels: number, blend: OverlayBlend): void {
+  const hasAlpha = channels === 2 || channels === 4;
+  const colors = hasAlpha ? channels - 1 : channels;
+
+  for (let i = 0; i < source.length; i += channels) {
+    const sourceAlpha = hasAlpha ? source[i + colors] / 255 : 1;
+    if (sourceAlpha === 0) {
+      continue;
+    }
+    const targetAlpha = hasAlpha ? target[i + colors] / 255 : 1;
+    const alpha = sourceAlpha + targetAlpha * (1 - sourceAlpha);
+
+    for (let c = 0; c < colors; c++) {
+      const sourceColor = source[i + c] / 255;
+      const targetColor = target[i + c] / 255;
+      const color = blend === 'multiply'
+        ? (1 - targetAlpha) * sourceColor + targetAlpha * sourceColor * targetColor
+        : sourceColor;
+      const value = (color * sourceAlpha + targetColor * targetAlpha * (1 - sourceAlpha)) / alpha;
+      target[i + c] = Math.round(value * 255);
+    }
+    if (hasAlpha) {
+      target[i + colors] = Math.round(alpha * 255);
+    }
+  }
+}
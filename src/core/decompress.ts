@@ -0,0 +1,59 @@
+/**
+ * Decompression shared by every runtime
+ *
+ * `store` and `deflate` (pako) decode anywhere. Codecs that need a native
+ * implementation (brotli, zstd) are registered by the Node build; other
+ * runtimes report them as unsupported.
+ */
+
+import { CODEC_IDS, codecName } from './codec';
+import { inflateWithLimit } from './bounds';
+import { CorruptFileError, UnsupportedCodecError } from './errors';
+
+/**
+ * Decompress `buf`, throwing once the output grows past `maxLength` bytes
+ */
+export type Decompressor = (buf: Uint8Array, maxLength: number) => Uint8Array;
+
+/**
+ * Decompressors by codec id
+ */
+const decompressors = new Map<number, Decompressor>();
+
+decompressors.set(CODEC_IDS.store, (buf, maxLength) => {
+  if (buf.length > maxLength) {
+    throw new RangeError(`stored data exceeds ${maxLength} bytes`);
+  }
+  return buf;
+});
+
+decompressors.set(CODEC_IDS.deflate, (buf, maxLength) => inflateWithLimit(buf, maxLength, 'Invalid DEFLATE data'));
+
+/**
+ * Make a codec decodable in the current runtime
+ */
+export function registerDecompressor(codecId: number, decompressor: Decompressor): void {
+  decompressors.set(codecId, decompressor);
+}
+
+/**
+ * Decompress data written with the codec of the given id (DEFLATE by default).
+ * Data that is malformed or decompresses past `maxLength` bytes throws a
+ * `CorruptFileError` with `message`.
+ */
+export function decompress(
+  buf: Uint8Array,
+  codecId: number = CODEC_IDS.deflate,
+  maxLength: number = Infinity,
+  message: string = 'Invalid CharPack file: corrupt compressed data'
+): Uint8Array {
+  const decompressor = decompressors.get(codecId);
+  if (!decompressor) {
+    throw new UnsupportedCodecError(`Compression codec '${codecName(codecId)}' is not supported in this environment`);
+  }
+  try {
+    return decompressor(buf, maxLength);
+  } catch (error) {
+    throw new CorruptFileError(`${message}: ${(error as Error).message}`, { cause: error });
+  }
+}
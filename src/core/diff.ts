@@ -3,8 +3,31 @@
  * Finds differences between images at pixel level
  */
 
-import { RawImageData, DiffPatch, Rectangle } from './types';
+import { RawImageData, DiffPatch, Rectangle, PatchEncoding, CompressionOptions, OverlayBlend } from './types';
+import { encodePalette, xorPixels } from './patch';
+import { compress } from './compress';
+import { DEFAULT_COMPRESSION } from './codec';
 import sharp from 'sharp';
+import { DimensionMismatchError, InvalidInputError } from './errors';
+
+/**
+ * Patch encodings tried by default, in order of preference on equal size
+ */
+export const PATCH_ENCODINGS: PatchEncoding[] = ['raw', 'png', 'xor', 'palette'];
+
+/**
+ * Options for choosing how each patch is encoded
+ */
+export interface PatchEncodingOptions {
+  /**
+   * Encodings to try. The smallest one after compression is kept.
+   */
+  encodings?: PatchEncoding[];
+  /**
+   * Codec the pack compresses patches with, used to compare candidates.
+   */
+  compression?: CompressionOptions;
+}
 
 /**
  * Calculate differences between base image and target image
@@ -17,19 +40,112 @@ export async function calculateDiff(
   diffThreshold: number = 0,
   colorDistanceThreshold: number = 0,
   diffToleranceRatio: number = 0,
-  imageName?: string
+  imageName?: string,
+  options: PatchEncodingOptions = {}
 ): Promise<DiffPatch[]> {
   if (
     baseImage.width !== targetImage.width ||
     baseImage.height !== targetImage.height ||
     baseImage.channels !== targetImage.channels
   ) {
-    throw new Error('Images must have the same dimensions and channels');
+    throw new DimensionMismatchError('Images must have the same dimensions and channels');
   }
 
   const width = baseImage.width;
   const height = baseImage.height;
-  const channels = baseImage.channels;
+
+  const mergedRects = findPatchRects(
+    baseImage,
+    targetImage,
+    blockSize,
+    diffThreshold,
+    colorDistanceThreshold,
+    diffToleranceRatio
+  );
+
+  // Extract pixel data & pick the smallest encoding for each patch
+  const encodings = options.encodings ?? PATCH_ENCODINGS;
+  const compression = options.compression ?? DEFAULT_COMPRESSION;
+  const patches: DiffPatch[] = [];
+
+  for (const rect of mergedRects) {
+    patches.push(await encodePatch(baseImage, targetImage, rect, encodings, compression));
+  }
+
+  // Calculate patch area ratio and warn if too large
+  const totalImageArea = width * height;
+  const totalPatchArea = patches.reduce((sum, patch) =>
+    sum + (patch.rect.width * patch.rect.height), 0);
+  const patchRatio = (totalPatchArea / totalImageArea) * 100;
+
+  if (patchRatio > 30) {
+    const imageInfo = imageName ? ` for image "${imageName}"` : '';
+    console.warn(
+      `Warning: Patch area is ${patchRatio.toFixed(1)}% of the image${imageInfo}, ` +
+      `which is larger than 30%. Consider adding this image to a different charpack.`
+    );
+  }
+
+  return patches;
+}
+
+/**
+ * Calculate the patches of an overlay image: the blocks holding visible pixels,
+ * composited with `blend` at read time. The color of fully transparent pixels
+ * has no effect, so it is cleared before the image is diffed against a blank one.
+ * Overlays do not belong to a base image, so `xor` patches are never used.
+ */
+export async function calculateOverlay(
+  image: RawImageData,
+  blend: OverlayBlend,
+  blockSize: number = 32,
+  imageName?: string,
+  options: PatchEncodingOptions = {}
+): Promise<DiffPatch[]> {
+  const data = new Uint8Array(image.data);
+  if (image.channels === 2 || image.channels === 4) {
+    for (let alpha = image.channels - 1; alpha < data.length; alpha += image.channels) {
+      if (data[alpha] === 0) {
+        data.fill(0, alpha - image.channels + 1, alpha);
+      }
+    }
+  }
+
+  const blank = { ...image, data: new Uint8Array(image.data.length) };
+  const encodings = (options.encodings ?? PATCH_ENCODINGS).filter((encoding) => encoding !== 'xor');
+  const patches = await calculateDiff(blank, { ...image, data }, blockSize, 0, 0, 0, imageName, { ...options, encodings });
+  return patches.map((patch) => ({ ...patch, blend }));
+}
+
+/**
+ * Area in pixels of the patches `calculateDiff` would produce, without encoding them.
+ * Used to compare candidate base images.
+ */
+export function diffArea(
+  baseImage: RawImageData,
+  targetImage: RawImageData,
+  blockSize: number = 32,
+  diffThreshold: number = 0,
+  colorDistanceThreshold: number = 0,
+  diffToleranceRatio: number = 0
+): number {
+  const rects = findPatchRects(baseImage, targetImage, blockSize, diffThreshold, colorDistanceThreshold, diffToleranceRatio);
+  return rects.reduce((sum, rect) => sum + rect.width * rect.height, 0);
+}
+
+/**
+ * Find the blocks that differ between two images, merged into patch rectangles
+ */
+function findPatchRects(
+  baseImage: RawImageData,
+  targetImage: RawImageData,
+  blockSize: number,
+  diffThreshold: number,
+  colorDistanceThreshold: number,
+  diffToleranceRatio: number
+): Rectangle[] {
+  const width = baseImage.width;
+  const height = baseImage.height;
 
   // Find all different blocks
   const diffBlocks: Rectangle[] = [];
@@ -58,43 +174,78 @@ export async function calculateDiff(
   }
 
   // Merge adjacent blocks to reduce patch count
-  const mergedRects = mergeRectangles(diffBlocks);
+  return mergeRectangles(diffBlocks);
+}
 
-  // Extract pixel data & convert to PNG for each patch
-  const patches: DiffPatch[] = [];
+/**
+ * Encode a patch region with every candidate encoding and keep the one
+ * that is smallest once compressed with the pack codec
+ */
+async function encodePatch(
+  baseImage: RawImageData,
+  targetImage: RawImageData,
+  rect: Rectangle,
+  encodings: PatchEncoding[],
+  compression: CompressionOptions
+): Promise<DiffPatch> {
+  const rawBuffer = extractRegion(targetImage, rect);
+
+  let best: DiffPatch | undefined;
+  let bestSize = Infinity;
+
+  for (const encoding of encodings) {
+    const data = await encodePatchData(encoding, baseImage, rawBuffer, rect, targetImage.channels);
+    if (!data) continue;
+
+    // Nothing to compare against with a single candidate
+    if (encodings.length === 1) {
+      return { rect, encoding, data };
+    }
 
-  for (const rect of mergedRects) {
-    const rawBuffer = extractRegion(targetImage, rect);
-
-    // Convert to PNG via sharp (RGBA)
-    const pngBuf = await sharp(rawBuffer, {
-      raw: {
-        width: rect.width,
-        height: rect.height,
-        channels: targetImage.channels as 1 | 2 | 3 | 4,
-      },
-    })
-      .png()
-      .toBuffer();
-
-    patches.push({ rect, data: pngBuf });
+    const size = compress(data, compression).length;
+    if (size < bestSize) {
+      best = { rect, encoding, data };
+      bestSize = size;
+    }
   }
 
-  // Calculate patch area ratio and warn if too large
-  const totalImageArea = width * height;
-  const totalPatchArea = patches.reduce((sum, patch) =>
-    sum + (patch.rect.width * patch.rect.height), 0);
-  const patchRatio = (totalPatchArea / totalImageArea) * 100;
+  return best ?? { rect, encoding: 'raw', data: rawBuffer };
+}
 
-  if (patchRatio > 30) {
-    const imageInfo = imageName ? ` for image "${imageName}"` : '';
-    console.warn(
-      `Warning: Patch area is ${patchRatio.toFixed(1)}% of the image${imageInfo}, ` +
-      `which is larger than 30%. Consider adding this image to a different charpack.`
-    );
+/**
+ * Encode the pixels of a patch region. Returns null if the encoding cannot
+ * represent them (palette patches with more than 256 colors).
+ */
+async function encodePatchData(
+  encoding: PatchEncoding,
+  baseImage: RawImageData,
+  rawBuffer: Buffer,
+  rect: Rectangle,
+  channels: number
+): Promise<Buffer | null> {
+  switch (encoding) {
+    case 'raw':
+      return rawBuffer;
+    case 'png':
+      // Convert to PNG via sharp (RGBA)
+      return sharp(rawBuffer, {
+        raw: {
+          width: rect.width,
+          height: rect.height,
+          channels: channels as 1 | 2 | 3 | 4,
+        },
+      })
+        .png()
+        .toBuffer();
+    case 'xor':
+      return Buffer.from(xorPixels(rawBuffer, extractRegion(baseImage, rect)));
+    case 'palette': {
+      const palette = encodePalette(rawBuffer, rect.width, rect.height, channels);
+      return palette ? Buffer.from(palette) : null;
+    }
+    default:
+      throw new InvalidInputError(`Unknown patch encoding: ${encoding}`);
   }
-
-  return patches;
 }
 
 /**
@@ -259,47 +410,9 @@ export function extractRegion(image: RawImageData, rect: Rectangle): Buffer {
   let bufferOffset = 0;
   for (let dy = 0; dy < height; dy++) {
     const sourceOffset = ((y + dy) * image.width + x) * channels;
-    image.data.copy(buffer, bufferOffset, sourceOffset, sourceOffset + width * channels);
+    buffer.set(image.data.subarray(sourceOffset, sourceOffset + width * channels), bufferOffset);
     bufferOffset += width * channels;
   }
 
   return buffer;
 }
-
-/**
- * Apply patches to a base image to reconstruct the target image
- */
-export async function applyPatches(
-  baseImage: RawImageData,
-  patches: DiffPatch[]
-): Promise<RawImageData> {
-  // Clone base image data
-  const resultData = Buffer.from(baseImage.data);
-
-  for (const patch of patches) {
-    const { x, y, width, height } = patch.rect;
-
-    // Decode PNG patch to raw buffer
-    const patchImage = await sharp(patch.data).raw().ensureAlpha().toBuffer({ resolveWithObject: true });
-    const channels = patchImage.info.channels as number;
-
-    if (channels !== baseImage.channels) {
-      throw new Error('Channel mismatch between base image and patch image');
-    }
-
-    let patchOffset = 0;
-    for (let dy = 0; dy < height; dy++) {
-      const targetOffset = ((y + dy) * baseImage.width + x) * channels;
-      patchImage.data.copy(resultData, targetOffset, patchOffset, patchOffset + width * channels);
-      patchOffset += width * channels;
-    }
-  }
-
-  return {
-    width: baseImage.width,
-    height: baseImage.height,
-    channels: baseImage.channels,
-    data: resultData,
-  };
-}
-
@@ -0,0 +1,78 @@
+/**
+ * Image encoding contract
+ *
+ * Decoding a pack is the same in every runtime (see decode.ts); only turning
+ * the reconstructed pixels into PNG, JPEG or WebP files differs. Each entry
+ * point provides an `ImageEncoder` (sharp in Node.js, canvas or the built-in
+ * PNG encoder elsewhere) and builds its readers with the helpers below.
+ */
+
+import { RawImageData, PackMetadata, VariationProperties } from './types';
+
+/**
+ * Encodes raw pixels to image files. `T` is the byte type the runtime returns.
+ */
+export interface ImageEncoder<T extends Uint8Array = Uint8Array> {
+  png(image: RawImageData): Promise<T>;
+  jpeg(image: RawImageData): Promise<T>;
+  webp(image: RawImageData): Promise<T>;
+  /**
+   * PNG data URL
+   */
+  base64(image: RawImageData): Promise<string>;
+}
+
+/**
+ * A reconstructed image with its encoders bound
+ */
+export interface EncodedImage<T extends Uint8Array = Uint8Array> {
+  png(): Promise<T>;
+  jpeg(): Promise<T>;
+  webp(): Promise<T>;
+  base64(): Promise<string>;
+  metadata?: PackMetadata;
+  properties?: VariationProperties;
+}
+
+/**
+ * Encoders of a pack, taking the name of the variation to encode,
+ * or several names to stack overlays on the first variation
+ */
+export interface EncodedVariations<T extends Uint8Array = Uint8Array> {
+  png(variation: string | string[]): Promise<T>;
+  jpeg(variation: string | string[]): Promise<T>;
+  webp(variation: string | string[]): Promise<T>;
+  base64(variation: string | string[]): Promise<string>;
+}
+
+/**
+ * Bind the encoders to a reconstructed image
+ */
+export function encodeImage<T extends Uint8Array>(
+  image: RawImageData,
+  encoder: ImageEncoder<T>,
+  extras: { metadata?: PackMetadata; properties?: VariationProperties } = {}
+): EncodedImage<T> {
+  return {
+    png: () => encoder.png(image),
+    jpeg: () => encoder.jpeg(image),
+    webp: () => encoder.webp(image),
+    base64: () => encoder.base64(image),
+    ...extras,
+  };
+}
+
+/**
+ * Bind the encoders to the variations of a pack, reconstructed on demand by `getImage`
+ */
+export function encodeVariations<T extends Uint8Array>(
+  getImage: (variation: string | string[]) => Promise<RawImageData>,
+  encoder: ImageEncoder<T>
+): EncodedVariations<T> {
+  return {
+    png: async (variation) => encoder.png(await getImage(variation)),
+    jpeg: async (variation) => encoder.jpeg(await getImage(variation)),
+    webp: async (variation) => encoder.webp(await getImage(variation)),
+    base64: async (variation) => encoder.base64(await getImage(variation)),
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Pack encryption
+ *
+ * Encrypted packs seal the compressed base image and every variation block
+ * independently with AES-256-GCM, each as [nonce][ciphertext][tag] with a
+ * fresh random nonce. The index and metadata stay readable, so variations
+ * are still located without the key and decrypted one block at a time.
+ * Checksums cover the sealed bytes, so a block that passes its checksum but
+ * fails authentication was sealed with another key.
+ *
+ * Only packs are written in Node.js, so encryption is synchronous; decryption
+ * goes through the `PackCrypto` of the entry point.
+ */
+
+import { ReadOptions } from './types';
+import { PackCrypto } from './crypto';
+import { CharPackError, CorruptFileError, DecryptionError, InvalidInputError } from './errors';
+
+/**
+ * Encryption ids stored in the header
+ */
+export const ENCRYPTION_IDS = {
+  none: 0,
+  'aes-256-gcm': 1,
+} as const;
+
+export const KEY_SIZE = 32;
+export const NONCE_SIZE = 12;
+export const TAG_SIZE = 16;
+
+/**
+ * Seals a section of a pack being written
+ */
+export type Encryptor = (data: Uint8Array) => Uint8Array;
+
+/**
+ * Check that a key is usable for AES-256
+ */
+export function checkKey(key: Uint8Array): Uint8Array {
+  if (!(key instanceof Uint8Array) || key.length !== KEY_SIZE) {
+    const size = key instanceof Uint8Array ? `${key.length} bytes` : typeof key;
+    throw new InvalidInputError(`Encryption key must be ${KEY_SIZE} bytes, got ${size}`);
+  }
+  return key;
+}
+
+/**
+ * Decrypt a sealed section of a pack with the key in `options`.
+ * Sections of unencrypted packs are returned as they are.
+ * `section` names the section in error messages.
+ */
+export async function decryptSection(
+  sealed: Uint8Array,
+  encryption: number,
+  options: ReadOptions,
+  crypto: PackCrypto,
+  section: string
+): Promise<Uint8Array> {
+  if (encryption === ENCRYPTION_IDS.none) {
+    return sealed;
+  }
+  if (!options.key) {
+    throw new DecryptionError('CharPack is encrypted: pass its key in options.key');
+  }
+  const key = checkKey(options.key);
+  if (sealed.length < NONCE_SIZE + TAG_SIZE) {
+    throw new CorruptFileError(`Invalid CharPack file: ${section} is too short to be encrypted`);
+  }
+
+  try {
+    return await crypto.decrypt(sealed, key);
+  } catch (error) {
+    if (error instanceof CharPackError) {
+      throw error;
+    }
+    throw new DecryptionError(`Failed to decrypt ${section}: wrong key`, { cause: error });
+  }
+}
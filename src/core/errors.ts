@@ -0,0 +1,202 @@
+/**
+ * Error classes shared by the Node and browser builds
+ *
+ * Every error thrown by CharPack is a `CharPackError` carrying a stable,
+ * machine-readable `code`. Messages are for humans and may change; branch
+ * on `code` (or `instanceof`) instead. Errors caused by another failure
+ * (e.g. an image decoder) keep it as `cause`.
+ */
+
+/**
+ * Machine-readable error codes
+ */
+export type CharPackErrorCode =
+  | 'VARIATION_NOT_FOUND'
+  | 'DUPLICATE_VARIATION'
+  | 'DIMENSION_MISMATCH'
+  | 'CORRUPT_FILE'
+  | 'UNSUPPORTED_VERSION'
+  | 'UNSUPPORTED_CODEC'
+  | 'INVALID_INPUT'
+  | 'IMAGE_LOAD_FAILED'
+  | 'IMAGE_ENCODE_FAILED'
+  | 'FILE_LOCKED'
+  | 'FETCH_FAILED'
+  | 'LIMIT_EXCEEDED'
+  | 'DECRYPTION_FAILED'
+  | 'SIGNATURE_INVALID'
+  | 'PART_NOT_FOUND';
+
+/**
+ * Base class of all CharPack errors
+ */
+export class CharPackError extends Error {
+  readonly code: CharPackErrorCode;
+  /**
+   * The error that caused this one, if any
+   */
+  readonly cause?: unknown;
+
+  constructor(code: CharPackErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'CharPackError';
+    this.code = code;
+    if (options && 'cause' in options) {
+      this.cause = options.cause;
+    }
+  }
+}
+
+/**
+ * A variation name that is not in the pack
+ */
+export class VariationNotFoundError extends CharPackError {
+  constructor(readonly variation: string) {
+    super('VARIATION_NOT_FOUND', `Variation '${variation}' not found in CharPack`);
+    this.name = 'VariationNotFoundError';
+  }
+}
+
+/**
+ * A slot or part name that is not in the pack
+ */
+export class PartNotFoundError extends CharPackError {
+  constructor(readonly slot: string, readonly part?: string) {
+    super(
+      'PART_NOT_FOUND',
+      part === undefined ? `Slot '${slot}' not found in CharPack` : `Part '${part}' not found in slot '${slot}' of CharPack`
+    );
+    this.name = 'PartNotFoundError';
+  }
+}
+
+/**
+ * A variation name that is already in the pack
+ */
+export class DuplicateVariationError extends CharPackError {
+  constructor(readonly variation: string) {
+    super('DUPLICATE_VARIATION', `Variation '${variation}' already exists in CharPack`);
+    this.name = 'DuplicateVariationError';
+  }
+}
+
+/**
+ * Images whose dimensions do not match the pack or each other
+ */
+export class DimensionMismatchError extends CharPackError {
+  constructor(message: string) {
+    super('DIMENSION_MISMATCH', message);
+    this.name = 'DimensionMismatchError';
+  }
+}
+
+/**
+ * A damaged, truncated or malformed pack
+ */
+export class CorruptFileError extends CharPackError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('CORRUPT_FILE', message, options);
+    this.name = 'CorruptFileError';
+  }
+}
+
+/**
+ * A pack written in a format version this build cannot read
+ */
+export class UnsupportedVersionError extends CharPackError {
+  constructor(readonly version: number) {
+    super('UNSUPPORTED_VERSION', `Unsupported CharPack version: ${version}`);
+    this.name = 'UnsupportedVersionError';
+  }
+}
+
+/**
+ * A compression codec that is unknown or unavailable in this runtime
+ */
+export class UnsupportedCodecError extends CharPackError {
+  constructor(message: string) {
+    super('UNSUPPORTED_CODEC', message);
+    this.name = 'UnsupportedCodecError';
+  }
+}
+
+/**
+ * Arguments or options that cannot be acted on
+ */
+export class InvalidInputError extends CharPackError {
+  constructor(message: string) {
+    super('INVALID_INPUT', message);
+    this.name = 'InvalidInputError';
+  }
+}
+
+/**
+ * A source image that could not be read or decoded
+ */
+export class ImageLoadError extends CharPackError {
+  constructor(readonly path: string, options?: { cause?: unknown }) {
+    const reason = options?.cause instanceof Error ? options.cause.message : String(options?.cause ?? 'unknown error');
+    super('IMAGE_LOAD_FAILED', `Failed to load image ${path}: ${reason}`, options);
+    this.name = 'ImageLoadError';
+  }
+}
+
+/**
+ * An image that could not be encoded to the requested output format
+ */
+export class ImageEncodeError extends CharPackError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('IMAGE_ENCODE_FAILED', message, options);
+    this.name = 'ImageEncodeError';
+  }
+}
+
+/**
+ * A pack locked by another writer. Retrying later may succeed.
+ */
+export class FileLockedError extends CharPackError {
+  constructor(readonly path: string, message: string, options?: { cause?: unknown }) {
+    super('FILE_LOCKED', message, options);
+    this.name = 'FileLockedError';
+  }
+}
+
+/**
+ * A failed HTTP request for a remote pack
+ */
+export class FetchError extends CharPackError {
+  constructor(readonly url: string, readonly status: number, message: string) {
+    super('FETCH_FAILED', message);
+    this.name = 'FetchError';
+  }
+}
+
+/**
+ * A pack larger than the configured parse limits
+ */
+export class LimitExceededError extends CharPackError {
+  constructor(message: string) {
+    super('LIMIT_EXCEEDED', message);
+    this.name = 'LimitExceededError';
+  }
+}
+
+/**
+ * An encrypted pack read without its key, or with the wrong one
+ */
+export class DecryptionError extends CharPackError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('DECRYPTION_FAILED', message, options);
+    this.name = 'DecryptionError';
+  }
+}
+
+/**
+ * A pack that is not signed, or not signed with the expected key, when a signature is required
+ */
+export class SignatureError extends CharPackError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('SIGNATURE_INVALID', message, options);
+    this.name = 'SignatureError';
+  }
+}
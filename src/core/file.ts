@@ -0,0 +1,223 @@
+/**
+ * Crash-safe writes and advisory locking for CharPack files
+ *
+ * Modifications never touch the original file: the new contents are written
+ * to a temporary file next to it, flushed to disk and renamed over the
+ * original, so a crash leaves either the old or the new pack.
+ * Writers also hold `<file>.lock` for the whole read-modify-write cycle.
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileLockedError } from './errors';
+
+/**
+ * Contents of a lock file, used to report and detect stale locks
+ */
+interface LockInfo {
+  pid: number;
+  hostname: string;
+  createdAt: string;
+}
+
+/**
+ * Path of the advisory lock file guarding a CharPack file
+ */
+export function lockPath(filePath: string): string {
+  return `${filePath}.lock`;
+}
+
+/**
+ * Path of a temporary file in the same directory, so it can be renamed atomically
+ */
+function tempPath(filePath: string): string {
+  const suffix = `${process.pid}.${Date.now().toString(36)}.${Math.random().toString(36).slice(2, 8)}`;
+  return path.join(path.dirname(filePath), `.${path.basename(filePath)}.${suffix}.tmp`);
+}
+
+/**
+ * Check whether a lock was left behind by a process that no longer exists.
+ * Only locks taken on this machine can be checked.
+ */
+function isStaleLock(info: LockInfo | undefined): boolean {
+  if (!info || info.hostname !== os.hostname()) {
+    return false;
+  }
+  try {
+    process.kill(info.pid, 0);
+    return false;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'ESRCH';
+  }
+}
+
+/**
+ * Read a lock file, along with its owner if it can be parsed
+ */
+async function readLock(lockFile: string): Promise<{ content: string; owner?: LockInfo } | undefined> {
+  let content: string;
+  try {
+    content = await fs.readFile(lockFile, 'utf8');
+  } catch {
+    return undefined;
+  }
+  try {
+    return { content, owner: JSON.parse(content) };
+  } catch {
+    return { content };
+  }
+}
+
+/**
+ * Create a lock file, returning false if it already exists
+ */
+async function createLock(lockFile: string, content: string): Promise<boolean> {
+  try {
+    await fs.writeFile(lockFile, content, { flag: 'wx' });
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Remove a stale lock, unless another writer has replaced it since it was read.
+ * The lock is renamed to a name of our own first, so only one writer can move
+ * it away; a live lock moved by mistake is put back. If it cannot be put back,
+ * the moved lock is kept and reported in a FileLockedError.
+ */
+async function removeStaleLock(filePath: string, lockFile: string, staleContent: string): Promise<void> {
+  const moved = `${lockFile}.${process.pid}.${Math.random().toString(36).slice(2, 8)}.stale`;
+  try {
+    await fs.rename(lockFile, moved);
+  } catch (error) {
+    // Already removed by another writer
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  }
+
+  let live: boolean;
+  try {
+    live = await fs.readFile(moved, 'utf8') !== staleContent;
+  } catch (error) {
+    await fs.rm(moved, { force: true });
+    throw error;
+  }
+
+  if (live) {
+    try {
+      await fs.link(moved, lockFile);
+    } catch (error) {
+      throw new FileLockedError(
+        filePath,
+        `CharPack file '${filePath}' is locked by another writer, whose lock file was moved to '${moved}' ` +
+        `and could not be put back. Move it back to '${lockFile}' unless that writer has finished.`,
+        { cause: error }
+      );
+    }
+  }
+  await fs.rm(moved, { force: true });
+}
+
+/**
+ * Run `fn` while holding the advisory lock of a CharPack file.
+ * Throws right away if another writer holds the lock; locks left behind by
+ * crashed processes on this machine are taken over.
+ */
+export async function withFileLock<T>(filePath: string, fn: () => Promise<T>): Promise<T> {
+  const lockFile = lockPath(filePath);
+  const info: LockInfo = { pid: process.pid, hostname: os.hostname(), createdAt: new Date().toISOString() };
+  const content = JSON.stringify(info);
+
+  let acquired = await createLock(lockFile, content);
+  if (!acquired) {
+    // Take over a stale lock; if several writers try at once, one of them wins
+    // and the others find its lock
+    const current = await readLock(lockFile);
+    if (current && isStaleLock(current.owner)) {
+      await removeStaleLock(filePath, lockFile, current.content);
+      acquired = await createLock(lockFile, content);
+    }
+  }
+
+  if (!acquired) {
+    const owner = (await readLock(lockFile))?.owner;
+    const holder = owner ? `process ${owner.pid} on ${owner.hostname} since ${owner.createdAt}` : 'another process';
+    throw new FileLockedError(
+      filePath,
+      `CharPack file '${filePath}' is locked by ${holder}. ` +
+      `If no other process is writing it, delete '${lockFile}'.`
+    );
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lockFile, { force: true });
+  }
+}
+
+/**
+ * Flush a file to disk and move it over the target
+ */
+async function commit(temp: string, filePath: string): Promise<void> {
+  const handle = await fs.open(temp, 'r+');
+  try {
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await fs.rename(temp, filePath);
+}
+
+/**
+ * Atomically replace a file with new contents, keeping its permissions
+ */
+export async function writeFileAtomic(filePath: string, data: Buffer): Promise<void> {
+  const temp = tempPath(filePath);
+  const mode = await fs.stat(filePath).then((stats) => stats.mode, () => undefined);
+
+  try {
+    await fs.writeFile(temp, data, { mode });
+    await commit(temp, filePath);
+  } catch (error) {
+    await fs.rm(temp, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Atomically apply in-place edits to a file.
+ * `update` receives an open handle to a copy of the file; the copy replaces
+ * the original only once `update` has finished.
+ */
+export async function updateFileAtomic<T>(
+  filePath: string,
+  update: (fileHandle: fs.FileHandle) => Promise<T>
+): Promise<T> {
+  const temp = tempPath(filePath);
+
+  try {
+    await fs.copyFile(filePath, temp);
+
+    let result: T;
+    const handle = await fs.open(temp, 'r+');
+    try {
+      result = await update(handle);
+    } finally {
+      await handle.close();
+    }
+
+    await commit(temp, filePath);
+    return result;
+  } catch (error) {
+    await fs.rm(temp, { force: true });
+    throw error;
+  }
+}
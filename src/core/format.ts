@@ -1,509 +1,1665 @@
 /**
  * CharPack file format serialization and deserialization
- * 
- * Format structure:
- * - Magic number: "CHPK" (4 bytes)
- * - Version: uint32 (4 bytes)
- * - Width: uint32 (4 bytes)
- * - Height: uint32 (4 bytes)
- * - Channels: uint8 (1 byte)
- * - Base image size: uint32 (4 bytes)
- * - Base image data: Buffer
- * - Variation count: uint32 (4 bytes)
- * - For each variation:
+ *
+ * Format structure (version 2):
+ * - Header (HEADER_SIZE bytes):
+ *   - Magic number: "CHPK" (4 bytes)
+ *   - Version: uint32 (4 bytes)
+ *   - Header size: uint32 (4 bytes, always HEADER_SIZE; new fields or sections need a new version)
+ *   - Width: uint32 (4 bytes)
+ *   - Height: uint32 (4 bytes)
+ *   - Channels: uint8 (1 byte)
+ *   - Base image codec: uint8 (1 byte, see CODEC_IDS)
+ *   - Base image size: uint32 (4 bytes)
+ *   - Base image CRC32: uint32 (4 bytes)
+ *   - Variation count: uint32 (4 bytes)
+ *   - Index offset: uint32 (4 bytes)
+ *   - Index size: uint32 (4 bytes)
+ *   - Index CRC32: uint32 (4 bytes)
+ *   - Metadata offset: uint32 (4 bytes)
+ *   - Metadata size: uint32 (4 bytes, 0 if the pack has no metadata)
+ *   - Metadata CRC32: uint32 (4 bytes)
+ *   - Encryption: uint8 (1 byte, see ENCRYPTION_IDS)
+ *   - Keyframe table offset: uint32 (4 bytes)
+ *   - Keyframe table size: uint32 (4 bytes, 0 if the pack has a single base image)
+ *   - Keyframe table CRC32: uint32 (4 bytes)
+ *   - Patch pool offset: uint32 (4 bytes)
+ *   - Patch pool size: uint32 (4 bytes, 0 if no patch is shared)
+ *   - Patch pool CRC32: uint32 (4 bytes)
+ *   - Part table offset: uint32 (4 bytes)
+ *   - Part table size: uint32 (4 bytes, 0 if the pack has no parts)
+ *   - Part table CRC32: uint32 (4 bytes)
+ *   - Header CRC32: uint32 (4 bytes, covers all preceding header bytes)
+ * - Base image data: Buffer (starts right after the header)
+ * - Keyframes: additional base images, each compressed like the base image
+ * - Patch pool, patches shared by several variations, each stored once:
+ *   - Codec: uint8 (1 byte)
+ *   - Encoding: uint8 (1 byte, encoding id with the blend mode id in the high nibble, see patch.ts)
+ *   - Data size: uint32 (4 bytes)
+ *   - Data: Buffer (compressed with the codec)
+ * - Metadata: UTF-8 JSON (optional)
+ * - Keyframe table, for each keyframe:
+ *   - Codec: uint8 (1 byte)
+ *   - Offset: uint32 (4 bytes)
+ *   - Size: uint32 (4 bytes)
+ *   - CRC32: uint32 (4 bytes)
+ * - Part table, for each part (parts of a slot are stored together):
+ *   - Slot length: uint32 (4 bytes)
+ *   - Slot: UTF-8 string
  *   - Name length: uint32 (4 bytes)
  *   - Name: UTF-8 string
+ *   - Block offset: uint32 (4 bytes)
+ *   - Block size: uint32 (4 bytes)
+ *   - Block CRC32: uint32 (4 bytes)
+ *   - Block codec: uint8 (1 byte)
+ * - Index table (anywhere in the file: appending variations moves it to the end), for each variation:
+ *   - Name length: uint32 (4 bytes)
+ *   - Name: UTF-8 string
+ *   - Block offset: uint32 (4 bytes)
+ *   - Block size: uint32 (4 bytes)
+ *   - Block CRC32: uint32 (4 bytes)
+ *   - Block codec: uint8 (1 byte, used for every patch in the block)
+ *   - Properties size: uint32 (4 bytes, 0 if the variation has no properties)
+ *   - Properties: UTF-8 JSON (tags, display name, anchors, custom data)
+ *   - Base: uint32 (4 bytes, 0 for the base image, k for keyframe k, or PARENT_FLAG | i when the
+ *     patches apply to the variation at index position i)
+ * - Variation blocks, each:
  *   - Patch count: uint32 (4 bytes)
  *   - For each patch:
  *     - x: uint32 (4 bytes)
  *     - y: uint32 (4 bytes)
  *     - width: uint32 (4 bytes)
  *     - height: uint32 (4 bytes)
+ *     - encoding: uint8 (1 byte, encoding id with the blend mode id in the high nibble, see patch.ts)
  *     - data size: uint32 (4 bytes)
- *     - data: Buffer
+ *     - data: Buffer (compressed with the block codec)
+ *     or, for a patch stored in the patch pool:
+ *     - encoding: uint8 (1 byte, POOL_REFERENCE)
+ *     - pool entry: uint32 (4 bytes, position of the entry in the pool)
+ * - Part blocks, laid out like variation blocks and always diffed against the base image
+ *
+ * In encrypted packs the base image data, every keyframe, the patch pool and every variation and part block are
+ * sealed as a whole (see encryption.ts); checksums and sizes in the header
+ * and index describe the sealed bytes.
+ *
+ * Signed packs end with a signature section (see signature.ts).
+ *
+ * Version 1 files carry no checksums, codec ids (always DEFLATE) or patch
+ * encodings (always PNG), and store
+ * the variation count and index directly after the base image (header: magic,
+ * version, width, height, channels, base image size). They remain readable.
  */
 
-import { CharPackData, VariationMetadata, DiffPatch } from './types';
-// Use Brotli for balance between size and decode speed
-import { compress, decompress } from './compress';
+import {
+  CharPackData,
+  VariationMetadata,
+  VerifyResult,
+  InspectResult,
+  VariationInspection,
+  CompressionOptions,
+  PackMetadata,
+  VariationProperties,
+  ParseLimits,
+  ReadOptions,
+  DiffPatch,
+  PooledPatch,
+  BlendMode,
+  Rectangle,
+} from './types';
+// Codec is recorded per block, so packs may mix codecs
+import { compress } from './compress';
+import { CODEC_IDS, DEFAULT_COMPRESSION } from './codec';
+import { POOL_REFERENCE, patchEncodingByte, readPatchEncodingByte } from './patch';
+import { crc32 } from './crc32';
+// Patches are pooled by content digest
+import { createHash } from 'crypto';
 // Node 16+ provide explicit import path for Buffer type
 import { Buffer } from 'node:buffer';
 // File system operations for incremental modifications
 import * as fs from 'fs/promises';
+import { withFileLock, writeFileAtomic, updateFileAtomic } from './file';
+import { DEFAULT_LIMITS, resolveLimits, checkImageSize, checkIndexEntries, checkVariationCount, checkRange, checkPatchRect, createByteReader } from './bounds';
+import { ENCRYPTION_IDS, Encryptor, decryptSection } from './encryption';
+import { PackCrypto } from './crypto';
+import { PackSigner, buildSignatureSection, readSignature } from './signature';
+// Parsing is shared with the browser build
+import {
+  MAGIC,
+  VERSION,
+  LEGACY_VERSION,
+  HEADER_SIZE,
+  KEYFRAME_ENTRY_SIZE,
+  PARENT_FLAG,
+  VariationIndex,
+  KeyframeIndex,
+  HeaderFields,
+  PackLayout,
+  PackHeader,
+  PartIndex,
+  readVersion,
+  readHeader,
+  readMetadata,
+  parseMetadata,
+  readIndex,
+  parseIndex,
+  readKeyframes,
+  parseKeyframes,
+  readPool,
+  checkPool,
+  parsePool,
+  readParts,
+  parseParts,
+  partLabel,
+  sliceKeyframe,
+  checkKeyframe,
+  checkBase,
+  readLayout,
+  readLegacyLayout,
+  decodeBaseImage,
+  openPackHeader,
+  decodeVariationBlock,
+  checkVariationBlock,
+  decodePartBlock,
+  checkPartBlock,
+  sliceVariationBlock,
+  variationChain,
+  overlayBlend,
+  deserialize as deserializeBytes,
+  parseHeaderWithIndex as parseHeaderBytes,
+} from './decode';
+import { CorruptFileError, DecryptionError, DuplicateVariationError, InvalidInputError, UnsupportedVersionError, VariationNotFoundError } from './errors';
+
+export { VERSION, decodeVariationBlock } from './decode';
+export type { VariationIndex } from './decode';
+
+/**
+ * Deserialize buffer to CharPack data, see `deserialize` in decode.ts.
+ * The Node build returns the base image as a Buffer.
+ */
+export function deserialize(buffer: Uint8Array, options: ReadOptions = {}): CharPackData & { baseImage: Buffer } {
+  const data = deserializeBytes(buffer, options);
+  return { ...data, baseImage: toBuffer(data.baseImage) };
+}
 
-const MAGIC = Buffer.from('CHPK', 'utf8');
-const VERSION = 1;
+/**
+ * Parse CharPack header and index table without decoding variation blocks,
+ * see `parseHeaderWithIndex` in decode.ts. The Node build returns the base image as a Buffer.
+ */
+export function parseHeaderWithIndex(buffer: Uint8Array, options: ReadOptions = {}): PackHeader & { baseImage: Buffer } {
+  const header = parseHeaderBytes(buffer, options);
+  return { ...header, baseImage: toBuffer(header.baseImage) };
+}
 
 /**
- * Serialize CharPack data to buffer with variation index table for random access.
- * Index entry structure (per variation):
- *   - name length: uint32
- *   - name: UTF-8 bytes
- *   - data offset: uint32 (start offset of variation block)
- *   - data size: uint32 (length of variation block)
+ * View bytes as a Buffer without copying them
  */
-export function serialize(data: CharPackData): Buffer {
-  // Build buffers in three phases:
-  // 1) Fixed-size header (magic, version, dims, base image)
-  // 2) Index table (name, offset, size)
-  // 3) Variation blocks (name + patches unchanged from previous format)
+function toBuffer(bytes: Uint8Array): Buffer {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * Encoded variation block ready to be laid out, with its index entry data
+ */
+interface BlockEntry {
+  name: string;
+  codec: number;
+  block: Uint8Array;
+  properties?: VariationProperties;
+  base?: number;
+  parent?: string;
+}
 
-  const headerBuffers: Buffer[] = [];
+/**
+ * Stored keyframe ready to be laid out
+ */
+interface KeyframeBlock {
+  codec: number;
+  blob: Uint8Array;
+}
 
-  // Magic number
-  headerBuffers.push(MAGIC);
+/**
+ * Encoded part block ready to be laid out, with its part table entry data
+ */
+interface PartBlock {
+  slot: string;
+  name: string;
+  codec: number;
+  block: Uint8Array;
+}
 
-  // Version
-  const versionBuf = Buffer.allocUnsafe(4);
-  versionBuf.writeUInt32LE(VERSION, 0);
-  headerBuffers.push(versionBuf);
+/**
+ * Patches found in more than one place, each stored once in the pool section
+ */
+interface PatchPool {
+  section: Buffer;
+  /**
+   * Pool position of every patch of every variation and part, undefined for patches stored in their block
+   */
+  references: Array<Array<number | undefined>>;
+}
 
-  // Dimensions & channel count
+/**
+ * Serialize CharPack data to buffer with variation index table for random access.
+ * With an `encryptor`, the base image, every keyframe and every variation and part block are sealed.
+ */
+export function serialize(
+  data: CharPackData,
+  compression: CompressionOptions = DEFAULT_COMPRESSION,
+  encryptor?: Encryptor
+): Buffer {
   const channels = data.baseImage.length / (data.width * data.height);
-  const dimBuf = Buffer.allocUnsafe(9);
-  dimBuf.writeUInt32LE(data.width, 0);
-  dimBuf.writeUInt32LE(data.height, 4);
-  dimBuf.writeUInt8(channels, 8);
-  headerBuffers.push(dimBuf);
-
-  // Base image (compressed)
-  const compBase = compress(data.baseImage);
-  const baseImgSizeBuf = Buffer.allocUnsafe(4);
-  baseImgSizeBuf.writeUInt32LE(compBase.length, 0);
-  headerBuffers.push(baseImgSizeBuf);
-  headerBuffers.push(compBase);
-
-  // Variation count (written before index)
-  const varCountBuf = Buffer.allocUnsafe(4);
-  varCountBuf.writeUInt32LE(data.variations.length, 0);
-  headerBuffers.push(varCountBuf);
-
-  // ------------------------------------------------------------
-  // Build variation blocks first so we know their offsets/sizes
-  // ------------------------------------------------------------
-  const variationBlocks: Buffer[] = [];
-  interface BlockInfo { nameBuf: Buffer; nameLenBuf: Buffer; blockSize: number; }
-  const blockInfos: BlockInfo[] = [];
-
-  for (const variation of data.variations) {
-    // Variation name buffer
-    const nameBuf = Buffer.from(variation.name, 'utf8');
-    const nameLenBuf = Buffer.allocUnsafe(4);
-    nameLenBuf.writeUInt32LE(nameBuf.length, 0);
-
-    // Build patch block (includes patchCount and patches, *not* name)
-    const patchesBufs: Buffer[] = [];
-    const patchCountBuf = Buffer.allocUnsafe(4);
-    patchCountBuf.writeUInt32LE(variation.patches.length, 0);
-    patchesBufs.push(patchCountBuf);
-
-    for (const patch of variation.patches) {
-      const compPatch = compress(patch.data);
-      const patchHeaderBuf = Buffer.allocUnsafe(20);
-      patchHeaderBuf.writeUInt32LE(patch.rect.x, 0);
-      patchHeaderBuf.writeUInt32LE(patch.rect.y, 4);
-      patchHeaderBuf.writeUInt32LE(patch.rect.width, 8);
-      patchHeaderBuf.writeUInt32LE(patch.rect.height, 12);
-      patchHeaderBuf.writeUInt32LE(compPatch.length, 16);
-      patchesBufs.push(patchHeaderBuf);
-      patchesBufs.push(compPatch);
-    }
+  const codec = CODEC_IDS[compression.codec];
+  const seal = encryptor ?? ((section: Uint8Array) => section);
+  const parts = data.parts ?? [];
+  const pool = buildPatchPool([...data.variations, ...parts], compression);
+
+  const blocks = data.variations.map((variation, i) => ({
+    name: variation.name,
+    codec,
+    block: seal(buildVariationBlock(variation, compression, pool.references[i])),
+    properties: variation.properties,
+    base: variation.base,
+    parent: variation.parent,
+  }));
+  const keyframes = (data.keyframes ?? []).map((keyframe) => ({ codec, blob: seal(compress(keyframe, compression)) }));
+  const partBlocks = parts.map((part, i) => ({
+    slot: part.slot,
+    name: part.name,
+    codec,
+    block: seal(buildVariationBlock(part, compression, pool.references[data.variations.length + i])),
+  }));
+
+  return assemble(
+    data.width,
+    data.height,
+    channels,
+    codec,
+    seal(compress(data.baseImage, compression)),
+    keyframes,
+    pool.section.length > 0 ? seal(pool.section) : pool.section,
+    blocks,
+    partBlocks,
+    data.metadata,
+    encryptor ? ENCRYPTION_IDS['aes-256-gcm'] : ENCRYPTION_IDS.none
+  );
+}
+
+/**
+ * Lay out header, base images, patch pool, index, part table, variation blocks and part blocks into a complete file.
+ * Keyframes, the pool and blocks are written verbatim; only their offsets and checksums are computed here.
+ */
+function assemble(
+  width: number,
+  height: number,
+  channels: number,
+  baseCodec: number,
+  compressedBase: Uint8Array,
+  keyframes: KeyframeBlock[],
+  poolSection: Uint8Array,
+  blocks: BlockEntry[],
+  parts: PartBlock[],
+  metadata?: PackMetadata,
+  encryption: number = ENCRYPTION_IDS.none
+): Buffer {
+  // Keyframes follow the base image, then the patch pool, metadata, the keyframe table,
+  // the part table, the index, variation blocks and part blocks
+  let keyframeOffset = HEADER_SIZE + compressedBase.length;
+  const keyframeEntries: KeyframeIndex[] = keyframes.map(({ codec, blob }) => {
+    const entry = { codec, offset: keyframeOffset, size: blob.length, crc: crc32(blob) };
+    keyframeOffset += blob.length;
+    return entry;
+  });
+
+  const poolOffset = keyframeOffset;
+  const metadataBuf = buildMetadata(metadata);
+  const metadataOffset = poolOffset + poolSection.length;
+  const keyframeTable = buildKeyframeTable(keyframeEntries);
+  const keyframesOffset = metadataOffset + metadataBuf.length;
+  const partsOffset = keyframesOffset + keyframeTable.length;
+  const partsSize = parts.reduce((acc, p) => acc + partEntrySize(p), 0);
+  const indexOffset = partsOffset + partsSize;
+  const indexSize = blocks.reduce((acc, b) => acc + indexEntrySize(b), 0);
+
+  let currentOffset = indexOffset + indexSize;
+  const entries: VariationIndex[] = blocks.map(({ name, codec, block, properties, base, parent }) => {
+    const entry = { name, offset: currentOffset, size: block.length, crc: crc32(block), codec, properties, base, parent };
+    currentOffset += block.length;
+    return entry;
+  });
+  const partEntries: PartIndex[] = parts.map(({ slot, name, codec, block }) => {
+    const entry = { slot, name, offset: currentOffset, size: block.length, crc: crc32(block), codec };
+    currentOffset += block.length;
+    return entry;
+  });
+
+  const index = buildIndex(entries);
+  const partTable = buildPartTable(partEntries);
+  const header = buildHeader({
+    headerSize: HEADER_SIZE,
+    width,
+    height,
+    channels,
+    baseCodec,
+    baseSize: compressedBase.length,
+    baseCrc: crc32(compressedBase),
+    variationCount: entries.length,
+    indexOffset,
+    indexSize: index.length,
+    indexCrc: crc32(index),
+    metadataOffset,
+    metadataSize: metadataBuf.length,
+    metadataCrc: crc32(metadataBuf),
+    encryption,
+    keyframesOffset,
+    keyframesSize: keyframeTable.length,
+    keyframesCrc: crc32(keyframeTable),
+    poolOffset,
+    poolSize: poolSection.length,
+    poolCrc: crc32(poolSection),
+    partsOffset,
+    partsSize: partTable.length,
+    partsCrc: crc32(partTable),
+  });
+
+  return Buffer.concat([
+    header,
+    compressedBase,
+    ...keyframes.map((k) => k.blob),
+    poolSection,
+    metadataBuf,
+    keyframeTable,
+    partTable,
+    index,
+    ...blocks.map((b) => b.block),
+    ...parts.map((p) => p.block),
+  ]);
+}
+
+/**
+ * Size in bytes of a single part table entry
+ */
+function partEntrySize(part: { slot: string; name: string }): number {
+  return 4 + Buffer.byteLength(part.slot, 'utf8') + 4 + Buffer.byteLength(part.name, 'utf8') + 4 + 4 + 4 + 1;
+}
+
+/**
+ * Build the part table.
+ * Entry layout: [slotLen][slot][nameLen][name][offset][size][crc][codec]
+ */
+function buildPartTable(entries: PartIndex[]): Buffer {
+  const table = Buffer.alloc(entries.reduce((acc, entry) => acc + partEntrySize(entry), 0));
+  let offset = 0;
+  for (const entry of entries) {
+    offset = table.writeUInt32LE(Buffer.byteLength(entry.slot, 'utf8'), offset);
+    offset += table.write(entry.slot, offset, 'utf8');
+    offset = table.writeUInt32LE(Buffer.byteLength(entry.name, 'utf8'), offset);
+    offset += table.write(entry.name, offset, 'utf8');
+    offset = table.writeUInt32LE(entry.offset, offset);
+    offset = table.writeUInt32LE(entry.size, offset);
+    offset = table.writeUInt32LE(entry.crc, offset);
+    offset = table.writeUInt8(entry.codec, offset);
+  }
+  return table;
+}
+
+/**
+ * Build the keyframe table.
+ * Entry layout: [codec][offset][size][crc]
+ */
+function buildKeyframeTable(entries: KeyframeIndex[]): Buffer {
+  const table = Buffer.alloc(entries.length * KEYFRAME_ENTRY_SIZE);
+  entries.forEach((entry, k) => {
+    let offset = table.writeUInt8(entry.codec, k * KEYFRAME_ENTRY_SIZE);
+    offset = table.writeUInt32LE(entry.offset, offset);
+    offset = table.writeUInt32LE(entry.size, offset);
+    table.writeUInt32LE(entry.crc, offset);
+  });
+  return table;
+}
+
+/**
+ * Encode pack metadata as UTF-8 JSON (empty when there is none)
+ */
+function buildMetadata(metadata?: PackMetadata): Buffer {
+  if (!metadata) {
+    return Buffer.alloc(0);
+  }
+  return Buffer.from(JSON.stringify(metadata), 'utf8');
+}
 
-    const patchBlock = Buffer.concat(patchesBufs);
-    variationBlocks.push(patchBlock);
+/**
+ * Build the fixed-size version 2 header, sealing it with its CRC32
+ */
+function buildHeader(fields: HeaderFields): Buffer {
+  const buf = Buffer.alloc(HEADER_SIZE);
+
+  buf.set(MAGIC, 0);
+  buf.writeUInt32LE(VERSION, 4);
+  buf.writeUInt32LE(HEADER_SIZE, 8);
+  buf.writeUInt32LE(fields.width, 12);
+  buf.writeUInt32LE(fields.height, 16);
+  buf.writeUInt8(fields.channels, 20);
+  buf.writeUInt8(fields.baseCodec, 21);
+  buf.writeUInt32LE(fields.baseSize, 22);
+  buf.writeUInt32LE(fields.baseCrc, 26);
+  buf.writeUInt32LE(fields.variationCount, 30);
+  buf.writeUInt32LE(fields.indexOffset, 34);
+  buf.writeUInt32LE(fields.indexSize, 38);
+  buf.writeUInt32LE(fields.indexCrc, 42);
+  buf.writeUInt32LE(fields.metadataOffset, 46);
+  buf.writeUInt32LE(fields.metadataSize, 50);
+  buf.writeUInt32LE(fields.metadataCrc, 54);
+  buf.writeUInt8(fields.encryption, 58);
+  buf.writeUInt32LE(fields.keyframesOffset, 59);
+  buf.writeUInt32LE(fields.keyframesSize, 63);
+  buf.writeUInt32LE(fields.keyframesCrc, 67);
+  buf.writeUInt32LE(fields.poolOffset, 71);
+  buf.writeUInt32LE(fields.poolSize, 75);
+  buf.writeUInt32LE(fields.poolCrc, 79);
+  buf.writeUInt32LE(fields.partsOffset, 83);
+  buf.writeUInt32LE(fields.partsSize, 87);
+  buf.writeUInt32LE(fields.partsCrc, 91);
+  buf.writeUInt32LE(crc32(buf.subarray(0, HEADER_SIZE - 4)), HEADER_SIZE - 4);
+
+  return buf;
+}
 
-    blockInfos.push({ nameBuf, nameLenBuf, blockSize: patchBlock.length });
+/**
+ * Encode variation properties as UTF-8 JSON (empty when there are none)
+ */
+function buildProperties(properties?: VariationProperties): Buffer {
+  if (!properties) {
+    return Buffer.alloc(0);
   }
+  return Buffer.from(JSON.stringify(properties), 'utf8');
+}
+
+/**
+ * Size in bytes of a single version 2 index entry
+ */
+function indexEntrySize(entry: { name: string; properties?: VariationProperties }): number {
+  return 4 + Buffer.byteLength(entry.name, 'utf8') + 4 + 4 + 4 + 1 + 4 + buildProperties(entry.properties).length + 4;
+}
 
-  // ------------------------------------------------------------
-  // Build index table now that we know sizes
-  // ------------------------------------------------------------
+/**
+ * Build the version 2 index table.
+ * Entry layout: [nameLen][name][offset][size][crc][codec][propertiesLen][properties][base]
+ * Parents are stored by their position in this index.
+ */
+function buildIndex(entries: VariationIndex[]): Buffer {
   const indexBuffers: Buffer[] = [];
-  let currentOffset = headerBuffers.reduce((sum, b) => sum + b.length, 0);
-  // Add size of index table itself (we calculate dynamically as we build)
-  // We'll grow currentOffset as we push entries, but need the final value for blocks.
+  const positions = new Map(entries.map((entry, i) => [entry.name, i]));
+
+  for (const entry of entries) {
+    const nameBuf = Buffer.from(entry.name, 'utf8');
+    const propertiesBuf = buildProperties(entry.properties);
+    const entryBuf = Buffer.allocUnsafe(4 + nameBuf.length + 17 + propertiesBuf.length + 4);
+    let offset = entryBuf.writeUInt32LE(nameBuf.length, 0);
+    offset += nameBuf.copy(entryBuf, offset);
+    offset = entryBuf.writeUInt32LE(entry.offset, offset);
+    offset = entryBuf.writeUInt32LE(entry.size, offset);
+    offset = entryBuf.writeUInt32LE(entry.crc ?? 0, offset);
+    offset = entryBuf.writeUInt8(entry.codec, offset);
+    offset = entryBuf.writeUInt32LE(propertiesBuf.length, offset);
+    offset += propertiesBuf.copy(entryBuf, offset);
+    entryBuf.writeUInt32LE(entry.parent !== undefined ? (PARENT_FLAG | positions.get(entry.parent)!) >>> 0 : entry.base ?? 0, offset);
+    indexBuffers.push(entryBuf);
+  }
+
+  return Buffer.concat(indexBuffers);
+}
+
+/**
+ * Content key of a patch: a digest of its rectangle, encoding, blend mode and data
+ */
+function patchKey(patch: DiffPatch): string {
+  const head = Buffer.allocUnsafe(17);
+  head.writeUInt32LE(patch.rect.x, 0);
+  head.writeUInt32LE(patch.rect.y, 4);
+  head.writeUInt32LE(patch.rect.width, 8);
+  head.writeUInt32LE(patch.rect.height, 12);
+  head.writeUInt8(patchEncodingByte(patch), 16);
+  return createHash('sha256').update(head).update(patch.data).digest('hex');
+}
 
-  // First, pre-compute total index size to set starting offset of first block
-  const indexSize = blockInfos.reduce((acc, info) => acc + 4 + info.nameBuf.length + 4 + 4, 0);
-  currentOffset += indexSize;
+/**
+ * Size of the codec, encoding and data size of a pool entry
+ */
+const POOL_ENTRY_HEADER_SIZE = 6;
 
-  // Now build index entries and update offsets for each block
-  for (let i = 0; i < blockInfos.length; i++) {
-    const info = blockInfos[i];
+/**
+ * Pool the patches that appear more than once across the variations and parts,
+ * in order of first appearance. Patches found once stay in their block.
+ */
+function buildPatchPool(variations: Array<{ patches: DiffPatch[] }>, compression: CompressionOptions): PatchPool {
+  const keys = variations.map((variation) => variation.patches.map(patchKey));
+  const counts = new Map<string, number>();
+  for (const key of keys.flat()) {
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
 
-    // Entry layout: [nameLen][name][offset][size]
-    indexBuffers.push(info.nameLenBuf);
-    indexBuffers.push(info.nameBuf);
+  const positions = new Map<string, number>();
+  const entries: Buffer[] = [];
+  const references = variations.map((variation, i) => variation.patches.map((patch, j) => {
+    const key = keys[i][j];
+    if (counts.get(key)! < 2) {
+      return undefined;
+    }
+    if (!positions.has(key)) {
+      const data = compress(patch.data, compression);
+      const entryHeader = Buffer.allocUnsafe(POOL_ENTRY_HEADER_SIZE);
+      entryHeader.writeUInt8(CODEC_IDS[compression.codec], 0);
+      entryHeader.writeUInt8(patchEncodingByte(patch), 1);
+      entryHeader.writeUInt32LE(data.length, 2);
+      positions.set(key, positions.size);
+      entries.push(entryHeader, data);
+    }
+    return positions.get(key);
+  }));
 
-    const offsetBuf = Buffer.allocUnsafe(4);
-    offsetBuf.writeUInt32LE(currentOffset, 0);
-    indexBuffers.push(offsetBuf);
+  return { section: Buffer.concat(entries), references };
+}
 
-    const sizeBuf = Buffer.allocUnsafe(4);
-    sizeBuf.writeUInt32LE(info.blockSize, 0);
-    indexBuffers.push(sizeBuf);
+/**
+ * Build a variation or part block (patch count followed by compressed patches).
+ * Patches with a pool position in `references` are stored as references to the pool.
+ */
+function buildVariationBlock(
+  variation: { patches: DiffPatch[] },
+  compression: CompressionOptions,
+  references: Array<number | undefined> = []
+): Buffer {
+  const patchesBufs: Buffer[] = [];
+  const patchCountBuf = Buffer.allocUnsafe(4);
+  patchCountBuf.writeUInt32LE(variation.patches.length, 0);
+  patchesBufs.push(patchCountBuf);
+
+  for (const [i, patch] of variation.patches.entries()) {
+    const patchHeaderBuf = Buffer.allocUnsafe(21);
+    patchHeaderBuf.writeUInt32LE(patch.rect.x, 0);
+    patchHeaderBuf.writeUInt32LE(patch.rect.y, 4);
+    patchHeaderBuf.writeUInt32LE(patch.rect.width, 8);
+    patchHeaderBuf.writeUInt32LE(patch.rect.height, 12);
+    const reference = references[i];
+    if (reference !== undefined) {
+      patchHeaderBuf.writeUInt8(POOL_REFERENCE, 16);
+      patchHeaderBuf.writeUInt32LE(reference, 17);
+      patchesBufs.push(patchHeaderBuf);
+      continue;
+    }
 
-    // Update offset for next block
-    currentOffset += info.blockSize;
+    const compPatch = compress(patch.data, compression);
+    patchHeaderBuf.writeUInt8(patchEncodingByte(patch), 16);
+    patchHeaderBuf.writeUInt32LE(compPatch.length, 17);
+    patchesBufs.push(patchHeaderBuf);
+    patchesBufs.push(compPatch);
   }
 
-  // ------------------------------------------------------------
-  // Concatenate all sections: header, index, blocks
-  // ------------------------------------------------------------
-  return Buffer.concat([...headerBuffers, ...indexBuffers, ...variationBlocks]);
+  return Buffer.concat(patchesBufs);
 }
 
 /**
- * Lightweight variation index information extracted from header.
+ * Read `length` bytes at `position`, failing with `message` if the file ends first
  */
-export interface VariationIndex {
-  name: string;
-  offset: number;
-  size: number;
+async function readAt(
+  fileHandle: fs.FileHandle,
+  position: number,
+  length: number,
+  message: string
+): Promise<Buffer> {
+  const buf = Buffer.alloc(length);
+  const { bytesRead } = await fileHandle.read(buf, 0, length, position);
+  if (bytesRead < length) {
+    throw new CorruptFileError(message);
+  }
+  return buf;
 }
 
 /**
- * Parse CharPack header and index table without reading variation blocks.
- * Returns the base image buffer (decompressed) and variation indices for random access.
+ * Read the physical layout of a CharPack file through positional reads:
+ * a fixed prefix, the header, the base image, the metadata, the keyframe table,
+ * the patch pool, the part table and the index, and the signature section if `withSignature` is set.
+ * Keyframes are read on demand, like variation blocks.
+ * Variation blocks are never read, so I/O does not grow with the pack.
  */
-export function parseHeaderWithIndex(buffer: Buffer): {
-  width: number;
-  height: number;
-  channels: number;
-  baseImage: Buffer;
-  variations: VariationIndex[];
-} {
-  let offset = 0;
+async function readLayoutFromFile(
+  fileHandle: fs.FileHandle,
+  limits: Required<ParseLimits> = DEFAULT_LIMITS,
+  withSignature = false
+): Promise<PackLayout> {
+  const { size: fileSize } = await fileHandle.stat();
+
+  // Version 1 packs may be shorter than a version 2 header
+  const prefix = await readAt(fileHandle, 0, Math.min(HEADER_SIZE, fileSize), 'Invalid CharPack file: truncated header');
+  const version = readVersion(prefix);
+
+  if (version === LEGACY_VERSION) {
+    return readLegacyLayoutFromFile(fileHandle, fileSize, limits);
+  }
+  if (version !== VERSION) {
+    throw new UnsupportedVersionError(version);
+  }
+  const header = readHeader(prefix, fileSize);
+  checkImageSize(header.width, header.height, header.channels, limits);
 
-  // Magic
-  const magic = buffer.subarray(offset, offset + 4);
-  offset += 4;
-  if (!magic.equals(MAGIC)) {
-    throw new Error('Invalid CharPack file: magic mismatch');
+  if (header.headerSize + header.baseSize > fileSize) {
+    throw new CorruptFileError('Invalid CharPack file: truncated base image');
   }
+  const compressedBase = await readAt(
+    fileHandle,
+    header.headerSize,
+    header.baseSize,
+    'Invalid CharPack file: truncated base image'
+  );
+  checkBase(compressedBase, header);
+
+  if (header.metadataOffset + header.metadataSize > fileSize) {
+    throw new CorruptFileError('Invalid CharPack file: truncated metadata');
+  }
+  const metadataBuf = await readAt(fileHandle, header.metadataOffset, header.metadataSize, 'Invalid CharPack file: truncated metadata');
 
-  // Version
-  const version = buffer.readUInt32LE(offset);
-  offset += 4;
-  if (version !== VERSION) {
-    throw new Error(`Unsupported CharPack version: ${version}`);
+  if (header.indexOffset + header.indexSize > fileSize) {
+    throw new CorruptFileError('Invalid CharPack file: truncated index');
   }
+  const index = await readAt(fileHandle, header.indexOffset, header.indexSize, 'Invalid CharPack file: truncated index');
 
-  // Dimensions & channels
-  const width = buffer.readUInt32LE(offset);
-  offset += 4;
-  const height = buffer.readUInt32LE(offset);
-  offset += 4;
-  const channels = buffer.readUInt8(offset);
-  offset += 1;
+  checkRange(header.keyframesOffset, header.keyframesSize, fileSize, 'Invalid CharPack file: truncated keyframe table');
+  const keyframeTable = await readAt(
+    fileHandle,
+    header.keyframesOffset,
+    header.keyframesSize,
+    'Invalid CharPack file: truncated keyframe table'
+  );
+  const keyframes = parseKeyframes(keyframeTable, header, fileSize, limits);
+
+  checkRange(header.poolOffset, header.poolSize, fileSize, 'Invalid CharPack file: truncated patch pool');
+  const poolSection = await readAt(fileHandle, header.poolOffset, header.poolSize, 'Invalid CharPack file: truncated patch pool');
+  checkPool(poolSection, header);
+
+  checkRange(header.partsOffset, header.partsSize, fileSize, 'Invalid CharPack file: truncated part table');
+  const partTable = await readAt(fileHandle, header.partsOffset, header.partsSize, 'Invalid CharPack file: truncated part table');
+  const parts = parseParts(partTable, header, fileSize, limits);
+
+  return {
+    version,
+    width: header.width,
+    height: header.height,
+    channels: header.channels,
+    baseCodec: header.baseCodec,
+    compressedBase,
+    variations: checkIndexEntries(parseIndex(index, header, limits), fileSize),
+    metadata: parseMetadata(metadataBuf, header),
+    encryption: header.encryption,
+    keyframes,
+    poolSection,
+    parts,
+    header,
+    sections: {
+      header: prefix.subarray(0, header.headerSize),
+      compressedBase,
+      metadata: metadataBuf,
+      index,
+      keyframes: keyframeTable,
+      pool: poolSection,
+      parts: partTable,
+    },
+    signature: withSignature
+      ? await readSignature(fileSize, header.variationCount + keyframes.length + parts.length, (position, length) =>
+        readAt(fileHandle, position, length, 'Invalid CharPack file: truncated file')
+      )
+      : undefined,
+  };
+}
+
+/**
+ * Read the physical layout of a CharPack file on disk, with its signature
+ * section, without reading variation blocks
+ */
+async function readLayoutFromPath(filePath: string): Promise<PackLayout> {
+  const fileHandle = await fs.open(filePath, 'r');
+  try {
+    return await readLayoutFromFile(fileHandle, DEFAULT_LIMITS, true);
+  } finally {
+    await fileHandle.close();
+  }
+}
+
+/**
+ * Read the layout of a version 1 file through positional reads.
+ * The index has no recorded size, so it is read entry by entry.
+ */
+async function readLegacyLayoutFromFile(
+  fileHandle: fs.FileHandle,
+  fileSize: number,
+  limits: Required<ParseLimits> = DEFAULT_LIMITS
+): Promise<PackLayout> {
+  const truncated = 'Invalid CharPack file: truncated file';
+
+  // Dimensions, channels & base image size
+  const header = await readAt(fileHandle, 8, 13, truncated);
+  const width = header.readUInt32LE(0);
+  const height = header.readUInt32LE(4);
+  const channels = header.readUInt8(8);
+  const baseImgSize = header.readUInt32LE(9);
+  checkImageSize(width, height, channels, limits);
+  let offset = 21;
 
   // Base image
-  const baseImgSize = buffer.readUInt32LE(offset);
-  offset += 4;
-  const compBase = buffer.subarray(offset, offset + baseImgSize);
+  if (offset + baseImgSize > fileSize) {
+    throw new CorruptFileError(truncated);
+  }
+  const compressedBase = await readAt(fileHandle, offset, baseImgSize, truncated);
   offset += baseImgSize;
-  const baseImage = decompress(compBase);
 
   // Variation count
-  const varCount = buffer.readUInt32LE(offset);
+  const varCount = (await readAt(fileHandle, offset, 4, truncated)).readUInt32LE(0);
   offset += 4;
+  checkVariationCount(varCount, limits);
 
   const variations: VariationIndex[] = [];
   for (let i = 0; i < varCount; i++) {
-    const nameLen = buffer.readUInt32LE(offset);
+    const nameLen = (await readAt(fileHandle, offset, 4, truncated)).readUInt32LE(0);
     offset += 4;
-    const name = buffer.subarray(offset, offset + nameLen).toString('utf8');
-    offset += nameLen;
+    if (offset + nameLen + 8 > fileSize) {
+      throw new CorruptFileError(truncated);
+    }
+    const entry = await readAt(fileHandle, offset, nameLen + 8, truncated);
+    offset += nameLen + 8;
+
+    variations.push({
+      name: entry.subarray(0, nameLen).toString('utf8'),
+      offset: entry.readUInt32LE(nameLen),
+      size: entry.readUInt32LE(nameLen + 4),
+      codec: CODEC_IDS.deflate,
+    });
+  }
+  checkIndexEntries(variations, fileSize);
 
-    const dataOffset = buffer.readUInt32LE(offset);
-    offset += 4;
-    const dataSize = buffer.readUInt32LE(offset);
-    offset += 4;
+  return {
+    version: LEGACY_VERSION,
+    width,
+    height,
+    channels,
+    baseCodec: CODEC_IDS.deflate,
+    compressedBase,
+    variations,
+    encryption: ENCRYPTION_IDS.none,
+    keyframes: [],
+    poolSection: Buffer.alloc(0),
+    parts: [],
+  };
+}
+
+/**
+ * Parse CharPack header and index table from an open file using positional reads.
+ * Same result as `parseHeaderWithIndex`, without reading the variation blocks.
+ * The base image of an encrypted pack is decrypted with the key in `options`.
+ */
+export async function parseHeaderWithIndexFromFile(
+  fileHandle: fs.FileHandle,
+  options: ReadOptions,
+  crypto: PackCrypto
+): Promise<PackHeader> {
+  const withSignature = options.publicKey !== undefined;
+  return openPackHeader(await readLayoutFromFile(fileHandle, resolveLimits(options.limits), withSignature), options, crypto);
+}
+
+/**
+ * Check the integrity of a CharPack buffer section by section.
+ * Never throws: problems are reported in the result so that intact
+ * variations can still be told apart from corrupt ones.
+ */
+export function verifyBuffer(buffer: Buffer): VerifyResult {
+  const result: VerifyResult = {
+    valid: false,
+    version: 0,
+    checksummed: false,
+    encrypted: false,
+    header: false,
+    index: false,
+    baseImage: false,
+    metadata: false,
+    pool: false,
+    variations: [],
+    parts: [],
+    corrupt: [],
+  };
+
+  try {
+    result.version = readVersion(buffer);
+
+    let variations: VariationIndex[];
+    let parts: PartIndex[] = [];
+    let pack: { version: number; width: number; height: number; pool?: PooledPatch[] };
+    if (result.version === LEGACY_VERSION) {
+      // No checksums: a structurally readable header and index is the best we can check
+      const layout = readLegacyLayout(buffer);
+      variations = layout.variations;
+      pack = layout;
+      result.header = true;
+      result.index = true;
+      result.metadata = true;
+      result.pool = true;
+      try {
+        decodeBaseImage(layout);
+        result.baseImage = true;
+      } catch {
+        result.baseImage = false;
+      }
+    } else if (result.version === VERSION) {
+      result.checksummed = true;
+      const header = readHeader(buffer);
+      checkImageSize(header.width, header.height, header.channels, DEFAULT_LIMITS);
+      pack = { version: result.version, width: header.width, height: header.height };
+      result.encrypted = header.encryption !== ENCRYPTION_IDS.none;
+      result.header = true;
+      variations = readIndex(buffer, header);
+      result.index = true;
+
+      const baseEnd = header.headerSize + header.baseSize;
+      result.baseImage =
+        baseEnd <= buffer.length &&
+        crc32(buffer.subarray(header.headerSize, baseEnd)) === header.baseCrc;
+      // Keyframes are base images too
+      try {
+        const keyframes = readKeyframes(buffer, header);
+        keyframes.forEach((keyframe, k) => checkKeyframe(keyframes, k + 1, sliceKeyframe(buffer, keyframe)));
+      } catch {
+        result.baseImage = false;
+      }
+
+      try {
+        readMetadata(buffer, header);
+        result.metadata = true;
+      } catch {
+        result.metadata = false;
+      }
+
+      // Variations referring to a corrupt pool fail to decode below
+      try {
+        const poolSection = readPool(buffer, header);
+        pack.pool = result.encrypted ? [] : parsePool(poolSection);
+        result.pool = true;
+      } catch {
+        result.pool = false;
+      }
+
+      // A corrupt part table fails the pack like a corrupt index
+      parts = readParts(buffer, header);
+    } else {
+      throw new UnsupportedVersionError(result.version);
+    }
 
-    variations.push({ name, offset: dataOffset, size: dataSize });
+    for (const entry of variations) {
+      let valid = true;
+      try {
+        const block = sliceVariationBlock(buffer, entry);
+        // Sealed blocks cannot be parsed without the key, their checksum still covers every byte
+        if (result.encrypted) {
+          checkVariationBlock(entry, block);
+        } else {
+          decodeVariationBlock(entry, block, pack);
+        }
+      } catch {
+        valid = false;
+        result.corrupt.push(entry.name);
+      }
+      result.variations.push({ name: entry.name, valid });
+    }
+    for (const part of parts) {
+      let valid = true;
+      try {
+        const block = sliceVariationBlock(buffer, part);
+        if (result.encrypted) {
+          checkPartBlock(part, block);
+        } else {
+          decodePartBlock(part, block, pack);
+        }
+      } catch {
+        valid = false;
+        result.corrupt.push(partLabel(part));
+      }
+      result.parts.push({ slot: part.slot, name: part.name, valid });
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
   }
 
-  return { width, height, channels, baseImage, variations };
+  result.valid = !result.error && result.baseImage && result.metadata && result.pool && result.corrupt.length === 0;
+  return result;
 }
 
 /**
- * Deserialize buffer to CharPack data
+ * Index entry of a variation whose block stays where it is,
+ * or a new block to be appended to the file
  */
-export function deserialize(buffer: Buffer): CharPackData {
-  // Reuse header parse util to obtain base metadata and index
-  const { width, height, channels, baseImage, variations: index } =
-    parseHeaderWithIndex(buffer);
+type IndexItem = VariationIndex | BlockEntry;
 
-  const variations: VariationMetadata[] = [];
-
-  for (const entry of index) {
-    let offset = entry.offset;
+/**
+ * Incrementally rewrite the index of a CharPack file.
+ * `edit` maps the current index entries to the new index, in order, and gets
+ * the layout of the pack to encode new blocks for. Kept entries
+ * leave their blocks untouched; new blocks are appended to the file. The new
+ * index is written over the old one when it fits and appended otherwise, then
+ * the header is rewritten. Nothing is decoded or re-encoded.
+ * The signature section of a signed pack is dropped, as it no longer matches.
+ */
+async function editIndexInFile(
+  filePath: string,
+  edit: (entries: VariationIndex[], layout: PackLayout) => IndexItem[]
+): Promise<void> {
+  await withFileLock(filePath, async () => {
+    // Read header and index only
+    const layout = await readLayoutFromPath(filePath);
+
+    if (!layout.header) {
+      // Version 1 files have no relocatable index and their blocks use the
+      // legacy patch layout, so upgrade and rewrite the whole file
+      const buffer = serialize(deserialize(await fs.readFile(filePath)));
+      const current = readLayout(buffer);
+
+      const blocks = edit(current.variations, current).map((item) => 'block' in item ? item : verbatimBlock(buffer, item));
+      const newBuffer = assemble(
+        current.width,
+        current.height,
+        current.channels,
+        current.baseCodec,
+        current.compressedBase,
+        verbatimKeyframes(buffer, current),
+        current.poolSection,
+        blocks,
+        verbatimParts(buffer, current),
+        current.metadata,
+        current.encryption
+      );
+      await writeFileAtomic(filePath, newBuffer);
+      return;
+    }
 
-    // Patch count
-    const patchCount = buffer.readUInt32LE(offset);
-    offset += 4;
+    const header = layout.header;
+    const items = edit(layout.variations, layout);
+
+    await updateFileAtomic(filePath, async (fileHandle) => {
+      // New blocks go to the end of the file, in place of the signature
+      const { size } = await fileHandle.stat();
+      const fileSize = size - (layout.signature?.length ?? 0);
+      if (fileSize < size) {
+        await fileHandle.truncate(fileSize);
+      }
+      let currentOffset = fileSize;
+      const appended: Uint8Array[] = [];
+      const entries: VariationIndex[] = items.map((item) => {
+        if (!('block' in item)) {
+          return item;
+        }
+        const { name, codec, block, properties, base, parent } = item;
+        const entry = { name, offset: currentOffset, size: block.length, crc: crc32(block), codec, properties, base, parent };
+        appended.push(block);
+        currentOffset += block.length;
+        return entry;
+      });
 
-    const patches: DiffPatch[] = [];
-    for (let i = 0; i < patchCount; i++) {
-      const x = buffer.readUInt32LE(offset);
-      offset += 4;
-      const y = buffer.readUInt32LE(offset);
-      offset += 4;
-      const patchWidth = buffer.readUInt32LE(offset);
-      offset += 4;
-      const patchHeight = buffer.readUInt32LE(offset);
-      offset += 4;
-      const dataSize = buffer.readUInt32LE(offset);
-      offset += 4;
-
-      const compData = buffer.subarray(offset, offset + dataSize);
-      offset += dataSize;
-      const data = decompress(compData);
-
-      patches.push({
-        rect: { x, y, width: patchWidth, height: patchHeight },
-        data: Buffer.from(data),
+      // Reuse the space of the old index if the new one fits, otherwise append it
+      const index = buildIndex(entries);
+      const indexOffset = index.length <= header.indexSize ? header.indexOffset : currentOffset;
+      if (indexOffset === currentOffset) {
+        appended.push(index);
+      }
+
+      const newHeader = buildHeader({
+        ...header,
+        variationCount: entries.length,
+        indexOffset,
+        indexSize: index.length,
+        indexCrc: crc32(index),
       });
-    }
 
-    variations.push({ name: entry.name, patches });
+      const tail = Buffer.concat(appended);
+      await fileHandle.write(tail, 0, tail.length, fileSize);
+      if (indexOffset !== currentOffset) {
+        await fileHandle.write(index, 0, index.length, indexOffset);
+      }
+      await fileHandle.write(newHeader, 0, newHeader.length, 0);
+    });
+  });
+}
+
+/**
+ * Encryptor for new blocks of a pack: blocks of an encrypted pack must be
+ * sealed like the rest, blocks of an unencrypted pack are stored as they are
+ */
+function blockEncryptor(layout: PackLayout, encryptor?: Encryptor): Encryptor {
+  if (layout.encryption === ENCRYPTION_IDS.none) {
+    return (block) => block;
   }
+  if (!encryptor) {
+    throw new DecryptionError('CharPack is encrypted: pass its key to add or replace variations');
+  }
+  return encryptor;
+}
 
-  return {
-    version: VERSION,
-    width,
-    height,
-    format: 'raw',
-    baseImage: Buffer.from(baseImage),
-    variations,
-  };
+/**
+ * Find an index entry by name
+ */
+function findEntry(entries: VariationIndex[], name: string): VariationIndex {
+  const entry = entries.find((v) => v.name === name);
+  if (!entry) {
+    throw new VariationNotFoundError(name);
+  }
+  return entry;
 }
 
 /**
  * Incrementally add variations to an existing CharPack file
- * This creates a new file with the added variations
+ * New blocks are appended to the file and the index is rewritten. Existing
+ * blocks are neither decoded nor re-encoded; an index that no longer fits is
+ * relocated to the end, leaving the old one as unreachable bytes (see compactFile).
+ * New blocks of an encrypted pack are sealed with `encryptor`.
  */
 export async function addVariationsToFile(
   filePath: string,
   newVariations: VariationMetadata[],
-  baseImage: Buffer,
-  width: number,
-  height: number,
-  channels: number
+  compression: CompressionOptions = DEFAULT_COMPRESSION,
+  encryptor?: Encryptor
 ): Promise<void> {
-  // Read the entire current file
-  const currentBuffer = await fs.readFile(filePath);
-  const { variations: currentIndex } = parseHeaderWithIndex(currentBuffer);
-
-  // Check for name conflicts
-  const existingNames = new Set(currentIndex.map(v => v.name));
-  for (const variation of newVariations) {
-    if (existingNames.has(variation.name)) {
-      throw new Error(`Variation '${variation.name}' already exists in CharPack`);
+  const codec = CODEC_IDS[compression.codec];
+
+  await editIndexInFile(filePath, (entries, layout) => {
+    const seal = blockEncryptor(layout, encryptor);
+
+    // Check for name conflicts
+    const existingNames = new Set(entries.map(v => v.name));
+    for (const variation of newVariations) {
+      if (existingNames.has(variation.name)) {
+        throw new DuplicateVariationError(variation.name);
+      }
     }
-  }
 
-  // Read all existing variation blocks
-  const existingBlocks: Buffer[] = [];
-  for (const variation of currentIndex) {
-    const blockBuffer = Buffer.allocUnsafe(variation.size);
-    // Note: offset is from start of file, so we read from currentBuffer
-    currentBuffer.copy(blockBuffer, 0, variation.offset, variation.offset + variation.size);
-    existingBlocks.push(blockBuffer);
-  }
+    return [
+      ...entries,
+      ...newVariations.map((variation) => ({
+        name: variation.name,
+        codec,
+        block: seal(buildVariationBlock(variation, compression)),
+        properties: variation.properties,
+        base: variation.base,
+        parent: variation.parent,
+      })),
+    ];
+  });
+}
 
-  // Build new variation blocks
-  const newVariationBlocks: Buffer[] = [];
-  const newIndexEntries: VariationIndex[] = [];
-
-  for (const variation of newVariations) {
-    // Build patch block (same format as serialize function)
-    const patchesBufs: Buffer[] = [];
-    const patchCountBuf = Buffer.allocUnsafe(4);
-    patchCountBuf.writeUInt32LE(variation.patches.length, 0);
-    patchesBufs.push(patchCountBuf);
-
-    for (const patch of variation.patches) {
-      const compPatch = compress(patch.data);
-      const patchHeaderBuf = Buffer.allocUnsafe(20);
-      patchHeaderBuf.writeUInt32LE(patch.rect.x, 0);
-      patchHeaderBuf.writeUInt32LE(patch.rect.y, 4);
-      patchHeaderBuf.writeUInt32LE(patch.rect.width, 8);
-      patchHeaderBuf.writeUInt32LE(patch.rect.height, 12);
-      patchHeaderBuf.writeUInt32LE(compPatch.length, 16);
-      patchesBufs.push(patchHeaderBuf);
-      patchesBufs.push(compPatch);
+/**
+ * Incrementally remove variations from an existing CharPack file
+ * This updates the header and index only
+ * Note: The removed variation blocks remain in the file but are no longer
+ * referenced until the file is compacted (see compactFile)
+ */
+export async function removeVariationsFromFile(
+  filePath: string,
+  variationNames: string[]
+): Promise<void> {
+  await editIndexInFile(filePath, (entries) => {
+    // Filter out variations to remove
+    const remainingVariations = entries.filter(v => !variationNames.includes(v.name));
+
+    if (remainingVariations.length === 0) {
+      throw new InvalidInputError('Cannot remove all variations from CharPack');
+    }
+    for (const entry of remainingVariations) {
+      if (entry.parent !== undefined && variationNames.includes(entry.parent)) {
+        throw new InvalidInputError(`Cannot remove '${entry.parent}': variation '${entry.name}' is diffed against it`);
+      }
     }
 
-    const patchBlock = Buffer.concat(patchesBufs);
-    newVariationBlocks.push(patchBlock);
+    return remainingVariations;
+  });
+}
 
-    newIndexEntries.push({
-      name: variation.name,
-      offset: 0, // will be set by buildHeaderWithIndex
-      size: patchBlock.length,
-    });
-  }
+/**
+ * Rename a variation in an existing CharPack file
+ * Only the index is rewritten; the variation keeps its block and position
+ */
+export async function renameVariationInFile(
+  filePath: string,
+  oldName: string,
+  newName: string
+): Promise<void> {
+  await editIndexInFile(filePath, (entries) => {
+    findEntry(entries, oldName);
+    if (oldName !== newName && entries.some(v => v.name === newName)) {
+      throw new DuplicateVariationError(newName);
+    }
 
-  // Create new CharPack data
-  const newCharPackData = {
-    version: 1,
-    width,
-    height,
-    format: 'raw' as const,
-    baseImage,
-    variations: [
-      // Existing variations with their patches extracted from blocks
-      ...currentIndex.map((indexEntry, i) => {
-        // Parse the existing block to get patches
-        let offset = 0;
-        const patchCount = existingBlocks[i].readUInt32LE(offset);
-        offset += 4;
-
-        const patches: any[] = [];
-        for (let j = 0; j < patchCount; j++) {
-          const x = existingBlocks[i].readUInt32LE(offset);
-          offset += 4;
-          const y = existingBlocks[i].readUInt32LE(offset);
-          offset += 4;
-          const patchWidth = existingBlocks[i].readUInt32LE(offset);
-          offset += 4;
-          const patchHeight = existingBlocks[i].readUInt32LE(offset);
-          offset += 4;
-          const dataSize = existingBlocks[i].readUInt32LE(offset);
-          offset += 4;
-
-          const compData = existingBlocks[i].subarray(offset, offset + dataSize);
-          offset += dataSize;
-          const data = decompress(compData);
-
-          patches.push({
-            rect: { x, y, width: patchWidth, height: patchHeight },
-            data: Buffer.from(data),
-          });
-        }
+    // Children follow their parent
+    return entries.map((entry) => ({
+      ...entry,
+      name: entry.name === oldName ? newName : entry.name,
+      parent: entry.parent === oldName ? newName : entry.parent,
+    }));
+  });
+}
 
-        return {
-          name: indexEntry.name,
-          patches,
-        };
-      }),
-      // New variations
-      ...newVariations,
-    ],
-  };
+/**
+ * Replace the patches of a variation in an existing CharPack file
+ * The new block is appended and the variation keeps its position in the index.
+ * Variations diffed against it must be detached first (see detachVariationsInFile).
+ * Its properties are kept unless the new variation carries its own.
+ * The old block remains until the file is compacted (see compactFile).
+ */
+export async function replaceVariationInFile(
+  filePath: string,
+  variation: VariationMetadata,
+  compression: CompressionOptions = DEFAULT_COMPRESSION,
+  encryptor?: Encryptor
+): Promise<void> {
+  await editIndexInFile(filePath, (entries, layout) => {
+    const current = findEntry(entries, variation.name);
+    const child = entries.find((entry) => entry.parent === variation.name);
+    if (child) {
+      throw new InvalidInputError(`Cannot replace '${variation.name}': variation '${child.name}' is diffed against it`);
+    }
+    const replacement: BlockEntry = {
+      name: variation.name,
+      codec: CODEC_IDS[compression.codec],
+      block: blockEncryptor(layout, encryptor)(buildVariationBlock(variation, compression)),
+      properties: variation.properties ?? current.properties,
+      base: variation.base,
+      parent: variation.parent,
+    };
+
+    return entries.map((entry) => entry === current ? replacement : entry);
+  });
+}
 
-  // Serialize the complete new CharPack
-  const newBuffer = serialize(newCharPackData);
+/**
+ * Store chained variations of an existing CharPack file again, against a
+ * base image instead of their parent. The variations must keep their pixels,
+ * so nothing diffed against them changes; their parents can then be replaced
+ * or removed. New blocks are appended like in replaceVariationInFile.
+ */
+export async function detachVariationsInFile(
+  filePath: string,
+  variations: VariationMetadata[],
+  compression: CompressionOptions = DEFAULT_COMPRESSION,
+  encryptor?: Encryptor
+): Promise<void> {
+  await editIndexInFile(filePath, (entries, layout) => {
+    const seal = blockEncryptor(layout, encryptor);
+    const replacements = new Map<VariationIndex, BlockEntry>();
+    for (const variation of variations) {
+      const current = findEntry(entries, variation.name);
+      replacements.set(current, {
+        name: variation.name,
+        codec: CODEC_IDS[compression.codec],
+        block: seal(buildVariationBlock(variation, compression)),
+        properties: current.properties,
+        base: variation.base,
+      });
+    }
 
-  // Write the new file
-  await fs.writeFile(filePath, newBuffer);
+    return entries.map((entry) => replacements.get(entry) ?? entry);
+  });
 }
 
 /**
- * Incrementally remove variations from an existing CharPack file
- * This modifies the file in-place by updating the header and index
- * Note: The removed variation blocks remain in the file but are no longer referenced
+ * Reorder the variations of an existing CharPack file
+ * `names` must list every variation exactly once. Only the index is rewritten.
  */
-export async function removeVariationsFromFile(
+export async function reorderVariationsInFile(
   filePath: string,
-  variationNames: string[]
+  names: string[]
 ): Promise<void> {
-  const fileHandle = await fs.open(filePath, 'r+');
+  await editIndexInFile(filePath, (entries) => {
+    if (names.length !== entries.length || new Set(names).size !== names.length) {
+      throw new InvalidInputError('Reorder must list every variation of the CharPack exactly once');
+    }
 
-  try {
-    // Read current header and index
-    const headerBuffer = await fileHandle.readFile();
-    const { width, height, channels, baseImage, variations: currentIndex } = parseHeaderWithIndex(headerBuffer);
+    return names.map((name) => findEntry(entries, name));
+  });
+}
 
-    // Filter out variations to remove
-    const remainingVariations = currentIndex.filter(v => !variationNames.includes(v.name));
+/**
+ * Replace the metadata of an existing CharPack file
+ * The base image and variation blocks are copied verbatim, no image is re-encoded
+ */
+export async function setMetadataInFile(
+  filePath: string,
+  metadata: PackMetadata | undefined
+): Promise<void> {
+  await withFileLock(filePath, async () => {
+    const buffer = await fs.readFile(filePath);
+    const newBuffer = rebuildVerbatim(buffer, readLayout(buffer), metadata);
+    await writeFileAtomic(filePath, newBuffer);
+  });
+}
 
-    if (remainingVariations.length === 0) {
-      throw new Error('Cannot remove all variations from CharPack');
+/**
+ * Sign a CharPack file, replacing any previous signature.
+ * The pack is laid out again first (like compactFile), so the signature
+ * section ends the file and covers no unreachable bytes. Nothing is re-encoded.
+ */
+export async function signFile(filePath: string, signer: PackSigner): Promise<void> {
+  await withFileLock(filePath, async () => {
+    const buffer = await fs.readFile(filePath);
+    const current = readLayout(buffer);
+    const unsigned = rebuildVerbatim(buffer, current, current.metadata);
+
+    const layout = readLayout(unsigned);
+    const blocks = [
+      ...layout.variations.map((entry) => sliceVariationBlock(unsigned, entry)),
+      ...layout.keyframes.map((keyframe) => sliceKeyframe(unsigned, keyframe)),
+      ...layout.parts.map((part) => sliceVariationBlock(unsigned, part)),
+    ];
+    const signature = buildSignatureSection(layout.sections!, blocks, signer);
+    await writeFileAtomic(filePath, Buffer.concat([unsigned, signature]));
+  });
+}
+
+/**
+ * Rewrite a CharPack file with only its live sections, dropping the blocks
+ * of removed variations and the pool entries no block refers to any more.
+ * Nothing is re-encoded. The pool of an encrypted pack is only pruned with
+ * its key in `options`, `crypto` and `encryptor`.
+ * Returns the number of bytes reclaimed.
+ */
+export async function compactFile(
+  filePath: string,
+  options: ReadOptions = {},
+  crypto?: PackCrypto,
+  encryptor?: Encryptor
+): Promise<number> {
+  return withFileLock(filePath, async () => {
+    const buffer = await fs.readFile(filePath);
+    const layout = readLayout(buffer);
+
+    const encrypted = layout.encryption !== ENCRYPTION_IDS.none;
+    const prunable = layout.header && layout.poolSection.length > 0 && (!encrypted || encryptor);
+    const usage = prunable ? await readPackPatches(buffer, layout, options, crypto) : undefined;
+    const pool = usage ? prunePool(usage, layout.poolSection, encrypted ? encryptor : undefined) : undefined;
+    const deadPoolBytes = pool ? layout.poolSection.length - pool.poolSection.length : 0;
+    if (countLiveBytes(liveSections(layout, buffer.length)) - deadPoolBytes === buffer.length) {
+      return 0; // Nothing to reclaim
     }
 
-    // Build new header with filtered index
-    const newHeaderBuffer = buildHeaderWithIndex(baseImage, remainingVariations, width, height, channels);
+    const newBuffer = rebuildVerbatim(buffer, layout, layout.metadata, pool);
+    await writeFileAtomic(filePath, newBuffer);
+    return buffer.length - newBuffer.length;
+  });
+}
+
+/**
+ * Lay out a pack again from its current layout. The base images and the live
+ * variation and part blocks are copied verbatim, so unreachable bytes are dropped.
+ * `pool` replaces the patch pool and the blocks whose pool references it moved.
+ */
+function rebuildVerbatim(
+  buffer: Buffer,
+  layout: PackLayout,
+  metadata: PackMetadata | undefined,
+  pool?: PrunedPool
+): Buffer {
+  if (!layout.header) {
+    // Version 1 blocks use the legacy patch layout, so upgrade with a full rewrite
+    return serialize({ ...deserialize(buffer), metadata });
+  }
 
-    // Write new header (overwrites old header and index)
-    await fileHandle.write(newHeaderBuffer, 0, 0, 0);
+  const blocks = layout.variations.map((entry, i) => {
+    const verbatim = verbatimBlock(buffer, entry);
+    const moved = pool?.blocks.get(i);
+    return moved ? { ...verbatim, block: moved } : verbatim;
+  });
+  const parts = verbatimParts(buffer, layout).map((part, i) => {
+    const moved = pool?.blocks.get(layout.variations.length + i);
+    return moved ? { ...part, block: moved } : part;
+  });
+
+  return assemble(
+    layout.width,
+    layout.height,
+    layout.channels,
+    layout.baseCodec,
+    layout.compressedBase,
+    verbatimKeyframes(buffer, layout),
+    pool?.poolSection ?? layout.poolSection,
+    blocks,
+    parts,
+    metadata,
+    layout.encryption
+  );
+}
 
-    // Note: We don't truncate the file, so removed variation blocks remain
-    // but are no longer accessible. This could be optimized with a separate
-    // compaction operation if needed.
-  } finally {
-    await fileHandle.close();
+/**
+ * Entries of the patch pool and the patch headers of every live block
+ */
+interface PackPatches {
+  /**
+   * Byte range and blend mode of each entry in the decrypted pool section
+   */
+  entries: Array<{ offset: number; size: number; blend?: BlendMode }>;
+  pool: Uint8Array;
+  /**
+   * Decrypted variation blocks, then part blocks, with the header of each of their patches
+   */
+  blocks: Array<{ block: Uint8Array; patches: PatchHeader[] }>;
+}
+
+/**
+ * Rectangle and blend mode of a stored patch, with the offset and pool entry
+ * of its pool reference if it has one
+ */
+interface PatchHeader {
+  rect: Rectangle;
+  blend?: BlendMode;
+  reference?: { offset: number; entry: number };
+}
+
+/**
+ * Patch pool without the entries no block refers to
+ */
+interface PrunedPool {
+  poolSection: Uint8Array;
+  /**
+   * New contents of the blocks whose references moved, by position
+   * (variations, then parts)
+   */
+  blocks: Map<number, Uint8Array>;
+}
+
+/**
+ * Read the patch headers of every live block and the entries of the patch pool,
+ * without decompressing any patch.
+ * Returns undefined if the pack is encrypted and `options` carries no key.
+ */
+async function readPackPatches(
+  buffer: Buffer,
+  layout: PackLayout,
+  options: ReadOptions,
+  crypto: PackCrypto | undefined
+): Promise<PackPatches | undefined> {
+  if (layout.encryption !== ENCRYPTION_IDS.none && (!options.key || !crypto)) {
+    return undefined;
+  }
+  const open = (sealed: Uint8Array, section: string) => decryptSection(sealed, layout.encryption, options, crypto!, section);
+
+  const pool = layout.poolSection.length > 0 ? await open(layout.poolSection, 'patch pool') : layout.poolSection;
+  const poolReader = createByteReader(pool, 'Invalid CharPack file: truncated patch pool');
+  const entries: PackPatches['entries'] = [];
+  while (poolReader.offset < pool.length) {
+    const offset = poolReader.offset;
+    poolReader.u8();
+    const { blend } = readPatchEncodingByte(poolReader.u8());
+    poolReader.bytes(poolReader.u32());
+    entries.push({ offset, size: poolReader.offset - offset, blend });
   }
+
+  const sealedBlocks = [
+    ...layout.variations.map((entry) => {
+      const sealed = sliceVariationBlock(buffer, entry);
+      checkVariationBlock(entry, sealed);
+      return { label: entry.name, sealed };
+    }),
+    ...layout.parts.map((part) => {
+      const sealed = sliceVariationBlock(buffer, part);
+      checkPartBlock(part, sealed);
+      return { label: partLabel(part), sealed };
+    }),
+  ];
+  const blocks: PackPatches['blocks'] = [];
+  for (const { label, sealed } of sealedBlocks) {
+    const block = await open(sealed, `variation '${label}'`);
+    blocks.push({ block, patches: readPatchHeaders(block, label, layout, entries) });
+  }
+  return { entries, pool, blocks };
 }
 
 /**
- * Build header and index section for CharPack file
- * Used by incremental modification functions
+ * Patch headers of a decrypted variation or part block, with the blend mode
+ * of pooled patches taken from their pool entry
  */
-function buildHeaderWithIndex(
-  baseImage: Buffer,
-  variations: VariationIndex[],
-  width: number,
-  height: number,
-  channels: number
-): Buffer {
-  const headerBuffers: Buffer[] = [];
-
-  // Magic number
-  headerBuffers.push(MAGIC);
-
-  // Version
-  const versionBuf = Buffer.allocUnsafe(4);
-  versionBuf.writeUInt32LE(VERSION, 0);
-  headerBuffers.push(versionBuf);
-
-  // Dimensions & channel count
-  const dimBuf = Buffer.allocUnsafe(9);
-  dimBuf.writeUInt32LE(width, 0);
-  dimBuf.writeUInt32LE(height, 4);
-  dimBuf.writeUInt8(channels, 8);
-  headerBuffers.push(dimBuf);
-
-  // Base image (compressed)
-  const compBase = compress(baseImage);
-  const baseImgSizeBuf = Buffer.allocUnsafe(4);
-  baseImgSizeBuf.writeUInt32LE(compBase.length, 0);
-  headerBuffers.push(baseImgSizeBuf);
-  headerBuffers.push(compBase);
+function readPatchHeaders(
+  block: Uint8Array,
+  label: string,
+  layout: PackLayout,
+  entries: PackPatches['entries']
+): PatchHeader[] {
+  const reader = createByteReader(block, `Variation '${label}' is corrupt: block is truncated`);
+  const patches: PatchHeader[] = [];
+  const patchCount = reader.u32();
+  for (let i = 0; i < patchCount; i++) {
+    const rect = { x: reader.u32(), y: reader.u32(), width: reader.u32(), height: reader.u32() };
+    checkPatchRect(rect, layout.width, layout.height, label);
+    // Version 1 patches record no encoding and never blend
+    const encodingId = layout.version === LEGACY_VERSION ? undefined : reader.u8();
+    if (encodingId !== POOL_REFERENCE) {
+      reader.bytes(reader.u32());
+      patches.push({ rect, ...(encodingId === undefined ? {} : { blend: readPatchEncodingByte(encodingId).blend }) });
+      continue;
+    }
+    const offset = reader.offset;
+    const entry = reader.u32();
+    if (entry >= entries.length) {
+      throw new CorruptFileError(`Variation '${label}' is corrupt: refers to missing pooled patch ${entry}`);
+    }
+    patches.push({ rect, blend: entries[entry].blend, reference: { offset, entry } });
+  }
+  return patches;
+}
 
-  // Variation count
-  const varCountBuf = Buffer.allocUnsafe(4);
-  varCountBuf.writeUInt32LE(variations.length, 0);
-  headerBuffers.push(varCountBuf);
+/**
+ * Pool references in the headers of a block
+ */
+function poolReferences(patches: PatchHeader[]): Array<{ offset: number; entry: number }> {
+  return patches.flatMap(({ reference }) => reference ? [reference] : []);
+}
 
-  // Build index table
-  const indexBuffers: Buffer[] = [];
-  let currentOffset = headerBuffers.reduce((sum, b) => sum + b.length, 0);
-  // Add size of index table itself
-  const indexSize = variations.reduce((acc, v) => acc + 4 + Buffer.from(v.name, 'utf8').length + 4 + 4, 0);
-  currentOffset += indexSize;
+/**
+ * Drop the pool entries no block refers to and renumber the references to the others.
+ * Moved blocks and the new pool are sealed with `encryptor` in encrypted packs.
+ */
+function prunePool(usage: PackPatches, poolSection: Uint8Array, encryptor?: Encryptor): PrunedPool {
+  const used = usedPoolEntries(usage);
+  if (used.every(Boolean)) {
+    return { poolSection, blocks: new Map() };
+  }
+
+  // Kept entries move down over the dropped ones
+  const positions: number[] = [];
+  const kept: Uint8Array[] = [];
+  usage.entries.forEach(({ offset, size }, i) => {
+    positions.push(kept.length);
+    if (used[i]) {
+      kept.push(usage.pool.subarray(offset, offset + size));
+    }
+  });
+
+  const blocks = new Map<number, Uint8Array>();
+  usage.blocks.forEach(({ block, patches }, i) => {
+    const references = poolReferences(patches);
+    if (references.every(({ entry }) => positions[entry] === entry)) {
+      return;
+    }
+    const moved = Buffer.from(block);
+    references.forEach(({ offset, entry }) => moved.writeUInt32LE(positions[entry], offset));
+    blocks.set(i, encryptor ? encryptor(moved) : moved);
+  });
 
-  // Build index entries
-  for (const variation of variations) {
-    const nameBuf = Buffer.from(variation.name, 'utf8');
-    const nameLenBuf = Buffer.allocUnsafe(4);
-    nameLenBuf.writeUInt32LE(nameBuf.length, 0);
+  const pool = Buffer.concat(kept);
+  return { poolSection: encryptor && pool.length > 0 ? encryptor(pool) : pool, blocks };
+}
 
-    indexBuffers.push(nameLenBuf);
-    indexBuffers.push(nameBuf);
+/**
+ * Whether each pool entry is referred to by a block
+ */
+function usedPoolEntries(usage: PackPatches): boolean[] {
+  const used = usage.entries.map(() => false);
+  for (const { patches } of usage.blocks) {
+    poolReferences(patches).forEach(({ entry }) => (used[entry] = true));
+  }
+  return used;
+}
 
-    const offsetBuf = Buffer.allocUnsafe(4);
-    offsetBuf.writeUInt32LE(currentOffset, 0);
-    indexBuffers.push(offsetBuf);
+/**
+ * Copy the keyframes of a layout out of a whole-file buffer, ready to be laid out again
+ */
+function verbatimKeyframes(buffer: Buffer, layout: PackLayout): KeyframeBlock[] {
+  return layout.keyframes.map((keyframe, k) => {
+    const blob = sliceKeyframe(buffer, keyframe);
+    checkKeyframe(layout.keyframes, k + 1, blob);
+    return { codec: keyframe.codec, blob };
+  });
+}
 
-    const sizeBuf = Buffer.allocUnsafe(4);
-    sizeBuf.writeUInt32LE(variation.size, 0);
-    indexBuffers.push(sizeBuf);
+/**
+ * Copy the part blocks of a layout out of a whole-file buffer, ready to be laid out again
+ */
+function verbatimParts(buffer: Buffer, layout: PackLayout): PartBlock[] {
+  return layout.parts.map((part) => {
+    const block = sliceVariationBlock(buffer, part);
+    checkPartBlock(part, block);
+    return { slot: part.slot, name: part.name, codec: part.codec, block };
+  });
+}
 
-    currentOffset += variation.size;
+/**
+ * Copy the block of an index entry out of a whole-file buffer, ready to be laid out again
+ */
+function verbatimBlock(buffer: Buffer, entry: VariationIndex): BlockEntry {
+  const block = sliceVariationBlock(buffer, entry);
+  // Never re-seal a corrupt block with a fresh checksum
+  checkVariationBlock(entry, block);
+  const { name, codec, properties, base, parent } = entry;
+  return { name, codec, block, properties, base, parent };
+}
+
+/**
+ * Byte ranges of a file that are reachable from its header, and its signature
+ */
+function liveSections(layout: PackLayout, fileSize: number): Array<{ offset: number; size: number }> {
+  const blocks = layout.variations.map((entry) => ({ offset: entry.offset, size: entry.size }));
+
+  if (!layout.header) {
+    // Version 1: fixed header, base image, then variation count and index entries
+    const baseOffset = 21;
+    const indexSize = layout.variations.reduce(
+      (acc, entry) => acc + 4 + Buffer.byteLength(entry.name, 'utf8') + 8,
+      4
+    );
+    return [
+      { offset: 0, size: baseOffset },
+      { offset: baseOffset, size: layout.compressedBase.length },
+      { offset: baseOffset + layout.compressedBase.length, size: indexSize },
+      ...blocks,
+    ];
   }
 
-  return Buffer.concat([...headerBuffers, ...indexBuffers]);
+  const { header, signature } = layout;
+  return [
+    { offset: 0, size: header.headerSize },
+    { offset: header.headerSize, size: header.baseSize },
+    { offset: header.metadataOffset, size: header.metadataSize },
+    { offset: header.indexOffset, size: header.indexSize },
+    { offset: header.keyframesOffset, size: header.keyframesSize },
+    { offset: header.poolOffset, size: header.poolSize },
+    { offset: header.partsOffset, size: header.partsSize },
+    ...layout.keyframes.map((keyframe) => ({ offset: keyframe.offset, size: keyframe.size })),
+    ...blocks,
+    ...layout.parts.map((part) => ({ offset: part.offset, size: part.size })),
+    ...(signature ? [{ offset: fileSize - signature.length, size: signature.length }] : []),
+  ];
+}
+
+/**
+ * Count the bytes covered by a set of (possibly overlapping) byte ranges
+ */
+function countLiveBytes(sections: Array<{ offset: number; size: number }>): number {
+  const sorted = sections.filter((s) => s.size > 0).sort((a, b) => a.offset - b.offset);
+
+  let live = 0;
+  let coveredUntil = 0;
+  for (const { offset, size } of sorted) {
+    const end = offset + size;
+    if (end > coveredUntil) {
+      live += end - Math.max(offset, coveredUntil);
+      coveredUntil = end;
+    }
+  }
+  return live;
 }
 
+/**
+ * Describe the layout of a CharPack buffer, including bytes no longer
+ * reachable from the header (left behind by removed variations) and pool
+ * entries no variation or part refers to any more.
+ * Only patch headers are read, never patch data. The patch figures and the
+ * pool savings of an encrypted pack are left out unless `options` carries its key.
+ */
+export async function inspectBuffer(
+  buffer: Buffer,
+  options: ReadOptions = {},
+  crypto?: PackCrypto
+): Promise<InspectResult> {
+  const layout = readLayout(buffer, resolveLimits(options.limits));
+  const imageArea = layout.width * layout.height;
+  const patches = await readPackPatches(buffer, layout, options, crypto);
+
+  // Pool entries nothing refers to any more are reclaimed by compactFile
+  let liveBytes = countLiveBytes(liveSections(layout, buffer.length));
+  let pool: Pick<InspectResult, 'pooledPatches' | 'dedupSavedBytes'> = {};
+  if (patches) {
+    const used = usedPoolEntries(patches);
+    liveBytes -= used.some(Boolean)
+      ? patches.entries.reduce((sum, entry, i) => used[i] ? sum : sum + entry.size, 0)
+      : layout.poolSection.length;
+
+    // Without the pool, every reference would store the entry data in its block,
+    // which the pool stores once. Both are counted in plaintext bytes.
+    const inlineBytes = patches.blocks
+      .flatMap((block) => poolReferences(block.patches))
+      .reduce((sum, { entry }) => sum + patches.entries[entry].size - POOL_ENTRY_HEADER_SIZE, 0);
+    const referenced = patches.entries.filter((_, i) => used[i]);
+    pool = {
+      pooledPatches: referenced.length,
+      dedupSavedBytes: inlineBytes - referenced.reduce((sum, entry) => sum + entry.size, 0),
+    };
+  }
+
+  const variations = layout.variations.map((entry, i): VariationInspection => {
+    const info = {
+      name: entry.name,
+      compressedBytes: entry.size,
+      base: variationChain(layout.variations, entry)[0].base ?? 0,
+      parent: entry.parent,
+    };
+    if (!patches) {
+      return info;
+    }
+    const headers = patches.blocks[i].patches;
+    const patchArea = headers.reduce((sum, patch) => sum + patch.rect.width * patch.rect.height, 0);
+    return {
+      ...info,
+      patchCount: headers.length,
+      patchArea,
+      patchAreaPercent: (patchArea / imageArea) * 100,
+      overlay: overlayBlend(headers),
+    };
+  });
+
+  return {
+    version: layout.version,
+    encrypted: layout.encryption !== ENCRYPTION_IDS.none,
+    fileSize: buffer.length,
+    width: layout.width,
+    height: layout.height,
+    channels: layout.channels,
+    variationCount: layout.variations.length,
+    liveBytes,
+    deadBytes: buffer.length - liveBytes,
+    baseCount: layout.keyframes.length + 1,
+    baseBytes: layout.keyframes.reduce((sum, keyframe) => sum + keyframe.size, layout.compressedBase.length),
+    baseRawBytes: (layout.keyframes.length + 1) * imageArea * layout.channels,
+    poolBytes: layout.poolSection.length,
+    ...pool,
+    variations,
+  };
+}
@@ -0,0 +1,280 @@
+/**
+ * Patch encoding contract shared by the Node and browser builds
+ *
+ * Every patch in a version 2 variation block records how its (decompressed)
+ * data is encoded:
+ * - `raw` (0): pixels of the patch rectangle, row by row, with the pack's channel count
+ * - `png` (1): a PNG image of exactly the patch rectangle
+ * - `xor` (2): raw pixels XOR the base image pixels under the patch rectangle
+ * - `palette` (3): color count - 1 (uint8), the palette (channels bytes per color),
+ *   then one palette index per pixel, packed MSB first at 1, 2, 4 or 8 bits
+ *   and padded to a whole byte at the end of each row
+ *
+ * The high nibble of the encoding byte holds the blend mode (see BLEND_MODE_IDS),
+ * 0 for `replace`, so packs without overlays store the plain encoding id.
+ *
+ * A patch shared with other variations is stored once in the pack's patch pool:
+ * its block records POOL_REFERENCE (255) instead of an encoding, followed by the
+ * position of the pool entry, which holds the encoding and data (see format.ts).
+ *
+ * Version 1 blocks carry no encoding byte. The Node packer always wrote PNG
+ * patches then, so legacy patches are identified by their PNG signature.
+ */
+
+import { BlendMode, PatchEncoding, Rectangle } from './types';
+import { decodePNG, isPNG } from './png';
+import { CorruptFileError, InvalidInputError } from './errors';
+
+/**
+ * Patch encoding ids as stored in the patch header
+ */
+export const PATCH_ENCODING_IDS: Record<PatchEncoding, number> = {
+  raw: 0,
+  png: 1,
+  xor: 2,
+  palette: 3,
+};
+
+/**
+ * Blend mode ids as stored in the high nibble of the encoding byte
+ */
+export const BLEND_MODE_IDS: Record<BlendMode, number> = {
+  replace: 0,
+  'alpha-over': 1,
+  multiply: 2,
+};
+
+/**
+ * Encoding id marking a patch stored in the patch pool
+ */
+export const POOL_REFERENCE = 255;
+
+/**
+ * Get the patch encoding for a stored id
+ */
+export function patchEncodingName(id: number): PatchEncoding {
+  const name = (Object.keys(PATCH_ENCODING_IDS) as PatchEncoding[]).find((key) => PATCH_ENCODING_IDS[key] === id);
+  if (!name) {
+    throw new CorruptFileError(`Unknown patch encoding id: ${id}`);
+  }
+  return name;
+}
+
+/**
+ * Encoding byte of a patch: its encoding id, with its blend mode in the high nibble
+ */
+export function patchEncodingByte(patch: { encoding: PatchEncoding; blend?: BlendMode }): number {
+  return PATCH_ENCODING_IDS[patch.encoding] | (BLEND_MODE_IDS[patch.blend ?? 'replace'] << 4);
+}
+
+/**
+ * Get the patch encoding and blend mode of a stored encoding byte.
+ * `blend` is left out for `replace` patches.
+ */
+export function readPatchEncodingByte(value: number): { encoding: PatchEncoding; blend?: BlendMode } {
+  const encoding = patchEncodingName(value & 0x0f);
+  const blendId = value >> 4;
+  if (blendId === BLEND_MODE_IDS.replace) {
+    return { encoding };
+  }
+  const blend = (Object.keys(BLEND_MODE_IDS) as BlendMode[]).find((key) => BLEND_MODE_IDS[key] === blendId);
+  if (!blend) {
+    throw new CorruptFileError(`Unknown patch blend mode id: ${blendId}`);
+  }
+  return { encoding, blend };
+}
+
+/**
+ * Determine the encoding of a version 1 patch, which is not recorded in the file
+ */
+export function detectLegacyPatchEncoding(data: Uint8Array): PatchEncoding {
+  return isPNG(data) ? 'png' : 'raw';
+}
+
+/**
+ * Decode patch data to raw pixels covering the patch rectangle.
+ * Checks that the decoded pixels match the rectangle instead of trusting the data.
+ * `xor` patches need the base image the variation was diffed against.
+ */
+export function decodePatchPixels(
+  patch: { rect: Rectangle; encoding: PatchEncoding; data: Uint8Array },
+  channels: number,
+  baseImage?: { width: number; data: Uint8Array }
+): Uint8Array {
+  const { width, height } = patch.rect;
+  const expectedLength = width * height * channels;
+
+  switch (patch.encoding) {
+    case 'raw': {
+      if (patch.data.length !== expectedLength) {
+        throw new CorruptFileError(
+          `Raw patch size mismatch: expected ${expectedLength} bytes, got ${patch.data.length}`
+        );
+      }
+      return patch.data;
+    }
+    case 'xor': {
+      if (patch.data.length !== expectedLength) {
+        throw new CorruptFileError(
+          `XOR patch size mismatch: expected ${expectedLength} bytes, got ${patch.data.length}`
+        );
+      }
+      if (!baseImage) {
+        throw new InvalidInputError('XOR patch requires the base image to decode');
+      }
+      return xorPixels(patch.data, readRegion(baseImage, patch.rect, channels));
+    }
+    case 'palette':
+      return decodePalette(patch.data, width, height, channels);
+    case 'png': {
+      // The size is checked before any pixel is decoded
+      const png = decodePNG(patch.data, { width, height });
+      return toChannels(png.data, channels);
+    }
+    default:
+      throw new CorruptFileError(`Unsupported patch encoding: ${patch.encoding}`);
+  }
+}
+
+/**
+ * XOR two equally sized pixel buffers (used to encode and decode `xor` patches)
+ */
+export function xorPixels(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length);
+  for (let i = 0; i < a.length; i++) {
+    result[i] = a[i] ^ b[i];
+  }
+  return result;
+}
+
+/**
+ * Copy the pixels under a rectangle out of an image
+ */
+export function readRegion(
+  image: { width: number; data: Uint8Array },
+  rect: Rectangle,
+  channels: number
+): Uint8Array {
+  const rowBytes = rect.width * channels;
+  const region = new Uint8Array(rowBytes * rect.height);
+  for (let dy = 0; dy < rect.height; dy++) {
+    const sourceOffset = ((rect.y + dy) * image.width + rect.x) * channels;
+    region.set(image.data.subarray(sourceOffset, sourceOffset + rowBytes), dy * rowBytes);
+  }
+  return region;
+}
+
+/**
+ * Bits per palette index for a palette of the given size
+ */
+function paletteIndexBits(colorCount: number): number {
+  return colorCount <= 2 ? 1 : colorCount <= 4 ? 2 : colorCount <= 16 ? 4 : 8;
+}
+
+/**
+ * Encode raw pixels as a `palette` patch.
+ * Returns null if the pixels use more than 256 distinct colors.
+ */
+export function encodePalette(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  channels: number
+): Uint8Array | null {
+  const pixelCount = width * height;
+  const colorIndex = new Map<number, number>();
+  const colors: number[] = [];
+  const indices = new Uint8Array(pixelCount);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const pixel = pixels.subarray(i * channels, (i + 1) * channels);
+    let key = 0;
+    for (let c = 0; c < channels; c++) {
+      key = key * 256 + pixel[c];
+    }
+    let index = colorIndex.get(key);
+    if (index === undefined) {
+      if (colorIndex.size === 256) {
+        return null;
+      }
+      index = colorIndex.size;
+      colorIndex.set(key, index);
+      colors.push(...pixel);
+    }
+    indices[i] = index;
+  }
+
+  const colorCount = Math.max(1, colorIndex.size);
+  const bits = paletteIndexBits(colorCount);
+  const rowBytes = Math.ceil((width * bits) / 8);
+  const paletteBytes = colorCount * channels;
+  const result = new Uint8Array(1 + paletteBytes + rowBytes * height);
+
+  result[0] = colorCount - 1;
+  result.set(colors, 1);
+
+  const indexStart = 1 + paletteBytes;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const bitOffset = x * bits;
+      const byteOffset = indexStart + y * rowBytes + (bitOffset >> 3);
+      result[byteOffset] |= indices[y * width + x] << (8 - bits - (bitOffset & 7));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Decode a `palette` patch to raw pixels
+ */
+function decodePalette(data: Uint8Array, width: number, height: number, channels: number): Uint8Array {
+  const colorCount = data[0] + 1;
+  const bits = paletteIndexBits(colorCount);
+  const rowBytes = Math.ceil((width * bits) / 8);
+  const indexStart = 1 + colorCount * channels;
+
+  if (data.length !== indexStart + rowBytes * height) {
+    throw new CorruptFileError(
+      `Palette patch size mismatch: expected ${indexStart + rowBytes * height} bytes, got ${data.length}`
+    );
+  }
+
+  const pixels = new Uint8Array(width * height * channels);
+  const mask = (1 << bits) - 1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const bitOffset = x * bits;
+      const byte = data[indexStart + y * rowBytes + (bitOffset >> 3)];
+      const index = (byte >> (8 - bits - (bitOffset & 7))) & mask;
+      if (index >= colorCount) {
+        throw new CorruptFileError(`Palette patch index ${index} out of range`);
+      }
+      const colorOffset = 1 + index * channels;
+      pixels.set(data.subarray(colorOffset, colorOffset + channels), (y * width + x) * channels);
+    }
+  }
+
+  return pixels;
+}
+
+/**
+ * Convert RGBA pixels to the given channel count
+ */
+function toChannels(rgba: Uint8Array, channels: number): Uint8Array {
+  if (channels === 4) {
+    return rgba;
+  }
+  if (channels !== 3) {
+    throw new CorruptFileError(`Unsupported channel count: ${channels}`);
+  }
+
+  const pixelCount = rgba.length / 4;
+  const rgb = new Uint8Array(pixelCount * 3);
+  for (let i = 0; i < pixelCount; i++) {
+    rgb[i * 3] = rgba[i * 4];
+    rgb[i * 3 + 1] = rgba[i * 4 + 1];
+    rgb[i * 3 + 2] = rgba[i * 4 + 2];
+  }
+  return rgb;
+}
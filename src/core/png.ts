@@ -0,0 +1,326 @@
+/**
+ * Minimal PNG decoder and encoder
+ * Pure TypeScript (pako for zlib) so patches decode, and images encode, the
+ * same way in every runtime, including browsers where sharp is unavailable
+ */
+
+import { deflate } from 'pako';
+import { inflateWithLimit } from './bounds';
+import { crc32 } from './crc32';
+import { CorruptFileError, InvalidInputError } from './errors';
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+/**
+ * Decoded PNG as 8-bit RGBA pixels
+ */
+export interface DecodedPNG {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * Check for the PNG file signature
+ */
+export function isPNG(data: Uint8Array): boolean {
+  return data.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((byte, i) => data[i] === byte);
+}
+
+/**
+ * Read a big-endian uint32
+ */
+function readUInt32BE(data: Uint8Array, offset: number): number {
+  return ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+}
+
+/**
+ * Decode a non-interlaced PNG of any standard color type and bit depth to 8-bit RGBA.
+ * With `expected`, a PNG of any other size is rejected before its pixels are decoded.
+ */
+export function decodePNG(png: Uint8Array, expected?: { width: number; height: number }): DecodedPNG {
+  if (!isPNG(png)) {
+    throw new CorruptFileError('Invalid PNG: signature mismatch');
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Uint8Array | undefined;
+  let transparency: Uint8Array | undefined;
+  const idat: Uint8Array[] = [];
+
+  // Walk chunks: [length][type][data][crc]
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= png.length) {
+    const length = readUInt32BE(png, offset);
+    const type = String.fromCharCode(png[offset + 4], png[offset + 5], png[offset + 6], png[offset + 7]);
+    const dataStart = offset + 8;
+    const dataEnd = dataStart + length;
+    if (dataEnd + 4 > png.length) {
+      throw new CorruptFileError('Invalid PNG: truncated chunk');
+    }
+    const chunk = png.subarray(dataStart, dataEnd);
+
+    if (type === 'IHDR') {
+      width = readUInt32BE(chunk, 0);
+      height = readUInt32BE(chunk, 4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      if (chunk[12] !== 0) {
+        throw new CorruptFileError('Unsupported PNG: interlaced images are not supported');
+      }
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    offset = dataEnd + 4;
+  }
+
+  if (width === 0 || height === 0) {
+    throw new CorruptFileError('Invalid PNG: missing IHDR chunk');
+  }
+  if (expected && (width !== expected.width || height !== expected.height)) {
+    throw new CorruptFileError(
+      `PNG patch size mismatch: expected ${expected.width}x${expected.height}, got ${width}x${height}`
+    );
+  }
+
+  const samplesPerPixel = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType];
+  if (samplesPerPixel === undefined || ![1, 2, 4, 8, 16].includes(bitDepth)) {
+    throw new CorruptFileError(`Unsupported PNG: color type ${colorType} with bit depth ${bitDepth}`);
+  }
+  if (colorType === 3 && !palette) {
+    throw new CorruptFileError('Invalid PNG: missing PLTE chunk');
+  }
+
+  // Concatenate and inflate image data
+  const compressed = new Uint8Array(idat.reduce((sum, c) => sum + c.length, 0));
+  let idatOffset = 0;
+  for (const chunk of idat) {
+    compressed.set(chunk, idatOffset);
+    idatOffset += chunk.length;
+  }
+  const bitsPerPixel = samplesPerPixel * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = (width * bitsPerPixel + 7) >> 3;
+  const raw = inflateWithLimit(compressed, (stride + 1) * height, 'Invalid PNG');
+  if (raw.length < (stride + 1) * height) {
+    throw new CorruptFileError('Invalid PNG: truncated image data');
+  }
+
+  const scanlines = unfilter(raw, stride, height, bytesPerPixel);
+  const rgba = new Uint8Array(width * height * 4);
+
+  // Read sample `index` of a scanline, for any bit depth (16-bit keeps full precision)
+  const sampleAt = (line: number, index: number): number => {
+    const base = line * stride;
+    if (bitDepth === 8) return scanlines[base + index];
+    if (bitDepth === 16) return (scanlines[base + index * 2] << 8) | scanlines[base + index * 2 + 1];
+    const bitOffset = index * bitDepth;
+    const byte = scanlines[base + (bitOffset >> 3)];
+    return (byte >> (8 - bitDepth - (bitOffset & 7))) & ((1 << bitDepth) - 1);
+  };
+
+  // Scale a sample to 8 bits
+  const maxSample = (1 << bitDepth) - 1;
+  const to8 = (value: number): number =>
+    bitDepth === 8 ? value : bitDepth === 16 ? value >> 8 : Math.round((value * 255) / maxSample);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const s = x * samplesPerPixel;
+
+      switch (colorType) {
+        case 0: {
+          const gray = sampleAt(y, s);
+          const v = to8(gray);
+          rgba[out] = v;
+          rgba[out + 1] = v;
+          rgba[out + 2] = v;
+          rgba[out + 3] = transparency && gray === ((transparency[0] << 8) | transparency[1]) ? 0 : 255;
+          break;
+        }
+        case 2: {
+          const r = sampleAt(y, s);
+          const g = sampleAt(y, s + 1);
+          const b = sampleAt(y, s + 2);
+          rgba[out] = to8(r);
+          rgba[out + 1] = to8(g);
+          rgba[out + 2] = to8(b);
+          const transparent =
+            transparency &&
+            r === ((transparency[0] << 8) | transparency[1]) &&
+            g === ((transparency[2] << 8) | transparency[3]) &&
+            b === ((transparency[4] << 8) | transparency[5]);
+          rgba[out + 3] = transparent ? 0 : 255;
+          break;
+        }
+        case 3: {
+          const index = sampleAt(y, s);
+          rgba[out] = palette![index * 3];
+          rgba[out + 1] = palette![index * 3 + 1];
+          rgba[out + 2] = palette![index * 3 + 2];
+          rgba[out + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+          break;
+        }
+        case 4: {
+          const v = to8(sampleAt(y, s));
+          rgba[out] = v;
+          rgba[out + 1] = v;
+          rgba[out + 2] = v;
+          rgba[out + 3] = to8(sampleAt(y, s + 1));
+          break;
+        }
+        case 6: {
+          rgba[out] = to8(sampleAt(y, s));
+          rgba[out + 1] = to8(sampleAt(y, s + 1));
+          rgba[out + 2] = to8(sampleAt(y, s + 2));
+          rgba[out + 3] = to8(sampleAt(y, s + 3));
+          break;
+        }
+      }
+    }
+  }
+
+  return { width, height, data: rgba };
+}
+
+/**
+ * Reverse PNG scanline filters, returning the scanlines without filter bytes
+ */
+function unfilter(raw: Uint8Array, stride: number, height: number, bpp: number): Uint8Array {
+  const out = new Uint8Array(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    if (filter > 4) {
+      throw new CorruptFileError(`Invalid PNG: unknown filter type ${filter}`);
+    }
+    const src = y * (stride + 1) + 1;
+    const dst = y * stride;
+    const prev = dst - stride;
+
+    for (let i = 0; i < stride; i++) {
+      const left = i >= bpp ? out[dst + i - bpp] : 0;
+      const up = y > 0 ? out[prev + i] : 0;
+      const upLeft = y > 0 && i >= bpp ? out[prev + i - bpp] : 0;
+      out[dst + i] = (raw[src + i] + predict(filter, left, up, upLeft)) & 0xff;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * PNG color type for a channel count (gray, gray + alpha, RGB, RGBA)
+ */
+const COLOR_TYPES: Record<number, number> = { 1: 0, 2: 4, 3: 2, 4: 6 };
+
+/**
+ * Encode 8-bit pixels with 1 to 4 channels as a non-interlaced PNG.
+ * Each scanline gets the filter with the smallest sum of absolute residuals.
+ */
+export function encodePNG(image: { width: number; height: number; channels: number; data: Uint8Array }): Uint8Array {
+  const { width, height, channels, data } = image;
+  const colorType = COLOR_TYPES[channels];
+  if (colorType === undefined || data.length !== width * height * channels) {
+    throw new InvalidInputError(`Cannot encode ${width}x${height} image with ${channels} channels as PNG`);
+  }
+
+  const stride = width * channels;
+  const filtered = new Uint8Array((stride + 1) * height);
+  const candidate = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    const row = data.subarray(y * stride, (y + 1) * stride);
+    const prev = y > 0 ? data.subarray((y - 1) * stride, y * stride) : undefined;
+    const out = y * (stride + 1);
+
+    let bestSum = Infinity;
+    for (let filter = 0; filter <= 4; filter++) {
+      let sum = 0;
+      for (let i = 0; i < stride; i++) {
+        const left = i >= channels ? row[i - channels] : 0;
+        const up = prev ? prev[i] : 0;
+        const upLeft = prev && i >= channels ? prev[i - channels] : 0;
+        const value = (row[i] - predict(filter, left, up, upLeft)) & 0xff;
+        candidate[i] = value;
+        sum += value < 128 ? value : 256 - value;
+      }
+      if (sum < bestSum) {
+        bestSum = sum;
+        filtered[out] = filter;
+        filtered.set(candidate, out + 1);
+      }
+    }
+  }
+
+  const ihdr = new Uint8Array(13);
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, width);
+  ihdrView.setUint32(4, height);
+  ihdr[8] = 8; // Bit depth
+  ihdr[9] = colorType;
+
+  const chunks = [
+    chunk('IHDR', ihdr),
+    chunk('IDAT', deflate(filtered, { level: 6 })),
+    chunk('IEND', new Uint8Array(0)),
+  ];
+
+  const png = new Uint8Array(PNG_SIGNATURE.length + chunks.reduce((sum, c) => sum + c.length, 0));
+  png.set(PNG_SIGNATURE, 0);
+  let offset = PNG_SIGNATURE.length;
+  for (const c of chunks) {
+    png.set(c, offset);
+    offset += c.length;
+  }
+  return png;
+}
+
+/**
+ * PNG filter predictor for a byte, given its left, upper and upper-left neighbours
+ */
+function predict(filter: number, left: number, up: number, upLeft: number): number {
+  switch (filter) {
+    case 1:
+      return left;
+    case 2:
+      return up;
+    case 3:
+      return (left + up) >> 1;
+    case 4: {
+      // Paeth predictor
+      const p = left + up - upLeft;
+      const pa = Math.abs(p - left);
+      const pb = Math.abs(p - up);
+      const pc = Math.abs(p - upLeft);
+      return pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Build a PNG chunk: [length][type][data][crc of type and data]
+ */
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const result = new Uint8Array(12 + data.length);
+  const view = new DataView(result.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    result[4 + i] = type.charCodeAt(i);
+  }
+  result.set(data, 8);
+  view.setUint32(8 + data.length, crc32(result.subarray(4, 8 + data.length)));
+  return result;
+}
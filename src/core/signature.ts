@@ -0,0 +1,373 @@
+/**
+ * Pack signatures
+ *
+ * A signed pack ends with a signature section:
+ * - Magic number: "CPSG" (4 bytes)
+ * - Algorithm: uint8 (1 byte, see SIGNATURE_ALGORITHMS)
+ * - Digest count: uint32 (4 bytes, one per variation, keyframe and part)
+ * - Head digest: SHA-256 (32 bytes) of the header, base image, metadata, index,
+ *   keyframe table, patch pool and part table, in that order
+ * - Block digests: SHA-256 (32 bytes) of every variation block in index order,
+ *   then of every keyframe in table order, then of every part block in table order
+ * - Signature: Ed25519 (64 bytes) over all preceding bytes of the section
+ * - Section size: uint32 (4 bytes, including this field)
+ *
+ * The header does not point to the section; readers find it from the end of
+ * the file. Digests are stored per block so that `extract` only has to hash
+ * the block it reads. Editing a pack drops the section, as it no longer
+ * matches, so an edited pack reads as unsigned. Packs are signed again with `sign`.
+ */
+
+import { ReadOptions, SignatureResult } from './types';
+import type { PackLayout } from './decode';
+import { PackCrypto } from './crypto';
+import { CharPackError, InvalidInputError, SignatureError } from './errors';
+
+/**
+ * Magic number at the start of the signature section ("CPSG")
+ */
+export const SIGNATURE_MAGIC = new Uint8Array([0x43, 0x50, 0x53, 0x47]);
+
+/**
+ * Signature algorithm ids stored in the section
+ */
+export const SIGNATURE_ALGORITHMS = {
+  ed25519: 1,
+} as const;
+
+export const DIGEST_SIZE = 32;
+export const SIGNATURE_SIZE = 64;
+
+/**
+ * Size of a signature section without block digests
+ */
+const SECTION_OVERHEAD = 4 + 1 + 4 + DIGEST_SIZE + SIGNATURE_SIZE + 4;
+
+/**
+ * DER prefixes turning raw Ed25519 keys into SPKI and PKCS#8 keys
+ */
+const SPKI_PREFIX = new Uint8Array([0x30, 0x2a, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x03, 0x21, 0x00]);
+export const PKCS8_PREFIX = new Uint8Array([0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x04, 0x22, 0x04, 0x20]);
+
+/**
+ * Sections of a pack covered by its head digest: the raw header, metadata,
+ * index, keyframe table and part table alongside the stored base image and patch pool
+ */
+export interface SignedSections {
+  header: Uint8Array;
+  compressedBase: Uint8Array;
+  metadata: Uint8Array;
+  index: Uint8Array;
+  keyframes: Uint8Array;
+  pool: Uint8Array;
+  parts: Uint8Array;
+}
+
+/**
+ * What the signature checks need of a pack layout
+ */
+type SignedLayout = Pick<PackLayout, 'sections' | 'signature' | 'variations' | 'keyframes' | 'parts'>;
+
+/**
+ * Block digests of a pack whose signature has been verified, by variation
+ * name, and keyframe and part digests in table order
+ */
+export interface SignedPack {
+  blockDigests: Map<string, Uint8Array>;
+  keyframeDigests: Uint8Array[];
+  partDigests: Uint8Array[];
+}
+
+/**
+ * Synchronous hashing and signing, for writing signatures in Node.js
+ */
+export interface PackSigner {
+  sha256(data: Uint8Array): Uint8Array;
+  sign(message: Uint8Array): Uint8Array;
+}
+
+/**
+ * Concatenate byte arrays
+ */
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((acc, part) => acc + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Compare two byte arrays
+ */
+export function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Decode the body of a PEM block with the given label
+ */
+function pemToDer(pem: string, label: string): Uint8Array | undefined {
+  const match = pem.match(new RegExp(`-----BEGIN ${label}-----([\\s\\S]*?)-----END ${label}-----`));
+  if (!match) {
+    return undefined;
+  }
+  const binary = atob(match[1].replace(/\s+/g, ''));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Convert an Ed25519 public key (32 raw bytes or a PEM "PUBLIC KEY") to SPKI DER
+ */
+export function toSpki(publicKey: Uint8Array | string): Uint8Array {
+  if (publicKey instanceof Uint8Array && publicKey.length === 32) {
+    return concatBytes([SPKI_PREFIX, publicKey]);
+  }
+  const der = typeof publicKey === 'string' ? pemToDer(publicKey, 'PUBLIC KEY') : undefined;
+  if (!der) {
+    throw new InvalidInputError('Public key must be 32 raw Ed25519 bytes or a PEM "PUBLIC KEY"');
+  }
+  return der;
+}
+
+/**
+ * Size of the signature section claimed by the last 4 bytes of a pack
+ */
+function readSignatureSize(tail: Uint8Array): number {
+  return new DataView(tail.buffer, tail.byteOffset, tail.byteLength).getUint32(tail.length - 4, true);
+}
+
+/**
+ * Size of the signature section of a pack with `digestCount` variations, keyframes and parts
+ */
+function signatureSize(digestCount: number): number {
+  return SECTION_OVERHEAD + digestCount * DIGEST_SIZE;
+}
+
+/**
+ * Whether `section` looks like a signature section (checked fully when verified)
+ */
+function isSignatureSection(section: Uint8Array): boolean {
+  return SIGNATURE_MAGIC.every((byte, i) => section[i] === byte);
+}
+
+/**
+ * Find the signature section at the end of a whole-file buffer
+ */
+export function findSignature(buffer: Uint8Array, digestCount: number): Uint8Array | undefined {
+  const size = signatureSize(digestCount);
+  if (buffer.length < size || readSignatureSize(buffer) !== size) {
+    return undefined;
+  }
+  const section = buffer.subarray(buffer.length - size);
+  return isSignatureSection(section) ? section : undefined;
+}
+
+/**
+ * Find the signature section at the end of a file of `fileSize` bytes through positional reads
+ */
+export async function readSignature(
+  fileSize: number,
+  digestCount: number,
+  read: (position: number, length: number) => Promise<Uint8Array>
+): Promise<Uint8Array | undefined> {
+  const size = signatureSize(digestCount);
+  if (fileSize < size) {
+    return undefined;
+  }
+  const section = await read(fileSize - size, size);
+  return readSignatureSize(section) === size && isSignatureSection(section) ? section : undefined;
+}
+
+/**
+ * Build the signature section of a pack. `blocks` are the variation blocks
+ * followed by the keyframes and the part blocks.
+ */
+export function buildSignatureSection(
+  sections: SignedSections,
+  blocks: Uint8Array[],
+  signer: PackSigner
+): Uint8Array {
+  const size = signatureSize(blocks.length);
+  const body = new Uint8Array(size - SIGNATURE_SIZE - 4);
+  const view = new DataView(body.buffer);
+
+  body.set(SIGNATURE_MAGIC, 0);
+  view.setUint8(4, SIGNATURE_ALGORITHMS.ed25519);
+  view.setUint32(5, blocks.length, true);
+  body.set(signer.sha256(headOf(sections)), 9);
+  blocks.forEach((block, i) => body.set(signer.sha256(block), 9 + DIGEST_SIZE * (i + 1)));
+
+  const sizeField = new Uint8Array(4);
+  new DataView(sizeField.buffer).setUint32(0, size, true);
+  return concatBytes([body, signer.sign(body), sizeField]);
+}
+
+/**
+ * Bytes covered by the head digest
+ */
+function headOf(sections: SignedSections): Uint8Array {
+  return concatBytes([
+    sections.header,
+    sections.compressedBase,
+    sections.metadata,
+    sections.index,
+    sections.keyframes,
+    sections.pool,
+    sections.parts,
+  ]);
+}
+
+/**
+ * Verify the signature of a pack and its head digest, before anything is decoded.
+ * Blocks are checked against the returned digests as they are read.
+ */
+export async function verifyPackSignature(
+  pack: SignedLayout,
+  publicKey: Uint8Array | string,
+  crypto: PackCrypto
+): Promise<SignedPack> {
+  const spki = toSpki(publicKey);
+  if (!pack.sections || !pack.signature) {
+    throw new SignatureError('CharPack is not signed');
+  }
+
+  const section = pack.signature;
+  const view = new DataView(section.buffer, section.byteOffset, section.byteLength);
+  const count = view.getUint32(5, true);
+  if (
+    view.getUint8(4) !== SIGNATURE_ALGORITHMS.ed25519 ||
+    count !== pack.variations.length + pack.keyframes.length + pack.parts.length ||
+    section.length !== signatureSize(count)
+  ) {
+    throw new SignatureError('CharPack signature does not match the pack');
+  }
+
+  const bodySize = section.length - SIGNATURE_SIZE - 4;
+  const body = section.subarray(0, bodySize);
+  let valid: boolean;
+  try {
+    valid = await crypto.verify(body, section.subarray(bodySize, bodySize + SIGNATURE_SIZE), spki);
+  } catch (error) {
+    if (error instanceof CharPackError) {
+      throw error;
+    }
+    throw new SignatureError('Failed to verify CharPack signature', { cause: error });
+  }
+  if (!valid) {
+    throw new SignatureError('CharPack signature does not match the public key');
+  }
+
+  if (!equalBytes(await crypto.sha256(headOf(pack.sections)), body.subarray(9, 9 + DIGEST_SIZE))) {
+    throw new SignatureError('CharPack was modified after it was signed');
+  }
+
+  const digestAt = (i: number) => body.subarray(9 + DIGEST_SIZE * (i + 1), 9 + DIGEST_SIZE * (i + 2));
+  const blockDigests = new Map<string, Uint8Array>();
+  pack.variations.forEach((entry, i) => blockDigests.set(entry.name, digestAt(i)));
+  const keyframeDigests = pack.keyframes.map((_, k) => digestAt(pack.variations.length + k));
+  const partDigests = pack.parts.map((_, i) => digestAt(pack.variations.length + pack.keyframes.length + i));
+  return { blockDigests, keyframeDigests, partDigests };
+}
+
+/**
+ * Check a variation block against its signed digest
+ */
+export async function checkSignedBlock(
+  signed: SignedPack | undefined,
+  name: string,
+  block: Uint8Array,
+  crypto: PackCrypto
+): Promise<void> {
+  const digest = signed?.blockDigests.get(name);
+  if (!digest) {
+    throw new SignatureError('CharPack is not signed');
+  }
+  if (!equalBytes(await crypto.sha256(block), digest)) {
+    throw new SignatureError(`Variation '${name}' was modified after the pack was signed`);
+  }
+}
+
+/**
+ * Check keyframe `index` (from 1) against its signed digest
+ */
+export async function checkSignedKeyframe(
+  signed: SignedPack | undefined,
+  index: number,
+  keyframe: Uint8Array,
+  crypto: PackCrypto
+): Promise<void> {
+  const digest = signed?.keyframeDigests[index - 1];
+  if (!digest) {
+    throw new SignatureError('CharPack is not signed');
+  }
+  if (!equalBytes(await crypto.sha256(keyframe), digest)) {
+    throw new SignatureError(`Keyframe ${index} was modified after the pack was signed`);
+  }
+}
+
+/**
+ * Check the block of the part at `position` in the part table against its signed digest.
+ * `label` names the part in messages.
+ */
+export async function checkSignedPart(
+  signed: SignedPack | undefined,
+  position: number,
+  label: string,
+  block: Uint8Array,
+  crypto: PackCrypto
+): Promise<void> {
+  const digest = signed?.partDigests[position];
+  if (!digest) {
+    throw new SignatureError('CharPack is not signed');
+  }
+  if (!equalBytes(await crypto.sha256(block), digest)) {
+    throw new SignatureError(`Part '${label}' was modified after the pack was signed`);
+  }
+}
+
+/**
+ * Refuse unsigned or badly signed packs when `options.publicKey` is set
+ */
+export async function checkPackSignature(
+  pack: SignedLayout,
+  options: ReadOptions,
+  crypto: PackCrypto
+): Promise<SignedPack | undefined> {
+  return options.publicKey === undefined ? undefined : verifyPackSignature(pack, options.publicKey, crypto);
+}
+
+/**
+ * Verify the signature of a whole pack, including every variation block, keyframe and part block
+ */
+export async function verifyBufferSignature(
+  pack: SignedLayout,
+  blocks: Uint8Array[],
+  keyframes: Uint8Array[],
+  parts: Uint8Array[],
+  publicKey: Uint8Array | string,
+  crypto: PackCrypto
+): Promise<SignatureResult> {
+  const signed = pack.signature !== undefined;
+  try {
+    const signedPack = await verifyPackSignature(pack, publicKey, crypto);
+    for (let i = 0; i < blocks.length; i++) {
+      await checkSignedBlock(signedPack, pack.variations[i].name, blocks[i], crypto);
+    }
+    for (let k = 0; k < keyframes.length; k++) {
+      await checkSignedKeyframe(signedPack, k + 1, keyframes[k], crypto);
+    }
+    for (let i = 0; i < parts.length; i++) {
+      const { slot, name } = pack.parts[i];
+      await checkSignedPart(signedPack, i, `${slot}/${name}`, parts[i], crypto);
+    }
+    return { signed, valid: true };
+  } catch (error) {
+    if (!(error instanceof SignatureError)) {
+      throw error;
+    }
+    return { signed, valid: false, error: error.message };
+  }
+}
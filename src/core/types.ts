@@ -2,6 +2,27 @@
  * Core type definitions for CharPack
  */
 
+/**
+ * Compression codec used for the base image and variation blocks.
+ * - `store`: no compression, fastest to decode
+ * - `deflate`: zlib DEFLATE, decodable everywhere (default)
+ * - `brotli`: smaller than deflate, Node.js only
+ * - `zstd`: fast to decode, Node.js only and requires a runtime with zstd in node:zlib
+ */
+export type CompressionCodec = 'store' | 'deflate' | 'brotli' | 'zstd';
+
+/**
+ * Compression codec with an optional level
+ */
+export interface CompressionOptions {
+  codec: CompressionCodec;
+  /**
+   * Codec-specific level: 0-9 for deflate, 0-11 for brotli, 1-22 for zstd.
+   * Ignored by `store`. Defaults to the codec's balanced level.
+   */
+  level?: number;
+}
+
 /**
  * Configuration for packing images
  */
@@ -76,6 +97,303 @@ export interface PackConfig {
    * @default 0 (any differing pixel makes the block different)
    */
   diffToleranceRatio?: number;
+
+  /**
+   * Compression codec for the base image and patches.
+   *
+   * The codec is recorded in the pack for the base image and for every
+   * variation block, so packs mixing codecs (e.g. after `add()`) decode fine.
+   * Trade pack size against decode speed per target: `store` decodes fastest,
+   * `brotli` gives the smallest packs, `deflate` is readable in every build.
+   *
+   * @default 'deflate' (level 6)
+   */
+  compression?: CompressionCodec | CompressionOptions;
+
+  /**
+   * Patch encodings to try for every patch.
+   *
+   * Each candidate is encoded and compressed with the pack codec, and the
+   * smallest result is kept. Restrict the list to speed up packing or to
+   * force a single encoding.
+   *
+   * @default ['raw', 'png', 'xor', 'palette']
+   */
+  patchEncodings?: PatchEncoding[];
+
+  /**
+   * How the base image is chosen among the inputs.
+   *
+   * - `first`: the first input, so the pack depends on input order.
+   * - `medoid`: the input that minimises the total patch area of all other
+   *   inputs. Compares every pair of inputs, so packing takes longer.
+   * - `named`: the input named by `baseName`.
+   * - `consensus`: a synthetic image built from all inputs (see `consensus`),
+   *   for when no single input is a good base.
+   *
+   * An input chosen as base stays a variation of its own, with no patches.
+   * A synthetic base is stored as the base image only, not as a variation.
+   *
+   * @default 'first'
+   */
+  baseSelection?: BaseSelection;
+
+  /**
+   * Variation name of the base image when `baseSelection` is `named`.
+   */
+  baseName?: string;
+
+  /**
+   * How the `consensus` base is built:
+   *
+   * - `mode`: each block is taken from the inputs that agree on it most often.
+   * - `median`: each pixel channel is the median of all inputs.
+   *
+   * @default 'mode'
+   */
+  consensus?: ConsensusMethod;
+
+  /**
+   * Maximum number of base images (keyframes) in the pack.
+   *
+   * With more than one, inputs that differ a lot from the base image (e.g.
+   * another outfit) become additional base images, chosen greedily for the
+   * patch area they save. Every variation is then diffed against the base
+   * image that gives it the smallest patches. At most 64, the `maxBases`
+   * limit readers apply by default.
+   *
+   * @default 1
+   */
+  keyframes?: number;
+
+  /**
+   * Diff variations against an earlier variation instead of a base image
+   * when that gives smaller patches.
+   *
+   * Families of expressions (e.g. `smile`, `smile_blush`,
+   * `smile_blush_tears`) then store each change once: `smile_blush_tears`
+   * only stores the tears over `smile_blush`. Decoding a chained variation
+   * decodes its parents first. Compares every pair of inputs, so packing
+   * takes longer.
+   *
+   * @default false
+   */
+  chainVariations?: boolean;
+
+  /**
+   * Maximum number of parents above a chained variation, see `chainVariations`.
+   * At most 16, the `maxChainDepth` limit readers apply by default.
+   *
+   * @default 4
+   */
+  maxChainDepth?: number;
+}
+
+/**
+ * How the base image of a pack is chosen, see `PackConfig.baseSelection`
+ */
+export type BaseSelection = 'first' | 'medoid' | 'named' | 'consensus';
+
+/**
+ * How a synthetic consensus base is built, see `PackConfig.consensus`
+ */
+export type ConsensusMethod = 'mode' | 'median';
+
+/**
+ * Encryption of a pack being written
+ */
+export interface EncryptionOptions {
+  /**
+   * 32-byte AES-256 key. The base image and every variation block are
+   * encrypted with AES-256-GCM; names, properties and metadata are not.
+   */
+  key: Uint8Array;
+}
+
+/**
+ * Pack-level metadata stored alongside the images
+ */
+export interface PackMetadata {
+  /**
+   * Character name, e.g. "Koi".
+   */
+  character?: string;
+  /**
+   * Outfit or costume of the character in this pack.
+   */
+  outfit?: string;
+  author?: string;
+  license?: string;
+  description?: string;
+  /**
+   * Free-form JSON-serializable data.
+   */
+  custom?: Record<string, unknown>;
+}
+
+/**
+ * Point in image coordinates
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Named location on a variation, e.g. the mouth centre (point)
+ * or the face bounding box (rectangle)
+ */
+export type Anchor = Point | Rectangle;
+
+/**
+ * Per-variation properties stored in the variation's index entry
+ */
+export interface VariationProperties {
+  /**
+   * Human-readable name, either a single string or localized names keyed by locale (e.g. `{ en: "Smile", ja: "笑顔" }`).
+   */
+  displayName?: string | Record<string, string>;
+  /**
+   * Tags such as "mouth-open" or "eyes-closed".
+   */
+  tags?: string[];
+  /**
+   * Named anchor points or regions, e.g. `{ mouth: { x: 120, y: 88 } }`.
+   */
+  anchors?: Record<string, Anchor>;
+  /**
+   * Free-form JSON-serializable data.
+   */
+  custom?: Record<string, unknown>;
+}
+
+/**
+ * Image path with the properties of the variation it becomes,
+ * accepted as a value of the `input` mapping
+ */
+export interface VariationInput extends VariationProperties {
+  path: string;
+  /**
+   * Store the image as an overlay, composited with this blend mode over the image
+   * it is stacked on, e.g. `pack.png(['smile', 'blush'])`. Only its visible pixels
+   * are stored; fully transparent pixels leave the image below unchanged.
+   */
+  overlay?: OverlayBlend;
+}
+
+/**
+ * Images to pack: a glob pattern, an array of file paths, or a mapping
+ * of variation names to file paths (optionally with variation properties)
+ */
+export type PackInput = string | string[] | Record<string, string | VariationInput>;
+
+/**
+ * Part images to pack, grouped by slot: `{ eyes: { open: 'eyes-open.png', closed: 'eyes-closed.png' } }`.
+ * Each part is diffed against the base image and stored apart from the variations.
+ */
+export type PackParts = Record<string, Record<string, string>>;
+
+/**
+ * Part to use in each slot when composing an image, e.g. `{ eyes: 'closed', mouth: 'open' }`.
+ * Slots left out keep the base image.
+ */
+export type PartSelection = Record<string, string>;
+
+/**
+ * Variation name with its properties, as returned by `list({ details: true })`
+ */
+export interface VariationInfo extends VariationProperties {
+  name: string;
+}
+
+/**
+ * Options for listing variations
+ */
+export interface ListOptions {
+  /**
+   * Only list variations that carry all of these tags.
+   */
+  tags?: string[];
+  /**
+   * Return names together with variation properties instead of names only.
+   */
+  details?: boolean;
+}
+
+/**
+ * Limits applied while parsing a pack, for packs from untrusted sources
+ */
+export interface ParseLimits {
+  /**
+   * Maximum number of variations. Default 4096.
+   */
+  maxVariations?: number;
+  /**
+   * Maximum image width or height in pixels. Default 16384.
+   */
+  maxDimension?: number;
+  /**
+   * Maximum image area in pixels. Default 67108864 (64 megapixels).
+   */
+  maxPixels?: number;
+  /**
+   * Maximum number of base images, including keyframes. Default 64.
+   */
+  maxBases?: number;
+  /**
+   * Maximum number of parents above a chained variation. Default 16.
+   */
+  maxChainDepth?: number;
+  /**
+   * Maximum number of parts, across all slots. Default 4096.
+   */
+  maxParts?: number;
+}
+
+/**
+ * Options for reading a pack
+ */
+export interface ReadOptions {
+  limits?: ParseLimits;
+  /**
+   * 32-byte key of an encrypted pack. Ignored for unencrypted packs.
+   */
+  key?: Uint8Array;
+  /**
+   * Ed25519 public key (32 raw bytes or PEM). When set, packs that are not
+   * signed with the matching private key are refused before any image data
+   * is decoded.
+   */
+  publicKey?: Uint8Array | string;
+}
+
+/**
+ * Options for inspecting a pack
+ */
+export interface InspectOptions extends ReadOptions {
+  /**
+   * Also encode every variation as its own PNG to fill in `pngBytes` and `ratio`.
+   * This decodes the whole pack, so an encrypted pack needs its key.
+   */
+  png?: boolean;
+}
+
+/**
+ * Result of checking the signature of a pack
+ */
+export interface SignatureResult {
+  /**
+   * Whether the pack carries a signature section.
+   */
+  signed: boolean;
+  /**
+   * Whether the signature matches the public key and covers the pack as it is.
+   */
+  valid: boolean;
+  /**
+   * Why the signature is not valid, if it is not.
+   */
+  error?: string;
 }
 
 /**
@@ -86,21 +404,67 @@ export interface CharPackImage {
   jpeg(): Promise<Buffer>;
   webp(): Promise<Buffer>;
   base64(): Promise<string>;
+  /**
+   * Metadata of the pack the image was extracted from, if any.
+   */
+  metadata?: PackMetadata;
+  /**
+   * Properties of the extracted variation, if any.
+   */
+  properties?: VariationProperties;
 }
 
 /**
  * In-memory CharPack for efficient multi-variation reading and modification
  */
 export interface CharPack {
-  png(variation: string): Promise<Buffer>;
-  jpeg(variation: string): Promise<Buffer>;
-  webp(variation: string): Promise<Buffer>;
-  base64(variation: string): Promise<string>;
+  /**
+   * Encode a variation. Given several names, the first variation is reconstructed
+   * and the others, which must be overlays, are stacked on it in order.
+   */
+  png(variation: string | string[]): Promise<Buffer>;
+  jpeg(variation: string | string[]): Promise<Buffer>;
+  webp(variation: string | string[]): Promise<Buffer>;
+  base64(variation: string | string[]): Promise<string>;
   dispose(): void;
   refresh(): void;
-  add(input: string | string[] | Record<string, string>, config?: PackConfig): Promise<void>;
-  remove(variation: string): Promise<void>;
-  list(): Promise<string[]>;
+  add(input: PackInput, config?: PackConfig): Promise<void>;
+  /**
+   * Remove a variation. Variations diffed against it are diffed against a
+   * base image again, using `config`.
+   */
+  remove(variation: string, config?: PackConfig): Promise<void>;
+  /**
+   * Rename a variation. Only the index is rewritten.
+   */
+  rename(oldName: string, newName: string): Promise<void>;
+  /**
+   * Replace the image of a variation, diffed against the stored base.
+   * Properties are kept unless `image` carries new ones.
+   */
+  replace(variation: string, image: string | VariationInput, config?: PackConfig): Promise<void>;
+  /**
+   * Reorder the variations. `names` must list every variation exactly once.
+   */
+  reorder(names: string[]): Promise<void>;
+  list(options?: ListOptions & { details?: false }): Promise<string[]>;
+  list(options: ListOptions & { details: true }): Promise<VariationInfo[]>;
+  /**
+   * Compose an image from the base image and one part per selected slot,
+   * applied in the order the slots are stored.
+   */
+  compose(selection: PartSelection): Promise<CharPackImage>;
+  /**
+   * Names of the parts of every slot, in pack order.
+   */
+  slots(): Promise<Record<string, string[]>>;
+  metadata(): Promise<PackMetadata | undefined>;
+  setMetadata(metadata: PackMetadata | undefined): Promise<void>;
+  /**
+   * Rewrite the file without the blocks of removed variations.
+   * Returns the number of bytes reclaimed.
+   */
+  compact(): Promise<number>;
 }
 
 /**
@@ -113,12 +477,53 @@ export interface Rectangle {
   height: number;
 }
 
+/**
+ * How the pixel data of a patch is encoded (see core/patch.ts)
+ * - `raw`: plain pixels
+ * - `png`: PNG image of the patch region
+ * - `xor`: pixels XOR the base image, compresses well for small changes
+ * - `palette`: indexed colors, for patches with at most 256 colors
+ */
+export type PatchEncoding = 'raw' | 'png' | 'xor' | 'palette';
+
+/**
+ * How the pixels of a patch are combined with the image below:
+ * - `replace`: the patch pixels overwrite the rectangle
+ * - `alpha-over`: the patch is alpha-composited over the image
+ * - `multiply`: the patch colors multiply the image, weighted by the patch alpha
+ */
+export type BlendMode = 'replace' | 'alpha-over' | 'multiply';
+
+/**
+ * Blend modes of overlay variations, see `VariationInput.overlay`
+ */
+export type OverlayBlend = Exclude<BlendMode, 'replace'>;
+
 /**
  * Diff patch representing a region that differs from base image
  */
 export interface DiffPatch {
   rect: Rectangle;
-  data: Buffer; // PNG buffer representing this region (RGBA)
+  encoding: PatchEncoding;
+  data: Uint8Array; // Encoded pixels of this region (RGBA)
+  /**
+   * How the patch is combined with the image below, `replace` if undefined.
+   */
+  blend?: BlendMode;
+  /**
+   * Position in `CharPackData.pool` of the entry the patch was read from, if shared.
+   */
+  pooled?: number;
+}
+
+/**
+ * Patch stored once in the patch pool of a pack and shared by several variations
+ */
+export interface PooledPatch {
+  codec: number;
+  encoding: PatchEncoding;
+  blend?: BlendMode;
+  data: Uint8Array; // Encoded pixels, compressed with `codec`
 }
 
 /**
@@ -127,6 +532,25 @@ export interface DiffPatch {
 export interface VariationMetadata {
   name: string;
   patches: DiffPatch[];
+  properties?: VariationProperties;
+  /**
+   * Base image the patches apply to: 0 (or undefined) for `baseImage`,
+   * k for `keyframes[k - 1]`. Ignored when `parent` is set.
+   */
+  base?: number;
+  /**
+   * Variation the patches apply to instead of a base image, see `PackConfig.chainVariations`.
+   */
+  parent?: string;
+}
+
+/**
+ * Patches of a part, always diffed against the base image
+ */
+export interface PartMetadata {
+  slot: string;
+  name: string;
+  patches: DiffPatch[];
 }
 
 /**
@@ -137,8 +561,172 @@ export interface CharPackData {
   width: number;
   height: number;
   format: 'png' | 'raw'; // Format of base image and patches
-  baseImage: Buffer;
+  /**
+   * The stored base image every variation is diffed against. It is usually
+   * one of the variations, but a synthetic base belongs to none of them.
+   */
+  baseImage: Uint8Array;
+  /**
+   * Additional base images as raw pixels, see `PackConfig.keyframes`.
+   */
+  keyframes?: Uint8Array[];
+  /**
+   * Patches shared by several variations, as read from a pack. Writing a pack
+   * ignores it and pools identical patches again.
+   */
+  pool?: PooledPatch[];
   variations: VariationMetadata[];
+  /**
+   * Parts grouped by slot, see `PackParts`. Slots are stored in order of first appearance.
+   */
+  parts?: PartMetadata[];
+  metadata?: PackMetadata;
+}
+
+/**
+ * Integrity report for a CharPack file
+ */
+export interface VerifyResult {
+  /**
+   * True when the header, index, base image, patch pool and every variation and part are intact.
+   */
+  valid: boolean;
+  /**
+   * Format version of the file, or 0 if it is not a CharPack file.
+   */
+  version: number;
+  /**
+   * Whether the file carries checksums. Version 1 files only get a structural check.
+   */
+  checksummed: boolean;
+  /**
+   * Whether the pack is encrypted. Encrypted variations are checked against their checksums only.
+   */
+  encrypted: boolean;
+  header: boolean;
+  index: boolean;
+  /**
+   * Whether the base image and every keyframe are intact.
+   */
+  baseImage: boolean;
+  /**
+   * Whether the metadata section is intact (true if the pack has none).
+   */
+  metadata: boolean;
+  /**
+   * Whether the patch pool is intact (true if the pack has none).
+   */
+  pool: boolean;
+  /**
+   * Per-variation result, in index order. Empty if the header or index is unreadable.
+   */
+  variations: Array<{ name: string; valid: boolean }>;
+  /**
+   * Per-part result, in part table order.
+   */
+  parts: Array<{ slot: string; name: string; valid: boolean }>;
+  /**
+   * Names of the variations that failed verification, and `slot/name` of the parts.
+   */
+  corrupt: string[];
+  /**
+   * Reason the header or index could not be read, if any.
+   */
+  error?: string;
+}
+
+/**
+ * Size report for a CharPack file
+ */
+export interface InspectResult {
+  /**
+   * Format version of the file.
+   */
+  version: number;
+  encrypted: boolean;
+  fileSize: number;
+  width: number;
+  height: number;
+  channels: number;
+  variationCount: number;
+  /**
+   * Bytes reachable from the header: header, base images, patch pool, metadata, index and live variation blocks.
+   */
+  liveBytes: number;
+  /**
+   * Bytes no longer referenced by the index, e.g. blocks of removed variations.
+   * `compact` reclaims them.
+   */
+  deadBytes: number;
+  /**
+   * Number of base images, including keyframes.
+   */
+  baseCount: number;
+  /**
+   * Size of the compressed base images in the file.
+   */
+  baseBytes: number;
+  /**
+   * Size of the base images as raw pixels.
+   */
+  baseRawBytes: number;
+  /**
+   * Number of patches stored once in the patch pool and still referred to by a variation or part.
+   * Left out for an encrypted pack inspected without its key.
+   */
+  pooledPatches?: number;
+  /**
+   * Size of the patch pool section in the file.
+   */
+  poolBytes: number;
+  /**
+   * Bytes saved by storing shared patches once instead of in every variation block,
+   * counted before encryption. Left out for an encrypted pack inspected without its key.
+   */
+  dedupSavedBytes?: number;
+  variations: VariationInspection[];
+  /**
+   * Total size of every variation stored as its own PNG, with `InspectOptions.png`.
+   */
+  pngBytes?: number;
+  /**
+   * `fileSize / pngBytes`, below 1 when the pack is smaller than the PNGs, with `InspectOptions.png`.
+   */
+  ratio?: number;
+}
+
+/**
+ * Patch breakdown of a single variation, as returned by `inspect`.
+ * The patch figures are left out for an encrypted pack inspected without its key.
+ */
+export interface VariationInspection {
+  name: string;
+  patchCount?: number;
+  /**
+   * Pixels covered by patches.
+   */
+  patchArea?: number;
+  /**
+   * `patchArea` as a percentage of the image area.
+   */
+  patchAreaPercent?: number;
+  /**
+   * Size of the variation block in the file.
+   */
+  compressedBytes: number;
+  /**
+   * Base image the patches apply to: 0 for the base image, k for keyframe k.
+   * For a chained variation, the base image of its first parent.
+   */
+  base: number;
+  /**
+   * Variation the patches apply to, if chained.
+   */
+  parent?: string;
+  /**
+   * Blend mode of an overlay variation, see `VariationInput.overlay`.
+   */
+  overlay?: OverlayBlend;
 }
 
 /**
@@ -148,6 +736,6 @@ export interface RawImageData {
   width: number;
   height: number;
   channels: number; // 3 for RGB, 4 for RGBA
-  data: Buffer; // Raw pixel data
+  data: Uint8Array; // Raw pixel data
 }
 
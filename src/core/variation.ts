@@ -0,0 +1,58 @@
+/**
+ * Variation properties shared by the Node and browser builds
+ */
+
+import { ListOptions, OverlayBlend, VariationInfo, VariationInput, VariationProperties } from './types';
+import { InvalidInputError } from './errors';
+
+/**
+ * Split an `input` mapping value into the image path, the variation properties
+ * and the blend mode of an overlay
+ */
+export function splitVariationInput(entry: string | VariationInput): {
+  path: string;
+  properties?: VariationProperties;
+  overlay?: OverlayBlend;
+} {
+  if (typeof entry === 'string') {
+    return { path: entry };
+  }
+
+  const { path, overlay, ...properties } = entry;
+  if (overlay !== undefined && overlay !== 'alpha-over' && overlay !== 'multiply') {
+    throw new InvalidInputError(`Unknown overlay blend mode: ${overlay}`);
+  }
+  return { path, properties: Object.keys(properties).length > 0 ? properties : undefined, overlay };
+}
+
+/**
+ * List variations by name, optionally filtered by tags and with their properties.
+ * Works on index data only, so no patch has to be decoded.
+ */
+export function listVariations(
+  variations: Array<{ name: string; properties?: VariationProperties }>,
+  options: ListOptions = {}
+): string[] | VariationInfo[] {
+  const { tags = [], details = false } = options;
+
+  const matching = variations.filter((v) =>
+    tags.every((tag) => v.properties?.tags?.includes(tag))
+  );
+
+  if (!details) {
+    return matching.map((v) => v.name);
+  }
+  return matching.map((v) => ({ ...v.properties, name: v.name }));
+}
+
+/**
+ * Names of the parts of every slot, slots and parts in the order they are stored.
+ * Works on the part table only, so no patch has to be decoded.
+ */
+export function listSlots(parts: Array<{ slot: string; name: string }>): Record<string, string[]> {
+  const slots: Record<string, string[]> = {};
+  for (const part of parts) {
+    (slots[part.slot] ??= []).push(part.name);
+  }
+  return slots;
+}
@@ -5,9 +5,33 @@
 
 export { charpack } from './node/pack';
 export { unpack } from './node/unpack';
+export { verify } from './node/verify';
+export { inspect } from './node/inspect';
+export { compact } from './node/compact';
+export { sign, verifySignature } from './node/sign';
 export { extract, read, visualizeCompression, visualizeVariationPatches, visualizeVariationPatchesFromData } from './node/read';
 export { deserialize, parseHeaderWithIndex } from './core/format';
-export { applyPatches } from './core/diff';
+export { applyPatches } from './core/decode';
 export { toPNG } from './node/image-processor';
+export { isCodecSupported } from './core/compress';
+export {
+  CharPackError,
+  VariationNotFoundError,
+  DuplicateVariationError,
+  DimensionMismatchError,
+  CorruptFileError,
+  UnsupportedVersionError,
+  UnsupportedCodecError,
+  InvalidInputError,
+  ImageLoadError,
+  ImageEncodeError,
+  FileLockedError,
+  FetchError,
+  LimitExceededError,
+  DecryptionError,
+  SignatureError,
+  PartNotFoundError,
+} from './core/errors';
+export type { CharPackErrorCode } from './core/errors';
 
-export type { PackConfig, CharPackImage as CharPack, CharPack as MemoryCharPack } from './core/types';
+export type { PackConfig, CharPackImage as CharPack, CharPack as MemoryCharPack, VerifyResult, InspectResult, VariationInspection, CompressionCodec, CompressionOptions, PackMetadata, PackInput, VariationInput, VariationProperties, VariationInfo, ListOptions, ReadOptions, InspectOptions, ParseLimits, EncryptionOptions, SignatureResult, BaseSelection, ConsensusMethod, Anchor, Point, PackParts, PartSelection, OverlayBlend } from './core/types';
@@ -0,0 +1,18 @@
+/**
+ * Node.js compact functionality
+ */
+
+import { ReadOptions } from '../core/types';
+import { compactFile } from '../core/format';
+import { packCrypto, createEncryptor } from './crypto';
+
+/**
+ * Rewrite a CharPack file without the blocks left behind by removed variations
+ * and the pooled patches no variation uses any more.
+ * Patches are copied as they are, nothing is re-encoded. Encrypted packs keep
+ * their pool unless their key is given in `options.key`.
+ * Returns the number of bytes reclaimed (0 if there was nothing to reclaim).
+ */
+export async function compact(input: string, options: ReadOptions = {}): Promise<number> {
+  return compactFile(input, options, packCrypto, options.key ? createEncryptor(options.key) : undefined);
+}
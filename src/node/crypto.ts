@@ -0,0 +1,96 @@
+/**
+ * Node.js pack encryption and signing with node:crypto
+ */
+
+import {
+  KeyObject,
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  randomBytes,
+  sign,
+  verify,
+} from 'node:crypto';
+import { Buffer } from 'node:buffer';
+import { PackCrypto } from '../core/crypto';
+import { Encryptor, NONCE_SIZE, TAG_SIZE, checkKey } from '../core/encryption';
+import { PackSigner, PKCS8_PREFIX } from '../core/signature';
+import { InvalidInputError } from '../core/errors';
+
+/**
+ * SHA-256 digest of `data`
+ */
+function sha256(data: Uint8Array): Uint8Array {
+  return createHash('sha256').update(data).digest();
+}
+
+/**
+ * AES-256-GCM decryption of sealed sections ([nonce][ciphertext][tag]),
+ * SHA-256 and Ed25519 verification
+ */
+export const packCrypto: PackCrypto = {
+  decrypt: async (sealed, key) => {
+    const decipher = createDecipheriv('aes-256-gcm', key, sealed.subarray(0, NONCE_SIZE));
+    decipher.setAuthTag(sealed.subarray(sealed.length - TAG_SIZE));
+    return Buffer.concat([decipher.update(sealed.subarray(NONCE_SIZE, sealed.length - TAG_SIZE)), decipher.final()]);
+  },
+  sha256: async (data) => sha256(data),
+  verify: async (message, signature, publicKey) => {
+    const key = createPublicKey({ key: Buffer.from(publicKey), format: 'der', type: 'spki' });
+    return verify(null, message, key, signature);
+  },
+};
+
+/**
+ * Create an encryptor sealing every section with `key` and a fresh random nonce.
+ * The key is checked when the first section is sealed.
+ */
+export function createEncryptor(key: Uint8Array): Encryptor {
+  return (data) => {
+    checkKey(key);
+    const nonce = randomBytes(NONCE_SIZE);
+    const encipher = createCipheriv('aes-256-gcm', key, nonce);
+    const ciphertext = Buffer.concat([encipher.update(data), encipher.final()]);
+    return Buffer.concat([nonce, ciphertext, encipher.getAuthTag()]);
+  };
+}
+
+/**
+ * Load an Ed25519 private key: a 32-byte seed, a PEM string or a KeyObject
+ */
+function toPrivateKey(privateKey: Uint8Array | string | KeyObject): KeyObject {
+  let key: KeyObject;
+  try {
+    if (privateKey instanceof KeyObject) {
+      key = privateKey;
+    } else if (typeof privateKey === 'string') {
+      key = createPrivateKey(privateKey);
+    } else if (privateKey instanceof Uint8Array && privateKey.length === 32) {
+      key = createPrivateKey({ key: Buffer.concat([PKCS8_PREFIX, privateKey]), format: 'der', type: 'pkcs8' });
+    } else {
+      throw new InvalidInputError('Private key must be a 32-byte Ed25519 seed, a PEM string or a KeyObject');
+    }
+  } catch (error) {
+    if (error instanceof InvalidInputError) {
+      throw error;
+    }
+    throw new InvalidInputError(`Failed to load private key: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (key.type !== 'private' || key.asymmetricKeyType !== 'ed25519') {
+    throw new InvalidInputError('Private key must be an Ed25519 private key');
+  }
+  return key;
+}
+
+/**
+ * Create a signer for writing pack signatures with an Ed25519 private key
+ */
+export function createSigner(privateKey: Uint8Array | string | KeyObject): PackSigner {
+  const key = toPrivateKey(privateKey);
+  return {
+    sha256,
+    sign: (message) => sign(null, message, key),
+  };
+}
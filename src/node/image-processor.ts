@@ -4,6 +4,7 @@
 
 import sharp from 'sharp';
 import { RawImageData } from '../core/types';
+import type { ImageEncoder } from '../core/encoder';
 
 /**
  * Load image from file path and convert to raw pixel data
@@ -106,3 +107,7 @@ export async function toBase64(image: RawImageData): Promise<string> {
   return `data:image/png;base64,${pngBuffer.toString('base64')}`;
 }
 
+/**
+ * Image encoder of the Node.js build
+ */
+export const encoder: ImageEncoder<Buffer> = { png: toPNG, jpeg: toJPEG, webp: toWebP, base64: toBase64 };
@@ -0,0 +1,53 @@
+/**
+ * Node.js inspect functionality
+ */
+
+import * as fs from 'fs/promises';
+import { InspectOptions, InspectResult } from '../core/types';
+import { inspectBuffer } from '../core/format';
+import { createVariationResolver, decodePack } from '../core/decode';
+import { toPNG } from './image-processor';
+import { packCrypto } from './crypto';
+
+/**
+ * Describe the size and layout of a CharPack file or buffer, and compare the
+ * pack to one PNG per variation: `pngBytes` and `ratio` are always filled in
+ */
+export async function inspect(
+  input: string | Buffer,
+  options: InspectOptions & { png: true }
+): Promise<InspectResult & Required<Pick<InspectResult, 'pngBytes' | 'ratio'>>>;
+
+/**
+ * Describe the size and layout of a CharPack file or buffer: the base image,
+ * the patches of each variation and how many bytes are unreachable and could
+ * be compacted away. Nothing is decoded; without `options.key`, an encrypted
+ * pack is described by its layout only.
+ * With `options.png`, also compare the pack to one PNG per variation.
+ */
+export async function inspect(input: string | Buffer, options?: InspectOptions): Promise<InspectResult>;
+
+/**
+ * Implementation
+ */
+export async function inspect(input: string | Buffer, options: InspectOptions = {}): Promise<InspectResult> {
+  const buffer = typeof input === 'string' ? await fs.readFile(input) : input;
+  const result = await inspectBuffer(buffer, options, packCrypto);
+  if (!options.png) {
+    return result;
+  }
+
+  // Encode every variation as a standalone PNG to compare against
+  const charPackData = await decodePack(buffer, options, packCrypto);
+  const resolveImage = createVariationResolver(charPackData);
+  let pngBytes = 0;
+  for (const variation of charPackData.variations) {
+    pngBytes += (await toPNG(await resolveImage(variation))).length;
+  }
+
+  return {
+    ...result,
+    pngBytes,
+    ratio: pngBytes > 0 ? result.fileSize / pngBytes : 0,
+  };
+}
@@ -5,47 +5,77 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { glob } from 'glob';
-import { PackConfig, CharPackData, VariationMetadata } from '../core/types';
-import { calculateDiff } from '../core/diff';
-import { serialize } from '../core/format';
+import { PackConfig, CharPackData, RawImageData, VariationMetadata, PartMetadata, PackMetadata, PackInput, PackParts, VariationInput, VariationProperties, OverlayBlend, EncryptionOptions } from '../core/types';
+import { calculateDiff, calculateOverlay } from '../core/diff';
+import { serialize, VERSION } from '../core/format';
+import { resolveCompression } from '../core/codec';
+import { splitVariationInput } from '../core/variation';
+import { planBases, planParents } from '../core/base';
+import { applyPatches } from '../core/decode';
+import { checkKey } from '../core/encryption';
+import { withFileLock, writeFileAtomic } from '../core/file';
 import { loadImage } from './image-processor';
+import { createEncryptor } from './crypto';
+import { DimensionMismatchError, ImageLoadError, InvalidInputError } from '../core/errors';
 
 /**
- * Pack images into a CharPack file
+ * Pack images into a CharPack file.
+ * `parts` are stored by slot next to the variations and diffed against the base image.
+ * Overlay inputs (see `VariationInput.overlay`) are stored on their own, not diffed.
  */
 export async function charpack(options: {
-  input: string | string[] | Record<string, string>;
+  input: PackInput;
   output: string;
   config?: PackConfig;
+  metadata?: PackMetadata;
+  encryption?: EncryptionOptions;
+  parts?: PackParts;
 }): Promise<void> {
-  const { input, output, config = {} } = options;
+  const { input, output, config = {}, metadata, encryption } = options;
+
+  // Fail fast on an unknown codec or a bad key before loading any image
+  const compression = resolveCompression(config.compression);
+  const encryptor = encryption ? createEncryptor(checkKey(encryption.key)) : undefined;
 
   // Resolve input to name-path mapping
   const imageMap = await resolveInput(input, config);
 
   if (Object.keys(imageMap).length === 0) {
-    throw new Error('No images found to pack');
+    throw new InvalidInputError('No images found to pack');
   }
 
   // Load all images
-  const images: Array<{ name: string; data: any }> = [];
-  for (const [name, filePath] of Object.entries(imageMap)) {
+  const images: Array<{ name: string; data: any; properties?: VariationProperties; overlay?: OverlayBlend }> = [];
+  for (const [name, entry] of Object.entries(imageMap)) {
+    const { path: filePath, properties, overlay } = splitVariationInput(entry);
     try {
       const imageData = await loadImage(filePath);
-      images.push({ name, data: imageData });
+      images.push({ name, data: imageData, properties, overlay });
     } catch (error) {
-      throw new Error(`Failed to load image ${filePath}: ${error}`);
+      throw new ImageLoadError(filePath, { cause: error });
+    }
+  }
+
+  // Load part images, which are checked like the others
+  const partImages: Array<{ name: string; slot: string; part: string; data: RawImageData }> = [];
+  for (const [slot, slotParts] of Object.entries(options.parts ?? {})) {
+    for (const [part, filePath] of Object.entries(slotParts)) {
+      try {
+        partImages.push({ name: `${slot}/${part}`, slot, part, data: await loadImage(filePath) });
+      } catch (error) {
+        throw new ImageLoadError(filePath, { cause: error });
+      }
     }
   }
 
   // Validate all images have same dimensions
   const firstImage = images[0].data;
-  for (const img of images.slice(1)) {
+  for (const img of [...images.slice(1), ...partImages]) {
     if (
       img.data.width !== firstImage.width ||
       img.data.height !== firstImage.height
     ) {
-      throw new Error(
+      throw new DimensionMismatchError(
         'All images must have the same dimensions. ' +
         `Expected ${firstImage.width}x${firstImage.height}, ` +
         `but got ${img.data.width}x${img.data.height} for ${img.name}`
@@ -53,47 +83,99 @@ export async function charpack(options: {
     }
   }
 
-  // Use first image as base
-  const baseImage = firstImage;
+  // Pick or build the base image, see PackConfig.baseSelection, and any keyframes.
+  // Every full image is diffed against its base; a synthetic base is not a variation.
+  const fullImages = images.filter((img) => !img.overlay);
+  if (fullImages.length === 0) {
+    throw new InvalidInputError('At least one image must not be an overlay');
+  }
+  const plan = planBases(fullImages, config);
+  const { bases, assignment } = plan;
+  const baseImage = bases[0];
+  const parents = config.chainVariations ? planParents(fullImages, plan, config) : fullImages.map(() => -1);
 
-  // Calculate diffs for all variations
+  // Calculate diffs for all variations. Chained variations are diffed against
+  // their parent as decoded, which differs from its input with lossy thresholds.
   const variations: VariationMetadata[] = [];
+  const decoded: RawImageData[] = [];
   for (const img of images) {
+    if (img.overlay) {
+      const patches = await calculateOverlay(
+        img.data,
+        img.overlay,
+        config.blockSize ?? 32,
+        img.name, // imageName for debugging
+        { encodings: config.patchEncodings, compression }
+      );
+      variations.push({ name: img.name, patches, properties: img.properties });
+      continue;
+    }
+
+    const i = fullImages.indexOf(img);
+    const parent = parents[i];
+    const reference = parent < 0 ? bases[assignment[i]] : decoded[parent];
     const patches = await calculateDiff(
-      baseImage,
+      reference,
       img.data,
       config.blockSize ?? 32,
       config.diffThreshold ?? 0,
       config.colorDistanceThreshold ?? 0,
       config.diffToleranceRatio ?? 0,
-      img.name // imageName for debugging
+      img.name, // imageName for debugging
+      { encodings: config.patchEncodings, compression }
+    );
+    if (parent < 0) {
+      variations.push({ name: img.name, patches, properties: img.properties, base: assignment[i] });
+    } else {
+      variations.push({ name: img.name, patches, properties: img.properties, parent: fullImages[parent].name });
+    }
+    if (config.chainVariations) {
+      decoded.push(await applyPatches(reference, patches));
+    }
+  }
+
+  // Parts are combined at read time, so they all apply to the base image
+  const parts: PartMetadata[] = [];
+  for (const part of partImages) {
+    const patches = await calculateDiff(
+      baseImage,
+      part.data,
+      config.blockSize ?? 32,
+      config.diffThreshold ?? 0,
+      config.colorDistanceThreshold ?? 0,
+      config.diffToleranceRatio ?? 0,
+      part.name, // imageName for debugging
+      { encodings: config.patchEncodings, compression }
     );
-    variations.push({ name: img.name, patches });
+    parts.push({ slot: part.slot, name: part.part, patches });
   }
 
   // Create CharPack data
   const charPackData: CharPackData = {
-    version: 1,
+    version: VERSION,
     width: baseImage.width,
     height: baseImage.height,
     format: 'raw',
     baseImage: baseImage.data,
+    keyframes: bases.slice(1).map((keyframe) => keyframe.data),
     variations,
+    parts,
+    metadata,
   };
 
   // Serialize and save
-  const buffer = serialize(charPackData);
+  const buffer = serialize(charPackData, compression, encryptor);
   await fs.mkdir(path.dirname(output), { recursive: true });
-  await fs.writeFile(output, buffer);
+  await withFileLock(output, () => writeFileAtomic(output, buffer));
 }
 
 /**
  * Resolve input to name-path mapping
  */
 async function resolveInput(
-  input: string | string[] | Record<string, string>,
+  input: PackInput,
   config: PackConfig
-): Promise<Record<string, string>> {
+): Promise<Record<string, string | VariationInput>> {
   if (typeof input === 'string') {
     // Glob pattern
     const files = await glob(input, { nodir: true });
@@ -102,7 +184,7 @@ async function resolveInput(
     // Array of paths
     return filesToMap(input, config);
   } else {
-    // Already a mapping
+    // Already a mapping, values may carry variation properties
     return input;
   }
 }
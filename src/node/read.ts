@@ -5,15 +5,34 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { glob } from 'glob';
-import { CharPackImage, CharPack, RawImageData, Rectangle, PackConfig, CharPackData, VariationMetadata } from '../core/types';
-import { deserialize, parseHeaderWithIndex, VariationIndex, serialize, addVariationsToFile, removeVariationsFromFile } from '../core/format';
-import { applyPatches, calculateDiff } from '../core/diff';
-import { decompress } from '../core/compress';
-import { toPNG, toJPEG, toWebP, toBase64, loadImage } from './image-processor';
+import { CharPackImage, CharPack, RawImageData, Rectangle, PackConfig, CharPackData, VariationMetadata, DiffPatch, PackMetadata, PackInput, VariationInput, ListOptions, ReadOptions, PartSelection, OverlayBlend } from '../core/types';
+import { deserialize, parseHeaderWithIndexFromFile, VariationIndex, serialize, addVariationsToFile, removeVariationsFromFile, renameVariationInFile, replaceVariationInFile, detachVariationsInFile, reorderVariationsInFile, setMetadataInFile, compactFile, VERSION } from '../core/format';
+import { calculateDiff, calculateOverlay } from '../core/diff';
+import {
+  PackHeader,
+  applyPatches,
+  baseImageOf,
+  composeParts,
+  selectParts,
+  stackLayers,
+  createVariationResolver,
+  decodePack,
+  openVariationBase,
+  readVariationBlock,
+  variationChain,
+} from '../core/decode';
+import { resolveCompression } from '../core/codec';
+import { splitVariationInput, listVariations, listSlots } from '../core/variation';
+import { planBases, closestBase } from '../core/base';
+import { withFileLock, writeFileAtomic } from '../core/file';
+import { encoder, loadImage } from './image-processor';
+import { packCrypto, createEncryptor } from './crypto';
+import { encodeImage, encodeVariations } from '../core/encoder';
+import { DimensionMismatchError, DuplicateVariationError, ImageLoadError, InvalidInputError, VariationNotFoundError } from '../core/errors';
 
 // Re-export internal functions for visualization purposes
 export { deserialize, parseHeaderWithIndex } from '../core/format';
-export { applyPatches } from '../core/diff';
+export { applyPatches } from '../core/decode';
 export { toPNG } from './image-processor';
 
 /**
@@ -22,41 +41,16 @@ export { toPNG } from './image-processor';
  */
 async function extractVariationBlock(
   fileHandle: fs.FileHandle,
-  variation: VariationIndex
-): Promise<{ name: string; patches: any[] }> {
+  variation: VariationIndex,
+  pack: PackHeader,
+  options: ReadOptions
+): Promise<{ name: string; patches: DiffPatch[] }> {
   // Read the variation data block
   const blockBuffer = Buffer.allocUnsafe(variation.size);
-  await fileHandle.read(blockBuffer, 0, variation.size, variation.offset);
-
-  let offset = 0;
-
-  // Parse patch count
-  const patchCount = blockBuffer.readUInt32LE(offset);
-  offset += 4;
-
-  const patches: any[] = [];
-  for (let i = 0; i < patchCount; i++) {
-    const x = blockBuffer.readUInt32LE(offset);
-    offset += 4;
-    const y = blockBuffer.readUInt32LE(offset);
-    offset += 4;
-    const patchWidth = blockBuffer.readUInt32LE(offset);
-    offset += 4;
-    const patchHeight = blockBuffer.readUInt32LE(offset);
-    offset += 4;
-    const dataSize = blockBuffer.readUInt32LE(offset);
-    offset += 4;
-
-    // Decompress patch data
-    const compData = blockBuffer.subarray(offset, offset + dataSize);
-    offset += dataSize;
-    const data = decompress(compData);
-
-    patches.push({
-      rect: { x, y, width: patchWidth, height: patchHeight },
-      data: Buffer.from(data),
-    });
-  }
+  const { bytesRead } = await fileHandle.read(blockBuffer, 0, variation.size, variation.offset);
+
+  // Verify checksum, decrypt and parse patches
+  const patches = await readVariationBlock(variation, blockBuffer.subarray(0, bytesRead), pack, options, packCrypto);
 
   return { name: variation.name, patches };
 }
@@ -65,9 +59,9 @@ async function extractVariationBlock(
  * Helper function to resolve input images to name-path mapping
  */
 async function resolveInputForAdd(
-  input: string | string[] | Record<string, string>,
+  input: PackInput,
   config: PackConfig = {}
-): Promise<Record<string, string>> {
+): Promise<Record<string, string | VariationInput>> {
   if (typeof input === 'string') {
     // Glob pattern
     const files = await glob(input, { nodir: true });
@@ -76,7 +70,7 @@ async function resolveInputForAdd(
     // Array of paths
     return filesToMap(input, config);
   } else {
-    // Already a mapping
+    // Already a mapping, values may carry variation properties
     return input;
   }
 }
@@ -118,76 +112,77 @@ async function repackCharPack(
   config: PackConfig = {}
 ): Promise<CharPackData> {
   if (images.length === 0) {
-    throw new Error('Cannot repack CharPack with no images');
+    throw new InvalidInputError('Cannot repack CharPack with no images');
   }
 
-  // Use first image as base (this may change the base image)
-  const baseImage = images[0].data;
+  // Pick or build the base images again (this may change the base image)
+  const { bases, assignment } = planBases(images, config);
+  const baseImage = bases[0];
 
   // Calculate diffs for all variations
   const variations: VariationMetadata[] = [];
-  for (const img of images) {
+  for (const [i, img] of images.entries()) {
     const patches = await calculateDiff(
-      baseImage,
+      bases[assignment[i]],
       img.data,
       config.blockSize ?? 32,
       config.diffThreshold ?? 0,
       config.colorDistanceThreshold ?? 0,
       config.diffToleranceRatio ?? 0,
-      img.name // imageName for debugging
+      img.name, // imageName for debugging
+      { encodings: config.patchEncodings, compression: resolveCompression(config.compression) }
     );
-    variations.push({ name: img.name, patches });
+    variations.push({ name: img.name, patches, base: assignment[i] });
   }
 
   // Create new CharPack data
   return {
-    version: 1,
+    version: VERSION,
     width: baseImage.width,
     height: baseImage.height,
     format: 'raw',
     baseImage: baseImage.data,
+    keyframes: bases.slice(1).map((keyframe) => keyframe.data),
     variations,
   };
 }
 
 /**
  * Extract a single variation from CharPack file using random access
- * Reads only the header and the requested variation block for efficiency
+ * Reads only the header, base image, index and the requested variation block,
+ * with the blocks of its parents and its keyframe if it has any
  */
-export async function extract(input: string, variation: string): Promise<CharPackImage> {
+export async function extract(input: string, variation: string, options: ReadOptions = {}): Promise<CharPackImage> {
   // Open file for random access
   const fileHandle = await fs.open(input, 'r');
 
   try {
-    // Read header and index table (much smaller than full file)
-    const headerBuffer = await fileHandle.readFile();
-    const { width, height, channels, baseImage, variations: index } =
-      parseHeaderWithIndex(headerBuffer);
+    // Read header and index table with positional reads (much smaller than full file)
+    const header = await parseHeaderWithIndexFromFile(fileHandle, options, packCrypto);
+    const { variations: index, metadata } = header;
 
     // Find the requested variation in index
     const varEntry = index.find((v) => v.name === variation);
     if (!varEntry) {
-      throw new Error(`Variation '${variation}' not found in CharPack`);
+      throw new VariationNotFoundError(variation);
     }
 
-    // Extract only the requested variation's patch data
-    const varMeta = await extractVariationBlock(fileHandle, varEntry);
-
-    const baseImageData: RawImageData = {
-      width,
-      height,
-      channels,
-      data: baseImage,
+    // Keyframes are read like variation blocks, only when needed
+    const chain = variationChain(index, varEntry);
+    const readKeyframe = async (keyframe: { offset: number; size: number }) => {
+      const keyframeBuffer = Buffer.allocUnsafe(keyframe.size);
+      const { bytesRead } = await fileHandle.read(keyframeBuffer, 0, keyframe.size, keyframe.offset);
+      return keyframeBuffer.subarray(0, bytesRead);
     };
+    let image = await openVariationBase(header, chain[0], readKeyframe, options, packCrypto);
 
-    const image = await applyPatches(baseImageData, varMeta.patches);
+    // Extract only the patch data of the requested variation and its parents, first parent first
+    for (const entry of chain) {
+      const varMeta = await extractVariationBlock(fileHandle, entry, header, options);
+      image = await applyPatches(image, varMeta.patches);
+    }
 
-    return {
-      png: () => toPNG(image),
-      jpeg: () => toJPEG(image),
-      webp: () => toWebP(image),
-      base64: () => toBase64(image),
-    };
+    return encodeImage(image, encoder, { metadata, properties: varEntry.properties });
   } finally {
     await fileHandle.close();
   }
@@ -196,39 +191,134 @@ export async function extract(input: string, variation: string): Promise<CharPac
 /**
  * Read entire CharPack into memory for efficient multi-variation reading and modification
  */
-export async function read(input: string): Promise<CharPack> {
+export async function read(input: string, options: ReadOptions = {}): Promise<CharPack> {
   let buffer = await fs.readFile(input);
-  let charPackData = deserialize(buffer);
+  let charPackData = await decodePack(buffer, options, packCrypto);
   let filePath = input;
+  // New blocks of an encrypted pack are sealed with the key it was opened with
+  const encryptor = options.key ? createEncryptor(options.key) : undefined;
+  // Edits drop the signature, so once this handle has edited the pack it is
+  // re-read without requiring one; until then refresh() still checks it
+  let readOptions = options;
+  const markEdited = () => {
+    readOptions = { ...options, publicKey: undefined };
+  };
 
-  const baseImage: RawImageData = {
-    width: charPackData.width,
-    height: charPackData.height,
-    channels: charPackData.baseImage.length / (charPackData.width * charPackData.height),
-    data: charPackData.baseImage,
+  // Decoded parents are cached until the pack data changes
+  let resolver = { data: charPackData, resolve: createVariationResolver(charPackData) };
+  const resolveImage = (varMeta: VariationMetadata): Promise<RawImageData> => {
+    if (resolver.data !== charPackData) {
+      resolver = { data: charPackData, resolve: createVariationResolver(charPackData) };
+    }
+    return resolver.resolve(varMeta);
   };
 
-  const getImage = async (variation: string): Promise<RawImageData> => {
+  const findVariation = (variation: string): VariationMetadata => {
     const varMeta = charPackData.variations.find((v) => v.name === variation);
     if (!varMeta) {
-      throw new Error(`Variation '${variation}' not found in CharPack`);
+      throw new VariationNotFoundError(variation);
     }
-    return applyPatches(baseImage, varMeta.patches);
+    return varMeta;
+  };
+
+  // Overlays named after the first variation are stacked on it
+  const getImage = (variation: string | string[]): Promise<RawImageData> => {
+    return stackLayers(
+      variation,
+      (name) => resolveImage(findVariation(name)),
+      async (name) => findVariation(name).patches
+    );
+  };
+
+  // Load an image and diff it against the stored base giving the smallest patches.
+  // An overlay is stored on its own instead.
+  const diffImage = async (
+    name: string,
+    imagePath: string,
+    packConfig?: PackConfig,
+    overlay?: OverlayBlend
+  ): Promise<{ patches: DiffPatch[]; base: number }> => {
+    let imageData: RawImageData;
+    try {
+      imageData = await loadImage(imagePath);
+    } catch (error) {
+      throw new ImageLoadError(imagePath, { cause: error });
+    }
+
+    // Validate dimensions match
+    if (imageData.width !== charPackData.width || imageData.height !== charPackData.height) {
+      throw new DimensionMismatchError(
+        `Image dimensions ${imageData.width}x${imageData.height} don't match CharPack dimensions ${charPackData.width}x${charPackData.height}`
+      );
+    }
+
+    if (overlay) {
+      const patches = await calculateOverlay(
+        imageData,
+        overlay,
+        packConfig?.blockSize ?? 32,
+        name, // imageName for debugging
+        { encodings: packConfig?.patchEncodings, compression: resolveCompression(packConfig?.compression) }
+      );
+      return { patches, base: 0 };
+    }
+    return diffAgainstBases(name, imageData, packConfig);
+  };
+
+  // Diff an image against the closest stored base image
+  const diffAgainstBases = async (
+    name: string,
+    imageData: RawImageData,
+    packConfig?: PackConfig
+  ): Promise<{ patches: DiffPatch[]; base: number }> => {
+    const bases = [charPackData.baseImage, ...(charPackData.keyframes ?? [])].map((image) => baseImageOf(charPackData, image));
+    const base = closestBase(bases, imageData, packConfig);
+    const patches = await calculateDiff(
+      bases[base],
+      imageData,
+      packConfig?.blockSize ?? 32,
+      packConfig?.diffThreshold ?? 0,
+      packConfig?.colorDistanceThreshold ?? 0,
+      packConfig?.diffToleranceRatio ?? 0,
+      name, // imageName for debugging
+      { encodings: packConfig?.patchEncodings, compression: resolveCompression(packConfig?.compression) }
+    );
+    return { patches, base };
+  };
+
+  // Store the variations diffed against `name` against a base image instead,
+  // keeping their pixels, so that `name` can be replaced or removed
+  const detachChildren = async (name: string, packConfig?: PackConfig) => {
+    const children = charPackData.variations.filter((v) => v.parent === name);
+    if (children.length === 0) {
+      return;
+    }
+
+    const detached = new Map<VariationMetadata, VariationMetadata>();
+    for (const child of children) {
+      const { patches, base } = await diffAgainstBases(child.name, await resolveImage(child), packConfig);
+      detached.set(child, { name: child.name, patches, properties: child.properties, base });
+    }
+    await detachVariationsInFile(filePath, [...detached.values()], resolveCompression(packConfig?.compression), encryptor);
+    markEdited();
+
+    charPackData = {
+      ...charPackData,
+      version: VERSION,
+      variations: charPackData.variations.map(v => detached.get(v) ?? v),
+    };
   };
 
   const writeBackToDisk = async (newData: CharPackData) => {
     const newBuffer = serialize(newData);
-    await fs.writeFile(filePath, newBuffer);
+    await withFileLock(filePath, () => writeFileAtomic(filePath, newBuffer));
     // Update in-memory data
     charPackData = newData;
     buffer = Buffer.from(newBuffer);
   };
 
   return {
-    png: async (variation: string) => toPNG(await getImage(variation)),
-    jpeg: async (variation: string) => toJPEG(await getImage(variation)),
-    webp: async (variation: string) => toWebP(await getImage(variation)),
-    base64: async (variation: string) => toBase64(await getImage(variation)),
+    ...encodeVariations(getImage, encoder),
     dispose: () => {
       // Release references to help GC
       (charPackData as any) = null;
@@ -237,79 +327,153 @@ export async function read(input: string): Promise<CharPack> {
     refresh: async () => {
       // Reload from disk
       buffer = await fs.readFile(filePath);
-      charPackData = deserialize(buffer);
+      charPackData = await decodePack(buffer, readOptions, packCrypto);
     },
-    add: async (input: string | string[] | Record<string, string>, packConfig?: PackConfig) => {
+    add: async (input: PackInput, packConfig?: PackConfig) => {
       // Resolve input to name-path mapping
       const imageMap = await resolveInputForAdd(input);
 
       // Load new images
       const newVariations: VariationMetadata[] = [];
-      for (const [name, filePath] of Object.entries(imageMap)) {
+      for (const [name, entry] of Object.entries(imageMap)) {
+        const { path: filePath, properties, overlay } = splitVariationInput(entry);
+
         // Check if variation already exists
         if (charPackData.variations.some(v => v.name === name)) {
-          throw new Error(`Variation '${name}' already exists in CharPack`);
+          throw new DuplicateVariationError(name);
         }
 
-        try {
-          const imageData = await loadImage(filePath);
-          // Validate dimensions match
-          if (imageData.width !== charPackData.width || imageData.height !== charPackData.height) {
-            throw new Error(
-              `Image dimensions ${imageData.width}x${imageData.height} don't match CharPack dimensions ${charPackData.width}x${charPackData.height}`
-            );
-          }
-
-          // Calculate patches for the new variation against the current base image
-          const patches = await calculateDiff(
-            baseImage,
-            imageData,
-            packConfig?.blockSize ?? 32,
-            packConfig?.diffThreshold ?? 0,
-            packConfig?.colorDistanceThreshold ?? 0,
-            packConfig?.diffToleranceRatio ?? 0,
-            name // imageName for debugging
-          );
-
-          newVariations.push({ name, patches });
-        } catch (error) {
-          throw new Error(`Failed to load image ${filePath}: ${error}`);
-        }
+        const { patches, base } = await diffImage(name, filePath, packConfig, overlay);
+        newVariations.push({ name, patches, properties, base });
       }
 
       if (newVariations.length === 0) {
         return; // Nothing to add
       }
 
-      // Use incremental modification instead of full repack
-      const channels = baseImage.channels;
-      await addVariationsToFile(filePath, newVariations, charPackData.baseImage, charPackData.width, charPackData.height, channels);
+      // Append the new blocks instead of rewriting the pack
+      await addVariationsToFile(filePath, newVariations, resolveCompression(packConfig?.compression), encryptor);
+      markEdited();
 
-      // Update in-memory data by re-reading from disk
-      buffer = await fs.readFile(filePath);
-      charPackData = deserialize(buffer);
+      // Update in-memory data directly, existing variations are unchanged on disk
+      charPackData = {
+        ...charPackData,
+        version: VERSION,
+        variations: [...charPackData.variations, ...newVariations],
+      };
     },
-    remove: async (variation: string) => {
+    remove: async (variation: string, packConfig?: PackConfig) => {
       // Check if variation exists
       const variationExists = charPackData.variations.some(v => v.name === variation);
       if (!variationExists) {
-        throw new Error(`Variation '${variation}' not found in CharPack`);
+        throw new VariationNotFoundError(variation);
       }
 
       // Check if this would remove all variations
       if (charPackData.variations.length <= 1) {
-        throw new Error('Cannot remove the last variation from CharPack');
+        throw new InvalidInputError('Cannot remove the last variation from CharPack');
       }
 
       // Use incremental modification instead of full repack
+      await detachChildren(variation, packConfig);
       await removeVariationsFromFile(filePath, [variation]);
+      markEdited();
+
+      // Update in-memory data by re-reading from disk
+      buffer = await fs.readFile(filePath);
+      charPackData = await decodePack(buffer, readOptions, packCrypto);
+    },
+    rename: async (oldName: string, newName: string) => {
+      if (!charPackData.variations.some(v => v.name === oldName)) {
+        throw new VariationNotFoundError(oldName);
+      }
+      if (oldName !== newName && charPackData.variations.some(v => v.name === newName)) {
+        throw new DuplicateVariationError(newName);
+      }
+
+      // Only the index is rewritten
+      await renameVariationInFile(filePath, oldName, newName);
+      markEdited();
+
+      charPackData = {
+        ...charPackData,
+        version: VERSION,
+        // Children follow their parent
+        variations: charPackData.variations.map(v => {
+          if (v.name === oldName) {
+            return { ...v, name: newName };
+          }
+          return v.parent === oldName ? { ...v, parent: newName } : v;
+        }),
+      };
+    },
+    replace: async (variation: string, image: string | VariationInput, packConfig?: PackConfig) => {
+      const current = charPackData.variations.find(v => v.name === variation);
+      if (!current) {
+        throw new VariationNotFoundError(variation);
+      }
+
+      const { path: imagePath, properties, overlay } = splitVariationInput(image);
+      const { patches, base } = await diffImage(variation, imagePath, packConfig, overlay);
+      await detachChildren(variation, packConfig);
+      const replacement: VariationMetadata = { name: variation, patches, properties: properties ?? current.properties, base };
+
+      // Append the new block, the variation keeps its position
+      await replaceVariationInFile(filePath, replacement, resolveCompression(packConfig?.compression), encryptor);
+      markEdited();
+
+      charPackData = {
+        ...charPackData,
+        version: VERSION,
+        variations: charPackData.variations.map(v => v.name === variation ? replacement : v),
+      };
+    },
+    reorder: async (names: string[]) => {
+      // Only the index is rewritten, validation happens under the file lock
+      await reorderVariationsInFile(filePath, names);
+      markEdited();
+
+      charPackData = {
+        ...charPackData,
+        version: VERSION,
+        variations: names.map(name => charPackData.variations.find(v => v.name === name)!),
+      };
+    },
+    // Properties live in the index entries, so listing never touches patch data
+    list: (async (options?: ListOptions) => {
+      return listVariations(charPackData.variations, options);
+    }) as CharPack['list'],
+    compose: async (selection: PartSelection) => {
+      const parts = selectParts(charPackData.parts ?? [], selection);
+      const image = await composeParts(baseImageOf(charPackData), parts.map((part) => part.patches));
+      return encodeImage(image, encoder, { metadata: charPackData.metadata });
+    },
+    // Slots live in the part table, so listing never touches patch data
+    slots: async () => {
+      return listSlots(charPackData.parts ?? []);
+    },
+    metadata: async () => {
+      return charPackData.metadata;
+    },
+    setMetadata: async (metadata: PackMetadata | undefined) => {
+      // Only the metadata section changes, blocks are copied verbatim
+      await setMetadataInFile(filePath, metadata);
+      markEdited();
 
       // Update in-memory data by re-reading from disk
       buffer = await fs.readFile(filePath);
-      charPackData = deserialize(buffer);
+      charPackData = await decodePack(buffer, readOptions, packCrypto);
     },
-    list: async () => {
-      return charPackData.variations.map(v => v.name);
+    compact: async () => {
+      const reclaimed = await compactFile(filePath, readOptions, packCrypto, encryptor);
+      if (reclaimed > 0) {
+        markEdited();
+      }
+
+      // Update in-memory data by re-reading from disk
+      buffer = await fs.readFile(filePath);
+      charPackData = await decodePack(buffer, readOptions, packCrypto);
+      return reclaimed;
     },
   };
 }
@@ -341,12 +505,7 @@ export async function visualizeCompression(input: string): Promise<CharPackImage
   // Create visualization image by drawing gray overlays on base image
   const visualizationImage = createCompressionVisualization(baseImage, allRects);
 
-  return {
-    png: () => toPNG(visualizationImage),
-    jpeg: () => toJPEG(visualizationImage),
-    webp: () => toWebP(visualizationImage),
-    base64: () => toBase64(visualizationImage),
-  };
+  return encodeImage(visualizationImage, encoder);
 }
 
 /**
@@ -366,30 +525,18 @@ export async function visualizeVariationPatches(input: string, variationName: st
  * This version avoids re-reading the file if data is already available
  */
 export async function visualizeVariationPatchesFromData(charPackData: any, variationName: string): Promise<CharPackImage> {
-  const baseImage: RawImageData = {
-    width: charPackData.width,
-    height: charPackData.height,
-    channels: charPackData.baseImage.length / (charPackData.width * charPackData.height),
-    data: charPackData.baseImage,
-  };
-
   const variation = charPackData.variations.find((v: any) => v.name === variationName);
   if (!variation) {
-    throw new Error(`Variation '${variationName}' not found in CharPack`);
+    throw new VariationNotFoundError(variationName);
   }
 
   // Compose the full variation image first to use as visualization background
-  const variationImage = applyPatches(baseImage, variation.patches);
+  const variationImage = createVariationResolver(charPackData)(variation);
 
   // Create visualization highlighting this variation's patches on top of the variation image
   const visualizationImage = createVariationPatchesVisualization(await variationImage, variation.patches);
 
-  return {
-    png: () => toPNG(visualizationImage),
-    jpeg: () => toJPEG(visualizationImage),
-    webp: () => toWebP(visualizationImage),
-    base64: () => toBase64(visualizationImage),
-  };
+  return encodeImage(visualizationImage, encoder);
 }
 
 /**
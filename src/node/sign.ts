@@ -0,0 +1,34 @@
+/**
+ * Node.js signing functionality
+ */
+
+import * as fs from 'fs/promises';
+import type { KeyObject } from 'node:crypto';
+import { SignatureResult } from '../core/types';
+import { signFile } from '../core/format';
+import { readLayout, sliceVariationBlock, sliceKeyframe } from '../core/decode';
+import { verifyBufferSignature } from '../core/signature';
+import { packCrypto, createSigner } from './crypto';
+
+/**
+ * Sign a CharPack file with an Ed25519 private key (a 32-byte seed, a PEM
+ * string or a KeyObject), replacing any previous signature.
+ * Editing the pack afterwards invalidates the signature.
+ */
+export async function sign(input: string, privateKey: Uint8Array | string | KeyObject): Promise<void> {
+  await signFile(input, createSigner(privateKey));
+}
+
+/**
+ * Check that a CharPack file or buffer is signed by the holder of an Ed25519
+ * public key (32 raw bytes or PEM) and unchanged since.
+ * Reports an unsigned or badly signed pack instead of throwing.
+ */
+export async function verifySignature(input: string | Buffer, publicKey: Uint8Array | string): Promise<SignatureResult> {
+  const buffer = typeof input === 'string' ? await fs.readFile(input) : input;
+  const layout = readLayout(buffer);
+  const blocks = layout.variations.map((entry) => sliceVariationBlock(buffer, entry));
+  const keyframes = layout.keyframes.map((keyframe) => sliceKeyframe(buffer, keyframe));
+  const parts = layout.parts.map((part) => sliceVariationBlock(buffer, part));
+  return verifyBufferSignature(layout, blocks, keyframes, parts, publicKey, packCrypto);
+}
@@ -5,9 +5,9 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { deserialize } from '../core/format';
-import { applyPatches } from '../core/diff';
+import { createVariationResolver } from '../core/decode';
 import { toPNG } from './image-processor';
-import { RawImageData } from '../core/types';
+import { InvalidInputError, VariationNotFoundError } from '../core/errors';
 
 /**
  * Unpack CharPack file to directory (all variations)
@@ -42,13 +42,7 @@ export async function unpack(
   // Read and deserialize CharPack file
   const buffer = await fs.readFile(input);
   const charPackData = deserialize(buffer);
-
-  const baseImage: RawImageData = {
-    width: charPackData.width,
-    height: charPackData.height,
-    channels: charPackData.baseImage.length / (charPackData.width * charPackData.height),
-    data: charPackData.baseImage,
-  };
+  const resolveImage = createVariationResolver(charPackData);
 
   // Case 1: Unpack all to directory
   if (typeof output === 'string' && !variation) {
@@ -56,7 +50,7 @@ export async function unpack(
 
     const result: Record<string, string> = {};
     for (const varMeta of charPackData.variations) {
-      const image = await applyPatches(baseImage, varMeta.patches);
+      const image = await resolveImage(varMeta);
       const pngBuffer = await toPNG(image);
       const outputPath = path.join(output, `${varMeta.name}.png`);
       await fs.writeFile(outputPath, pngBuffer);
@@ -69,10 +63,10 @@ export async function unpack(
   if (typeof output === 'string' && variation) {
     const varMeta = charPackData.variations.find((v) => v.name === variation);
     if (!varMeta) {
-      throw new Error(`Variation '${variation}' not found in CharPack`);
+      throw new VariationNotFoundError(variation);
     }
 
-    const image = await applyPatches(baseImage, varMeta.patches);
+    const image = await resolveImage(varMeta);
     const pngBuffer = await toPNG(image);
     await fs.mkdir(path.dirname(output), { recursive: true });
     await fs.writeFile(output, pngBuffer);
@@ -85,10 +79,10 @@ export async function unpack(
     for (const [varName, outputPath] of Object.entries(output)) {
       const varMeta = charPackData.variations.find((v) => v.name === varName);
       if (!varMeta) {
-        throw new Error(`Variation '${varName}' not found in CharPack`);
+        throw new VariationNotFoundError(varName);
       }
 
-      const image = await applyPatches(baseImage, varMeta.patches);
+      const image = await resolveImage(varMeta);
       const pngBuffer = await toPNG(image);
       await fs.mkdir(path.dirname(outputPath), { recursive: true });
       await fs.writeFile(outputPath, pngBuffer);
@@ -97,6 +91,6 @@ export async function unpack(
     return result;
   }
 
-  throw new Error('Invalid unpack arguments');
+  throw new InvalidInputError('Invalid unpack arguments');
 }
 
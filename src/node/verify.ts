@@ -0,0 +1,16 @@
+/**
+ * Node.js verify functionality
+ */
+
+import * as fs from 'fs/promises';
+import { VerifyResult } from '../core/types';
+import { verifyBuffer } from '../core/format';
+
+/**
+ * Check the integrity of a CharPack file or buffer.
+ * Reports which sections and variations are corrupt instead of throwing.
+ */
+export async function verify(input: string | Buffer): Promise<VerifyResult> {
+  const buffer = typeof input === 'string' ? await fs.readFile(input) : input;
+  return verifyBuffer(buffer);
+}
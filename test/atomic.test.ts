@@ -0,0 +1,213 @@
+/**
+ * Test atomic writes and file locking
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { charpack, compact, read, FileLockedError } from '../';
+
+describe('atomic writes', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'atomic');
+
+  let charpackPath: string;
+
+  beforeAll(async () => {
+    // Create output directory
+    await fs.mkdir(testOutputDir, { recursive: true });
+
+    // Create a test charpack file
+    charpackPath = path.join(testOutputDir, 'test-atomic.charpack');
+    await charpack({
+      input: {
+        variation1: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_wx_xy.png'),
+        variation2: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_zz2_xy.png'),
+      },
+      output: charpackPath,
+    });
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should leave no temporary or lock files behind', async () => {
+    const pack = await read(charpackPath);
+    await pack.add({ smile: path.join(testInputDir, 'koi_smile.png') });
+    await pack.remove('smile');
+    await pack.setMetadata({ character: 'Koi' });
+    await pack.compact();
+    pack.dispose();
+
+    expect(await fs.readdir(testOutputDir)).toEqual(['test-atomic.charpack']);
+  });
+
+  it('should refuse to modify a pack locked by another writer', async () => {
+    const original = await fs.readFile(charpackPath);
+    const lockFile = `${charpackPath}.lock`;
+    await fs.writeFile(lockFile, JSON.stringify({
+      pid: process.pid,
+      hostname: os.hostname(),
+      createdAt: new Date().toISOString(),
+    }));
+
+    try {
+      const pack = await read(charpackPath);
+      await expect(
+        pack.add({ smile: path.join(testInputDir, 'koi_smile.png') })
+      ).rejects.toThrow(`is locked by process ${process.pid}`);
+      await expect(pack.remove('variation1')).rejects.toThrow('is locked by');
+      await expect(pack.setMetadata(undefined)).rejects.toThrow('is locked by');
+      await expect(compact(charpackPath)).rejects.toThrow('is locked by');
+      pack.dispose();
+
+      // The lock is left alone and the pack is untouched
+      await expect(fs.access(lockFile)).resolves.toBeUndefined();
+      expect((await fs.readFile(charpackPath)).equals(original)).toBe(true);
+    } finally {
+      await fs.rm(lockFile, { force: true });
+    }
+  });
+
+  it('should take over a lock left by a crashed process', async () => {
+    const lockFile = `${charpackPath}.lock`;
+    await fs.writeFile(lockFile, JSON.stringify({
+      pid: 2147483000,
+      hostname: os.hostname(),
+      createdAt: new Date().toISOString(),
+    }));
+
+    const pack = await read(charpackPath);
+    await pack.setMetadata({ character: 'Koi', outfit: 'casual' });
+    expect(await pack.metadata()).toEqual({ character: 'Koi', outfit: 'casual' });
+    pack.dispose();
+
+    await expect(fs.access(lockFile)).rejects.toThrow();
+  });
+
+  it('should let only one of two writers take over a stale lock', async () => {
+    const lockFile = `${charpackPath}.lock`;
+    await fs.writeFile(lockFile, JSON.stringify({
+      pid: 2147483000,
+      hostname: os.hostname(),
+      createdAt: new Date().toISOString(),
+    }));
+
+    // The second writer to read the lock judges it stale only once the first
+    // has taken it over, and the first commits only once the second gave up
+    const fsModule: typeof fs = require('fs/promises');
+    const { readFile, rename } = fsModule;
+    let lockReads = 0;
+    let tookOver!: () => void;
+    const firstTookOver = new Promise<void>((resolve) => (tookOver = resolve));
+    let firstSettled: Promise<unknown> | undefined;
+    const readSpy = jest.spyOn(fsModule, 'readFile').mockImplementation(async (...args: Parameters<typeof fs.readFile>) => {
+      const data = await readFile(...args);
+      if (args[0] === lockFile && lockReads++ === 1) {
+        await firstTookOver;
+      }
+      return data;
+    });
+    const renameSpy = jest.spyOn(fsModule, 'rename').mockImplementation(async (from, to) => {
+      if (String(from).endsWith('.tmp')) {
+        tookOver();
+        let timer: NodeJS.Timeout | undefined;
+        await Promise.race([firstSettled, new Promise((resolve) => (timer = setTimeout(resolve, 2000)))]);
+        clearTimeout(timer);
+      }
+      return rename(from, to);
+    });
+
+    try {
+      const first = await read(charpackPath);
+      const second = await read(charpackPath);
+      const edits = [first.setMetadata({ character: 'Koi' }), second.setMetadata({ character: 'Ren' })];
+      firstSettled = Promise.race(edits).catch(() => undefined);
+      const results = await Promise.allSettled(edits);
+      first.dispose();
+      second.dispose();
+
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+      const [rejected] = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      expect(rejected.reason.code).toBe('FILE_LOCKED');
+    } finally {
+      readSpy.mockRestore();
+      renameSpy.mockRestore();
+    }
+
+    expect(await fs.readdir(testOutputDir)).toEqual(['test-atomic.charpack']);
+  });
+
+  it('should report a live lock it moved away and could not put back', async () => {
+    const lockFile = `${charpackPath}.lock`;
+    await fs.writeFile(lockFile, JSON.stringify({
+      pid: 2147483000,
+      hostname: os.hostname(),
+      createdAt: new Date().toISOString(),
+    }));
+
+    // Another writer takes the lock over just before it is moved away,
+    // and a third one creates a new lock before it is put back
+    const live = JSON.stringify({ pid: process.pid, hostname: os.hostname(), createdAt: new Date().toISOString() });
+    const fsModule: typeof fs = require('fs/promises');
+    const { rename, writeFile } = fsModule;
+    const renameSpy = jest.spyOn(fsModule, 'rename').mockImplementation(async (from, to) => {
+      if (from === lockFile) {
+        await writeFile(lockFile, live);
+      }
+      return rename(from, to);
+    });
+    const linkSpy = jest.spyOn(fsModule, 'link').mockRejectedValue(
+      Object.assign(new Error('simulated new lock'), { code: 'EEXIST' })
+    );
+
+    let error!: FileLockedError;
+    try {
+      const pack = await read(charpackPath);
+      const edit = pack.setMetadata({ character: 'Koi' });
+      await expect(edit).rejects.toBeInstanceOf(FileLockedError);
+      error = await edit.catch((e) => e);
+      pack.dispose();
+    } finally {
+      renameSpy.mockRestore();
+      linkSpy.mockRestore();
+    }
+
+    expect(error.code).toBe('FILE_LOCKED');
+    expect((error.cause as NodeJS.ErrnoException).code).toBe('EEXIST');
+    const [moved] = (await fs.readdir(testOutputDir)).filter((file) => file.endsWith('.stale'));
+    expect(error.message).toContain(moved);
+    expect(await fs.readFile(path.join(testOutputDir, moved), 'utf8')).toBe(live);
+
+    await fs.rm(path.join(testOutputDir, moved));
+    expect(await fs.readdir(testOutputDir)).toEqual(['test-atomic.charpack']);
+  });
+
+  it('should keep the original pack when a write fails', async () => {
+    const original = await fs.readFile(charpackPath);
+
+    // Fail the final rename, as if the process died before committing
+    const fsModule: typeof fs = require('fs/promises');
+    const renameSpy = jest.spyOn(fsModule, 'rename').mockRejectedValue(new Error('simulated crash'));
+
+    try {
+      const pack = await read(charpackPath);
+      await expect(
+        pack.add({ smile: path.join(testInputDir, 'koi_smile.png') })
+      ).rejects.toThrow('simulated crash');
+      await expect(pack.remove('variation1')).rejects.toThrow('simulated crash');
+      pack.dispose();
+    } finally {
+      renameSpy.mockRestore();
+    }
+
+    expect((await fs.readFile(charpackPath)).equals(original)).toBe(true);
+    expect(await fs.readdir(testOutputDir)).toEqual(['test-atomic.charpack']);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Test base image selection
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import sharp from 'sharp';
+import { charpack, extract, inspect, CharPackError } from '../';
+
+describe('base selection', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'base');
+
+  let input: Record<string, string>;
+
+  beforeAll(async () => {
+    // Create output directory
+    await fs.mkdir(testOutputDir, { recursive: true });
+
+    // Put an odd one out first: a mirrored frame differs from every other input
+    const odd = path.join(testOutputDir, 'odd.png');
+    await sharp(path.join(testInputDir, 'koi_smile.png')).flop().toFile(odd);
+    input = {
+      odd,
+      angry: path.join(testInputDir, 'koi_angry.png'),
+      blush: path.join(testInputDir, 'koi_blush.png'),
+      smile: path.join(testInputDir, 'koi_smile.png'),
+    };
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  /**
+   * Variations without patches: the base image and any input identical to it
+   */
+  async function unpatched(filePath: string): Promise<string[]> {
+    const { variations } = await inspect(filePath);
+    return variations.filter((v) => v.patchCount === 0).map((v) => v.name);
+  }
+
+  it('should pick the input closest to all others as the medoid', async () => {
+    const first = path.join(testOutputDir, 'test-base-first.charpack');
+    const medoid = path.join(testOutputDir, 'test-base-medoid.charpack');
+    await charpack({ input, output: first });
+    await charpack({ input, output: medoid, config: { baseSelection: 'medoid' } });
+
+    expect(await unpatched(first)).toContain('odd');
+    expect(await unpatched(medoid)).not.toContain('odd');
+    expect((await fs.stat(medoid)).size).toBeLessThan((await fs.stat(first)).size);
+
+    // The choice of base never changes the pixels
+    for (const name of Object.keys(input)) {
+      const png = await (await extract(medoid, name)).png();
+      expect(png.equals(await (await extract(first, name)).png())).toBe(true);
+    }
+  });
+
+  it('should build a synthetic consensus base that is not a variation', async () => {
+    // Each input hides a different part of the same frame, so none of them is a good base
+    const smile = path.join(testInputDir, 'koi_smile.png');
+    const square = await sharp({ create: { width: 64, height: 64, channels: 4, background: '#ff00ff' } }).png().toBuffer();
+    const covered: Record<string, string> = {};
+    for (const [name, left, top] of [['a', 0, 0], ['b', 192, 0], ['c', 0, 320], ['d', 192, 320]] as const) {
+      covered[name] = path.join(testOutputDir, `covered-${name}.png`);
+      await sharp(smile).composite([{ input: square, left, top }]).toFile(covered[name]);
+    }
+
+    const first = path.join(testOutputDir, 'test-base-first-covered.charpack');
+    await charpack({ input: covered, output: first });
+    const firstArea = (await inspect(first)).variations.reduce((sum, v) => sum + v.patchArea!, 0);
+
+    for (const consensus of ['mode', 'median'] as const) {
+      const output = path.join(testOutputDir, `test-base-${consensus}.charpack`);
+      await charpack({ input: covered, output, config: { baseSelection: 'consensus', consensus } });
+
+      // Only the real inputs are listed, each with a patch over its own square
+      const { variations } = await inspect(output);
+      expect(variations.map((v) => v.name)).toEqual(['a', 'b', 'c', 'd']);
+      expect(variations.every((v) => v.patchCount! > 0)).toBe(true);
+      expect(variations.reduce((sum, v) => sum + v.patchArea!, 0)).toBeLessThan(firstArea);
+
+      for (const name of Object.keys(covered)) {
+        const png = await (await extract(output, name)).png();
+        expect(png.equals(await (await extract(first, name)).png())).toBe(true);
+      }
+    }
+  });
+
+  it('should use the named base image', async () => {
+    const output = path.join(testOutputDir, 'test-base-named.charpack');
+    await charpack({ input, output, config: { baseSelection: 'named', baseName: 'blush' } });
+    expect(await unpatched(output)).toContain('blush');
+    expect((await inspect(output)).variations.map((v) => v.name)).toEqual(Object.keys(input));
+
+    await expect(
+      charpack({ input, output, config: { baseSelection: 'named', baseName: 'missing' } })
+    ).rejects.toMatchObject({ code: 'VARIATION_NOT_FOUND' } as Partial<CharPackError>);
+    await expect(
+      charpack({ input, output, config: { baseSelection: 'named' } })
+    ).rejects.toMatchObject({ code: 'INVALID_INPUT' } as Partial<CharPackError>);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Test variations chained to a parent variation
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { crc32 } from 'zlib';
+import sharp from 'sharp';
+import { charpack, extract, read, inspect, verify, CharPackError, CorruptFileError } from '../';
+
+describe('chained variations', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'chain');
+
+  // A family of expressions: each member adds a change to the previous one
+  let input: Record<string, string>;
+  let flatPath: string;
+  let chainedPath: string;
+
+  beforeAll(async () => {
+    // Create output directory
+    await fs.mkdir(testOutputDir, { recursive: true });
+
+    const smile = path.join(testInputDir, 'koi_smile.png');
+    const square = (size: number, color: string) =>
+      sharp({ create: { width: size, height: size, channels: 4, background: color } }).png().toBuffer();
+    const blush = [
+      { input: await square(40, '#ff8080'), left: 60, top: 200 },
+      { input: await square(40, '#ff8080'), left: 156, top: 200 },
+    ];
+    const tears = [{ input: await square(24, '#4060ff'), left: 80, top: 250 }];
+
+    input = {
+      angry: path.join(testInputDir, 'koi_angry.png'),
+      smile,
+      smile_blush: path.join(testOutputDir, 'smile_blush.png'),
+      smile_blush_tears: path.join(testOutputDir, 'smile_blush_tears.png'),
+    };
+    await sharp(smile).composite(blush).toFile(input.smile_blush);
+    await sharp(smile).composite([...blush, ...tears]).toFile(input.smile_blush_tears);
+
+    flatPath = path.join(testOutputDir, 'test-chain-flat.charpack');
+    chainedPath = path.join(testOutputDir, 'test-chain.charpack');
+    await charpack({ input, output: flatPath });
+    await charpack({ input, output: chainedPath, config: { chainVariations: true } });
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  /**
+   * Parent of every variation of a pack, by name
+   */
+  async function parentsOf(filePath: string): Promise<Record<string, string | undefined>> {
+    const { variations } = await inspect(filePath);
+    return Object.fromEntries(variations.map((v) => [v.name, v.parent]));
+  }
+
+  /**
+   * Check that variations of a pack have the same pixels as the input images
+   */
+  async function expectSamePixels(filePath: string, names: Record<string, string>): Promise<void> {
+    for (const [name, original] of Object.entries(names)) {
+      const png = await (await extract(filePath, name)).png();
+      expect(png.equals(await (await extract(flatPath, original)).png())).toBe(true);
+    }
+  }
+
+  it('should diff each member of a family against the previous one', async () => {
+    expect(await parentsOf(chainedPath)).toEqual({
+      angry: undefined,
+      smile: undefined,
+      smile_blush: 'smile',
+      smile_blush_tears: 'smile_blush',
+    });
+
+    const flat = await inspect(flatPath);
+    const chained = await inspect(chainedPath);
+    const area = (result: typeof flat, name: string) => result.variations.find((v) => v.name === name)!.patchArea!;
+    expect(area(chained, 'smile_blush_tears')).toBeLessThan(area(flat, 'smile_blush_tears'));
+    expect(chained.fileSize).toBeLessThan(flat.fileSize);
+    expect((await verify(chainedPath)).valid).toBe(true);
+
+    await expectSamePixels(chainedPath, Object.fromEntries(Object.keys(input).map((name) => [name, name])));
+    const pack = await read(chainedPath);
+    for (const name of ['smile_blush_tears', 'smile_blush', 'smile']) {
+      const png = await pack.png(name);
+      expect(png.equals(await (await extract(flatPath, name)).png())).toBe(true);
+    }
+    pack.dispose();
+
+    // Shallower chains pick an earlier parent
+    const shallowPath = path.join(testOutputDir, 'test-chain-shallow.charpack');
+    await charpack({ input, output: shallowPath, config: { chainVariations: true, maxChainDepth: 1 } });
+    expect((await parentsOf(shallowPath)).smile_blush_tears).toBe('smile');
+
+    // Deeper chains than readers accept by default
+    await expect(
+      charpack({ input, output: shallowPath, config: { chainVariations: true, maxChainDepth: 17 } })
+    ).rejects.toMatchObject({ code: 'INVALID_INPUT' } as Partial<CharPackError>);
+  });
+
+  it('should keep children intact when their parent is edited', async () => {
+    const filePath = path.join(testOutputDir, 'test-chain-edit.charpack');
+    await fs.copyFile(chainedPath, filePath);
+
+    const pack = await read(filePath);
+    await pack.rename('smile', 'happy');
+    expect((await parentsOf(filePath)).smile_blush).toBe('happy');
+
+    // Replacing a parent stores its children against a base image again
+    await pack.replace('happy', input.angry);
+    await pack.remove('smile_blush');
+    const png = await pack.png('smile_blush_tears');
+    expect(png.equals(await (await extract(flatPath, 'smile_blush_tears')).png())).toBe(true);
+    pack.dispose();
+
+    expect(await parentsOf(filePath)).toEqual({ angry: undefined, happy: undefined, smile_blush_tears: undefined });
+    await expectSamePixels(filePath, { happy: 'angry', smile_blush_tears: 'smile_blush_tears' });
+
+    // Detached children are compressed with the config of the edit
+    const sizes: Record<string, number> = {};
+    for (const compression of ['deflate', 'store'] as const) {
+      const copy = path.join(testOutputDir, `test-chain-detach-${compression}.charpack`);
+      await fs.copyFile(chainedPath, copy);
+      const copyPack = await read(copy);
+      await copyPack.remove('smile', { compression });
+      copyPack.dispose();
+      const { variations } = await inspect(copy);
+      sizes[compression] = variations.find((v) => v.name === 'smile_blush')!.compressedBytes;
+    }
+    expect(sizes.store).toBeGreaterThan(sizes.deflate);
+  });
+
+  it('should reject parent cycles and chains deeper than the limits', async () => {
+    const limited = read(chainedPath, { limits: { maxChainDepth: 1 } });
+    await expect(limited).rejects.toMatchObject({ code: 'LIMIT_EXCEEDED' } as Partial<CharPackError>);
+
+    // Make 'smile' a child of 'smile_blush_tears', closing the loop
+    const buffer = await fs.readFile(chainedPath);
+    const indexOffset = buffer.readUInt32LE(34);
+    let at = indexOffset;
+    for (let i = 0; i < buffer.readUInt32LE(30); i++) {
+      const nameLen = buffer.readUInt32LE(at);
+      const name = buffer.toString('utf8', at + 4, at + 4 + nameLen);
+      const referenceAt = at + 4 + nameLen + 17 + buffer.readUInt32LE(at + 4 + nameLen + 13);
+      if (name === 'smile') {
+        buffer.writeUInt32LE((0x80000000 | 3) >>> 0, referenceAt);
+      }
+      at = referenceAt + 4;
+    }
+    buffer.writeUInt32LE(crc32(buffer.subarray(indexOffset, at)), 42);
+    const headerSize = buffer.readUInt32LE(8);
+    buffer.writeUInt32LE(crc32(buffer.subarray(0, headerSize - 4)), headerSize - 4);
+    const cyclePath = path.join(testOutputDir, 'test-chain-cycle.charpack');
+    await fs.writeFile(cyclePath, buffer);
+
+    const error = await extract(cyclePath, 'angry').catch((e) => e);
+    expect(error).toBeInstanceOf(CorruptFileError);
+    expect(error.message).toContain('cycle');
+  });
+});
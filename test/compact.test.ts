@@ -0,0 +1,92 @@
+/**
+ * Test compact and inspect functionality
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { charpack, compact, inspect, read, verify } from '../';
+
+describe('compact', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'compact');
+
+  let charpackPath: string;
+
+  beforeAll(async () => {
+    // Create output directory
+    await fs.mkdir(testOutputDir, { recursive: true });
+
+    // Create a test charpack file
+    charpackPath = path.join(testOutputDir, 'test-compact.charpack');
+    await charpack({
+      input: {
+        variation1: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_wx_xy.png'),
+        variation2: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_zz2_xy.png'),
+        smile: path.join(testInputDir, 'koi_smile.png'),
+        angry: path.join(testInputDir, 'koi_angry.png'),
+      },
+      output: charpackPath,
+    });
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should report no dead bytes for a fresh pack', async () => {
+    const result = await inspect(charpackPath);
+    const { size } = await fs.stat(charpackPath);
+
+    expect(result.fileSize).toBe(size);
+    expect(result.variationCount).toBe(4);
+    expect(result.liveBytes).toBe(size);
+    expect(result.deadBytes).toBe(0);
+    expect(await compact(charpackPath)).toBe(0);
+  });
+
+  it('should reclaim the blocks of removed variations', async () => {
+    const modifiedPath = path.join(testOutputDir, 'test-compact-removed.charpack');
+    await fs.copyFile(charpackPath, modifiedPath);
+
+    const pack = await read(modifiedPath);
+    const expected = await pack.png('variation2');
+    await pack.remove('smile');
+    await pack.remove('angry');
+
+    const before = await inspect(modifiedPath);
+    expect(before.deadBytes).toBeGreaterThan(0);
+
+    const reclaimed = await compact(modifiedPath);
+    expect(reclaimed).toBe(before.deadBytes);
+
+    const after = await inspect(modifiedPath);
+    expect(after.deadBytes).toBe(0);
+    expect(after.fileSize).toBe(before.fileSize - reclaimed);
+    expect((await verify(modifiedPath)).valid).toBe(true);
+
+    await pack.refresh();
+    expect(await pack.list()).toEqual(['variation1', 'variation2']);
+    expect(await pack.png('variation2')).toEqual(expected);
+    pack.dispose();
+  });
+
+  it('should compact through the in-memory pack', async () => {
+    const modifiedPath = path.join(testOutputDir, 'test-compact-memory.charpack');
+    await fs.copyFile(charpackPath, modifiedPath);
+
+    const pack = await read(modifiedPath);
+    await pack.remove('variation1');
+    const { deadBytes } = await inspect(modifiedPath);
+
+    expect(await pack.compact()).toBe(deadBytes);
+    expect((await inspect(modifiedPath)).deadBytes).toBe(0);
+    expect(await pack.list()).toEqual(['variation2', 'smile', 'angry']);
+    expect((await pack.png('smile')).length).toBeGreaterThan(0);
+    pack.dispose();
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Test compression codecs and patch encodings
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { charpack, extract, isCodecSupported, verify, CompressionCodec } from '../';
+
+describe('compression', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'compression');
+
+  const input = {
+    variation1: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_wx_xy.png'),
+    variation2: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_zz2_xy.png'),
+  };
+
+  beforeAll(async () => {
+    await fs.mkdir(testOutputDir, { recursive: true });
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it.each(['store', 'deflate', 'brotli', 'zstd'] as const)('should round-trip with %s', async (codec) => {
+    const output = path.join(testOutputDir, `test-codec-${codec}.charpack`);
+
+    if (!isCodecSupported(codec)) {
+      await expect(
+        charpack({ input, output, config: { compression: codec } })
+      ).rejects.toThrow(`Compression codec '${codec}' is not supported in this environment`);
+      return;
+    }
+
+    await charpack({ input, output, config: { compression: codec } });
+    expect((await verify(output)).valid).toBe(true);
+
+    const reference = path.join(testOutputDir, 'test-codec-reference.charpack');
+    await charpack({ input, output: reference });
+
+    const png = await (await extract(output, 'variation2')).png();
+    const referencePng = await (await extract(reference, 'variation2')).png();
+    expect(png.equals(referencePng)).toBe(true);
+  });
+
+  it.each(['raw', 'png', 'xor', 'palette'] as const)('should reconstruct identical images with %s patches', async (encoding) => {
+    const output = path.join(testOutputDir, `test-encoding-${encoding}.charpack`);
+    const reference = path.join(testOutputDir, 'test-encoding-reference.charpack');
+    await charpack({ input, output, config: { patchEncodings: [encoding] } });
+    await charpack({ input, output: reference, config: { patchEncodings: ['png'] } });
+
+    const png = await (await extract(output, 'variation2')).png();
+    const referencePng = await (await extract(reference, 'variation2')).png();
+    expect(png.equals(referencePng)).toBe(true);
+  });
+
+  it('should reject unknown codecs', async () => {
+    await expect(
+      charpack({
+        input,
+        output: path.join(testOutputDir, 'test-codec-unknown.charpack'),
+        config: { compression: 'lzma' as unknown as CompressionCodec },
+      })
+    ).rejects.toThrow('Unknown compression codec: lzma');
+  });
+});
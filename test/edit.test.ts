@@ -0,0 +1,128 @@
+/**
+ * Test rename, replace and reorder functionality
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { charpack, extract, inspect, read, verify } from '../';
+
+describe('edit', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'edit');
+
+  let charpackPath: string;
+
+  beforeAll(async () => {
+    // Create output directory
+    await fs.mkdir(testOutputDir, { recursive: true });
+
+    // Create a test charpack file
+    charpackPath = path.join(testOutputDir, 'test-edit.charpack');
+    await charpack({
+      input: {
+        variation1: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_wx_xy.png'),
+        variation2: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_zz2_xy.png'),
+        smile: { path: path.join(testInputDir, 'koi_smile.png'), tags: ['happy'] },
+      },
+      output: charpackPath,
+    });
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  async function copyPack(name: string): Promise<string> {
+    const modifiedPath = path.join(testOutputDir, name);
+    await fs.copyFile(charpackPath, modifiedPath);
+    return modifiedPath;
+  }
+
+  it('should rename a variation without touching its block', async () => {
+    const modifiedPath = await copyPack('test-edit-rename.charpack');
+    const pack = await read(modifiedPath);
+    const expected = await pack.png('smile');
+
+    await pack.rename('smile', 'a-much-longer-name-for-the-smile-variation');
+
+    expect(await pack.list()).toEqual(['variation1', 'variation2', 'a-much-longer-name-for-the-smile-variation']);
+    expect(await pack.list({ tags: ['happy'] })).toEqual(['a-much-longer-name-for-the-smile-variation']);
+    expect(await (await extract(modifiedPath, 'a-much-longer-name-for-the-smile-variation')).png()).toEqual(expected);
+    expect((await verify(modifiedPath)).valid).toBe(true);
+
+    await pack.refresh();
+    expect(await pack.png('a-much-longer-name-for-the-smile-variation')).toEqual(expected);
+    pack.dispose();
+  });
+
+  it('should reject renames to missing or taken names', async () => {
+    const modifiedPath = await copyPack('test-edit-rename-errors.charpack');
+    const pack = await read(modifiedPath);
+
+    await expect(pack.rename('missing', 'other')).rejects.toThrow("Variation 'missing' not found");
+    await expect(pack.rename('smile', 'variation1')).rejects.toThrow("Variation 'variation1' already exists");
+    pack.dispose();
+  });
+
+  it('should replace a variation in place and keep its properties', async () => {
+    const modifiedPath = await copyPack('test-edit-replace.charpack');
+    const pack = await read(modifiedPath);
+
+    await pack.replace('smile', path.join(testInputDir, 'koi_angry.png'));
+
+    expect(await pack.list()).toEqual(['variation1', 'variation2', 'smile']);
+    expect(await pack.list({ details: true })).toContainEqual({ name: 'smile', tags: ['happy'] });
+
+    const replaced = await extract(modifiedPath, 'smile');
+    expect(replaced.properties).toEqual({ tags: ['happy'] });
+    expect(await pack.png('smile')).toEqual(await replaced.png());
+
+    // The old block stays behind until the pack is compacted
+    expect((await inspect(modifiedPath)).deadBytes).toBeGreaterThan(0);
+    expect((await verify(modifiedPath)).valid).toBe(true);
+    pack.dispose();
+  });
+
+  it('should replace properties when the new image carries them', async () => {
+    const modifiedPath = await copyPack('test-edit-replace-properties.charpack');
+    const pack = await read(modifiedPath);
+
+    await pack.replace('smile', { path: path.join(testInputDir, 'koi_angry.png'), tags: ['angry'] });
+
+    expect(await pack.list({ tags: ['angry'] })).toEqual(['smile']);
+    expect((await extract(modifiedPath, 'smile')).properties).toEqual({ tags: ['angry'] });
+    pack.dispose();
+  });
+
+  it('should reorder variations', async () => {
+    const modifiedPath = await copyPack('test-edit-reorder.charpack');
+    const pack = await read(modifiedPath);
+    const { size } = await fs.stat(modifiedPath);
+
+    await pack.reorder(['smile', 'variation1', 'variation2']);
+
+    expect(await pack.list()).toEqual(['smile', 'variation1', 'variation2']);
+    expect((await fs.stat(modifiedPath)).size).toBe(size);
+
+    await pack.refresh();
+    expect(await pack.list()).toEqual(['smile', 'variation1', 'variation2']);
+    expect((await verify(modifiedPath)).valid).toBe(true);
+    pack.dispose();
+  });
+
+  it('should reject reorders that do not list every variation once', async () => {
+    const modifiedPath = await copyPack('test-edit-reorder-errors.charpack');
+    const pack = await read(modifiedPath);
+
+    await expect(pack.reorder(['smile', 'variation1'])).rejects.toThrow('exactly once');
+    await expect(pack.reorder(['smile', 'smile', 'variation1'])).rejects.toThrow('exactly once');
+    await expect(pack.reorder(['smile', 'variation1', 'missing'])).rejects.toThrow("Variation 'missing' not found");
+    expect(await pack.list()).toEqual(['variation1', 'variation2', 'smile']);
+    pack.dispose();
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Test pack encryption
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { charpack, extract, read, unpack, verify, inspect, CharPackError, DecryptionError } from '../';
+
+describe('encryption', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'encryption');
+  const input = {
+    variation1: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_wx_xy.png'),
+    variation2: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_zz2_xy.png'),
+  };
+  const key = randomBytes(32);
+
+  let encryptedPath: string;
+  let plainPath: string;
+
+  beforeAll(async () => {
+    // Create output directory
+    await fs.mkdir(testOutputDir, { recursive: true });
+
+    // Create the same pack with and without encryption
+    encryptedPath = path.join(testOutputDir, 'test-encryption.charpack');
+    plainPath = path.join(testOutputDir, 'test-encryption-plain.charpack');
+    await charpack({ input, output: encryptedPath, metadata: { character: 'Koi' }, encryption: { key } });
+    await charpack({ input, output: plainPath, metadata: { character: 'Koi' } });
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  /**
+   * Capture the error of a rejected promise
+   */
+  async function errorOf(promise: Promise<unknown>): Promise<CharPackError> {
+    try {
+      await promise;
+    } catch (error) {
+      return error as CharPackError;
+    }
+    throw new Error('Expected the promise to reject');
+  }
+
+  it('should read encrypted packs with their key', async () => {
+    const image = await extract(encryptedPath, 'variation2', { key });
+    const expected = await extract(plainPath, 'variation2');
+    expect((await image.png()).equals(await expected.png())).toBe(true);
+    expect(image.metadata).toEqual({ character: 'Koi' });
+
+    const pack = await read(encryptedPath, { key });
+    expect(await pack.list()).toEqual(['variation1', 'variation2']);
+    expect((await pack.png('variation1')).equals(await (await extract(plainPath, 'variation1')).png())).toBe(true);
+    pack.dispose();
+  });
+
+  it('should refuse encrypted packs without the right key', async () => {
+    const missing = await errorOf(extract(encryptedPath, 'variation1'));
+    expect(missing).toBeInstanceOf(DecryptionError);
+    expect(missing.code).toBe('DECRYPTION_FAILED');
+
+    const wrong = await errorOf(read(encryptedPath, { key: randomBytes(32) }));
+    expect(wrong).toBeInstanceOf(DecryptionError);
+    expect(wrong.message).toContain('wrong key');
+
+    expect((await errorOf(extract(encryptedPath, 'variation1', { key: randomBytes(16) }))).code).toBe('INVALID_INPUT');
+    expect((await errorOf(unpack(encryptedPath, path.join(testOutputDir, 'unpacked')))).code).toBe('DECRYPTION_FAILED');
+  });
+
+  it('should verify and inspect encrypted packs', async () => {
+    const result = await verify(encryptedPath);
+    expect(result.valid).toBe(true);
+    expect(result.encrypted).toBe(true);
+    expect((await verify(plainPath)).encrypted).toBe(false);
+
+    const inspection = await inspect(encryptedPath, { key });
+    expect(inspection.encrypted).toBe(true);
+    expect(inspection.variations.map(v => v.patchCount)).toEqual(
+      (await inspect(plainPath)).variations.map(v => v.patchCount)
+    );
+
+    // Without the key, only the layout is described
+    const layoutOnly = await inspect(encryptedPath);
+    expect(layoutOnly.liveBytes).toBe(inspection.liveBytes);
+    expect(layoutOnly.variations.map(v => v.compressedBytes)).toEqual(inspection.variations.map(v => v.compressedBytes));
+    expect(layoutOnly.variations[0].patchCount).toBeUndefined();
+    expect(layoutOnly.pooledPatches).toBeUndefined();
+    expect((await errorOf(inspect(encryptedPath, { png: true }))).code).toBe('DECRYPTION_FAILED');
+  });
+
+  it('should keep new variations encrypted when editing', async () => {
+    const filePath = path.join(testOutputDir, 'test-encryption-edit.charpack');
+    await fs.copyFile(encryptedPath, filePath);
+
+    const pack = await read(filePath, { key });
+    await pack.add({ variation3: input.variation1 });
+    await pack.rename('variation3', 'copy');
+    await pack.remove('variation2');
+    pack.dispose();
+    expect((await inspect(filePath)).deadBytes).toBeGreaterThan(0);
+
+    const image = await extract(filePath, 'copy', { key });
+    expect((await image.png()).equals(await (await extract(plainPath, 'variation1')).png())).toBe(true);
+    expect((await errorOf(extract(filePath, 'copy', { key: randomBytes(32) }))).code).toBe('DECRYPTION_FAILED');
+  });
+});
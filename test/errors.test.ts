@@ -0,0 +1,155 @@
+/**
+ * Test typed errors and their codes
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import sharp from 'sharp';
+import {
+  charpack,
+  extract,
+  read,
+  unpack,
+  CharPackError,
+  CorruptFileError,
+  DimensionMismatchError,
+  ImageLoadError,
+  UnsupportedVersionError,
+  VariationNotFoundError,
+} from '../';
+
+describe('errors', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'errors');
+
+  let charpackPath: string;
+
+  beforeAll(async () => {
+    // Create output directory
+    await fs.mkdir(testOutputDir, { recursive: true });
+
+    // Create a test charpack file
+    charpackPath = path.join(testOutputDir, 'test-errors.charpack');
+    await charpack({
+      input: {
+        variation1: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_wx_xy.png'),
+        variation2: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_zz2_xy.png'),
+      },
+      output: charpackPath,
+    });
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  /**
+   * Capture the error of a rejected promise
+   */
+  async function errorOf(promise: Promise<unknown>): Promise<CharPackError> {
+    try {
+      await promise;
+    } catch (error) {
+      return error as CharPackError;
+    }
+    throw new Error('Expected the promise to reject');
+  }
+
+  it('should report missing variations', async () => {
+    const error = await errorOf(extract(charpackPath, 'missing'));
+
+    expect(error).toBeInstanceOf(VariationNotFoundError);
+    expect(error).toBeInstanceOf(CharPackError);
+    expect(error.code).toBe('VARIATION_NOT_FOUND');
+    expect((error as VariationNotFoundError).variation).toBe('missing');
+
+    expect((await errorOf(unpack(charpackPath, testOutputDir, 'missing'))).code).toBe('VARIATION_NOT_FOUND');
+  });
+
+  it('should report duplicate variations', async () => {
+    const modifiedPath = path.join(testOutputDir, 'test-errors-duplicate.charpack');
+    await fs.copyFile(charpackPath, modifiedPath);
+    const pack = await read(modifiedPath);
+
+    const error = await errorOf(pack.add({ variation1: path.join(testInputDir, 'koi_smile.png') }));
+    expect(error.code).toBe('DUPLICATE_VARIATION');
+    expect((await errorOf(pack.rename('variation2', 'variation1'))).code).toBe('DUPLICATE_VARIATION');
+    pack.dispose();
+  });
+
+  it('should report mismatched dimensions', async () => {
+    const smallImage = path.join(testOutputDir, 'small.png');
+    await sharp({ create: { width: 8, height: 8, channels: 4, background: '#000000' } }).png().toFile(smallImage);
+
+    const packError = await errorOf(charpack({
+      input: { variation1: path.join(testInputDir, 'koi_smile.png'), small: smallImage },
+      output: path.join(testOutputDir, 'test-errors-small.charpack'),
+    }));
+    expect(packError).toBeInstanceOf(DimensionMismatchError);
+    expect(packError.code).toBe('DIMENSION_MISMATCH');
+
+    const modifiedPath = path.join(testOutputDir, 'test-errors-dimensions.charpack');
+    await fs.copyFile(charpackPath, modifiedPath);
+    const pack = await read(modifiedPath);
+    expect((await errorOf(pack.add({ small: smallImage }))).code).toBe('DIMENSION_MISMATCH');
+    pack.dispose();
+  });
+
+  it('should keep the cause of image load failures', async () => {
+    const missingImage = path.join(testOutputDir, 'missing.png');
+    const error = await errorOf(charpack({
+      input: { variation1: path.join(testInputDir, 'koi_smile.png'), missing: missingImage },
+      output: path.join(testOutputDir, 'test-errors-missing.charpack'),
+    }));
+
+    expect(error).toBeInstanceOf(ImageLoadError);
+    expect(error.code).toBe('IMAGE_LOAD_FAILED');
+    expect((error as ImageLoadError).path).toBe(missingImage);
+    expect(error.cause).toBeInstanceOf(Error);
+    expect(error.message).toContain((error.cause as Error).message);
+  });
+
+  it('should report corrupt files', async () => {
+    const buffer = await fs.readFile(charpackPath);
+
+    const badMagic = Buffer.from(buffer);
+    badMagic.write('NOPE', 0);
+    const magicError = await errorOf(read(await writeOutput('test-errors-magic.charpack', badMagic)));
+    expect(magicError).toBeInstanceOf(CorruptFileError);
+    expect(magicError.code).toBe('CORRUPT_FILE');
+
+    const truncated = buffer.subarray(0, 40);
+    expect((await errorOf(read(await writeOutput('test-errors-truncated.charpack', truncated)))).code).toBe('CORRUPT_FILE');
+  });
+
+  it('should report unsupported versions', async () => {
+    const future = Buffer.from(await fs.readFile(charpackPath));
+    future.writeUInt32LE(99, 4);
+
+    const error = await errorOf(read(await writeOutput('test-errors-version.charpack', future)));
+    expect(error).toBeInstanceOf(UnsupportedVersionError);
+    expect(error.code).toBe('UNSUPPORTED_VERSION');
+    expect((error as UnsupportedVersionError).version).toBe(99);
+  });
+
+  it('should report locked files', async () => {
+    const modifiedPath = path.join(testOutputDir, 'test-errors-locked.charpack');
+    await fs.copyFile(charpackPath, modifiedPath);
+    const pack = await read(modifiedPath);
+    await fs.writeFile(`${modifiedPath}.lock`, JSON.stringify({ pid: process.pid, hostname: 'elsewhere', createdAt: '' }));
+
+    expect((await errorOf(pack.remove('variation1'))).code).toBe('FILE_LOCKED');
+    pack.dispose();
+  });
+
+  async function writeOutput(name: string, data: Buffer): Promise<string> {
+    const filePath = path.join(testOutputDir, name);
+    await fs.writeFile(filePath, data);
+    return filePath;
+  }
+});
@@ -0,0 +1,85 @@
+/**
+ * Test inspect size and patch breakdown
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { charpack, inspect, read } from '../';
+
+describe('inspect', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'inspect');
+
+  let charpackPath: string;
+
+  beforeAll(async () => {
+    // Create output directory
+    await fs.mkdir(testOutputDir, { recursive: true });
+
+    // Create a test charpack file
+    charpackPath = path.join(testOutputDir, 'test-inspect.charpack');
+    await charpack({
+      input: {
+        variation1: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_wx_xy.png'),
+        variation2: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_zz2_xy.png'),
+        smile: path.join(testInputDir, 'koi_smile.png'),
+      },
+      output: charpackPath,
+    });
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should describe the base image', async () => {
+    const result = await inspect(charpackPath);
+
+    expect(result.version).toBe(2);
+    expect(result.baseRawBytes).toBe(result.width * result.height * result.channels);
+    expect(result.baseBytes).toBeGreaterThan(0);
+    expect(result.baseBytes).toBeLessThan(result.baseRawBytes);
+  });
+
+  it('should break down the patches of each variation', async () => {
+    const result = await inspect(charpackPath);
+
+    expect(result.variations.map(v => v.name)).toEqual(['variation1', 'variation2', 'smile']);
+    for (const variation of result.variations) {
+      expect(variation.patchArea).toBeLessThanOrEqual(result.width * result.height);
+      expect(variation.patchAreaPercent).toBeCloseTo((variation.patchArea! / (result.width * result.height)) * 100);
+      expect(variation.compressedBytes).toBeGreaterThan(0);
+    }
+
+    // The variations differ from the base, so at least one carries patches
+    expect(result.variations.some(v => v.patchCount! > 0 && v.patchArea! > 0)).toBe(true);
+  });
+
+  it('should compare the pack against one PNG per variation', async () => {
+    const result = await inspect(charpackPath, { png: true });
+
+    const pack = await read(charpackPath);
+    let pngBytes = 0;
+    for (const name of await pack.list()) {
+      pngBytes += (await pack.png(name)).length;
+    }
+    pack.dispose();
+
+    expect(result.pngBytes).toBe(pngBytes);
+    expect(result.ratio).toBeCloseTo(result.fileSize / pngBytes);
+
+    // With { png: true } the PNG figures are typed as present
+    const ratio: number = result.ratio;
+    expect(ratio).toBeLessThan(1);
+  });
+
+  it('should inspect a buffer', async () => {
+    const buffer = await fs.readFile(charpackPath);
+    expect(await inspect(buffer)).toEqual(await inspect(charpackPath));
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Test packs with several base images (keyframes)
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { generateKeyPairSync, randomBytes } from 'crypto';
+import sharp from 'sharp';
+import { charpack, extract, read, inspect, verify, sign, verifySignature, CharPackError } from '../';
+
+describe('keyframes', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'keyframes');
+
+  // Two outfits: the expressions and their mirror images
+  let input: Record<string, string>;
+  let singlePath: string;
+  let keyframesPath: string;
+
+  beforeAll(async () => {
+    // Create output directory
+    await fs.mkdir(testOutputDir, { recursive: true });
+
+    input = {};
+    for (const name of ['angry', 'blush', 'smile']) {
+      input[name] = path.join(testInputDir, `koi_${name}.png`);
+    }
+    for (const name of ['angry', 'blush', 'smile']) {
+      input[`${name}-mirrored`] = path.join(testOutputDir, `${name}-mirrored.png`);
+      await sharp(input[name]).flop().toFile(input[`${name}-mirrored`]);
+    }
+
+    singlePath = path.join(testOutputDir, 'test-keyframes-single.charpack');
+    keyframesPath = path.join(testOutputDir, 'test-keyframes.charpack');
+    await charpack({ input, output: singlePath });
+    await charpack({ input, output: keyframesPath, config: { keyframes: 4 } });
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  /**
+   * Check that every variation of a pack has the same pixels as in the single-base pack
+   */
+  async function expectSamePixels(filePath: string, options = {}): Promise<void> {
+    for (const name of Object.keys(input)) {
+      const png = await (await extract(filePath, name, options)).png();
+      expect(png.equals(await (await extract(singlePath, name)).png())).toBe(true);
+    }
+  }
+
+  /**
+   * Offsets of the keyframes of a pack, read straight from its keyframe table
+   */
+  async function keyframeOffsets(filePath: string): Promise<number[]> {
+    const buffer = await fs.readFile(filePath);
+    const tableOffset = buffer.readUInt32LE(59);
+    const tableSize = buffer.readUInt32LE(63);
+    const offsets: number[] = [];
+    for (let at = tableOffset; at < tableOffset + tableSize; at += 13) {
+      offsets.push(buffer.readUInt32LE(at + 1));
+    }
+    return offsets;
+  }
+
+  it('should diff each outfit against its own base image', async () => {
+    const result = await inspect(keyframesPath);
+    // A third base would save less than the image it adds
+    expect(result.baseCount).toBe(2);
+    expect(Object.fromEntries(result.variations.map((v) => [v.name, v.base]))).toEqual({
+      angry: 0,
+      blush: 0,
+      smile: 0,
+      'angry-mirrored': 1,
+      'blush-mirrored': 1,
+      'smile-mirrored': 1,
+    });
+    // The first input is the base image and one mirrored input the keyframe
+    const unpatched = result.variations.filter((v) => v.patchCount === 0);
+    expect(unpatched.map((v) => v.base)).toEqual([0, 1]);
+    expect(unpatched[0].name).toBe('angry');
+
+    const single = await inspect(singlePath);
+    expect(single.baseCount).toBe(1);
+    expect(result.fileSize).toBeLessThan(single.fileSize);
+
+    expect((await verify(keyframesPath)).valid).toBe(true);
+    await expectSamePixels(keyframesPath);
+
+    const pack = await read(keyframesPath);
+    const png = await pack.png('smile-mirrored');
+    expect(png.equals(await (await extract(singlePath, 'smile-mirrored')).png())).toBe(true);
+    pack.dispose();
+  });
+
+  it('should diff added variations against the closest base image', async () => {
+    const filePath = path.join(testOutputDir, 'test-keyframes-add.charpack');
+    await charpack({
+      input: { angry: input.angry, 'angry-mirrored': input['angry-mirrored'], 'blush-mirrored': input['blush-mirrored'] },
+      output: filePath,
+      config: { keyframes: 2 },
+    });
+
+    const pack = await read(filePath);
+    await pack.add({ smile: input.smile, 'smile-mirrored': input['smile-mirrored'] });
+    await pack.rename('smile', 'happy');
+    const png = await pack.png('smile-mirrored');
+    expect(png.equals(await (await extract(singlePath, 'smile-mirrored')).png())).toBe(true);
+    pack.dispose();
+
+    const { variations } = await inspect(filePath);
+    expect(variations.map((v) => v.base)).toEqual([0, 1, 1, 0, 1]);
+    const happy = await (await extract(filePath, 'happy')).png();
+    expect(happy.equals(await (await extract(singlePath, 'smile')).png())).toBe(true);
+  });
+
+  it('should encrypt and sign keyframes', async () => {
+    const key = randomBytes(32);
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    const publicPem = publicKey.export({ format: 'pem', type: 'spki' }).toString();
+    const filePath = path.join(testOutputDir, 'test-keyframes-encrypted.charpack');
+    await charpack({ input, output: filePath, config: { keyframes: 2 }, encryption: { key } });
+    await sign(filePath, privateKey);
+
+    expect((await verifySignature(filePath, publicPem)).valid).toBe(true);
+    await expectSamePixels(filePath, { key, publicKey: publicPem });
+
+    // A keyframe is covered by the signature like any variation block
+    const [offset] = await keyframeOffsets(filePath);
+    const tampered = await fs.readFile(filePath);
+    tampered[offset + 100] ^= 0xff;
+    const result = await verifySignature(tampered, publicPem);
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('Keyframe 1');
+
+    await expect(
+      charpack({ input, output: filePath, config: { keyframes: 0 } })
+    ).rejects.toMatchObject({ code: 'INVALID_INPUT' } as Partial<CharPackError>);
+    // More bases than readers accept by default
+    await expect(
+      charpack({ input, output: filePath, config: { keyframes: 65 } })
+    ).rejects.toMatchObject({ code: 'INVALID_INPUT' } as Partial<CharPackError>);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Test pack metadata functionality
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { charpack, extract, read, verify } from '../';
+
+describe('metadata', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'metadata');
+
+  const input = {
+    variation1: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_wx_xy.png'),
+    variation2: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_zz2_xy.png'),
+  };
+  const metadata = {
+    character: 'Koi',
+    outfit: 'school uniform',
+    author: 'NarraLeaf',
+    license: 'CC BY 4.0',
+    custom: { tags: ['main'], version: 3 },
+  };
+
+  beforeAll(async () => {
+    // Create output directory
+    await fs.mkdir(testOutputDir, { recursive: true });
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should store metadata when packing', async () => {
+    const charpackPath = path.join(testOutputDir, 'test-metadata.charpack');
+    await charpack({ input, output: charpackPath, metadata });
+
+    const pack = await read(charpackPath);
+    expect(await pack.metadata()).toEqual(metadata);
+    pack.dispose();
+
+    const image = await extract(charpackPath, 'variation1');
+    expect(image.metadata).toEqual(metadata);
+
+    const result = await verify(charpackPath);
+    expect(result.valid).toBe(true);
+    expect(result.metadata).toBe(true);
+  });
+
+  it('should have no metadata by default', async () => {
+    const charpackPath = path.join(testOutputDir, 'test-no-metadata.charpack');
+    await charpack({ input, output: charpackPath });
+
+    const pack = await read(charpackPath);
+    expect(await pack.metadata()).toBeUndefined();
+    pack.dispose();
+  });
+
+  it('should update metadata without touching the images', async () => {
+    const charpackPath = path.join(testOutputDir, 'test-set-metadata.charpack');
+    await charpack({ input, output: charpackPath });
+
+    const pack = await read(charpackPath);
+    const before = await pack.png('variation2');
+
+    await pack.setMetadata(metadata);
+    expect(await pack.metadata()).toEqual(metadata);
+    expect(await pack.png('variation2')).toEqual(before);
+    expect(await pack.list()).toEqual(['variation1', 'variation2']);
+
+    // Persisted to disk
+    const reread = await read(charpackPath);
+    expect(await reread.metadata()).toEqual(metadata);
+
+    await pack.setMetadata(undefined);
+    expect(await pack.metadata()).toBeUndefined();
+    expect((await verify(charpackPath)).valid).toBe(true);
+
+    pack.dispose();
+    reread.dispose();
+  });
+
+  it('should detect corrupted metadata', async () => {
+    const charpackPath = path.join(testOutputDir, 'test-corrupt-metadata.charpack');
+    await charpack({ input, output: charpackPath, metadata });
+
+    const buffer = await fs.readFile(charpackPath);
+    const metadataOffset = buffer.readUInt32LE(46);
+    buffer[metadataOffset + 2] ^= 0xff;
+
+    const result = await verify(buffer);
+    expect(result.valid).toBe(false);
+    expect(result.metadata).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Test overlay variations stacked on other variations at read time
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import sharp from 'sharp';
+import { charpack, extract, read, inspect, verify, InvalidInputError, VariationNotFoundError } from '../';
+
+describe('overlays', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'overlay');
+
+  let smile: string;
+  let angry: string;
+  // Half-transparent blush, opaque tears and a shadow multiplied over the face
+  let blush: string;
+  let tears: string;
+  let shade: string;
+  let overlayPath: string;
+
+  beforeAll(async () => {
+    // Create output directory
+    await fs.mkdir(testOutputDir, { recursive: true });
+
+    smile = path.join(testInputDir, 'koi_smile.png');
+    angry = path.join(testInputDir, 'koi_angry.png');
+    blush = path.join(testOutputDir, 'blush.png');
+    tears = path.join(testOutputDir, 'tears.png');
+    shade = path.join(testOutputDir, 'shade.png');
+    await drawOverlay(blush, [
+      { color: { r: 255, g: 96, b: 128, alpha: 0.5 }, left: 60, top: 200, size: 40 },
+      { color: { r: 255, g: 96, b: 128, alpha: 0.5 }, left: 156, top: 200, size: 40 },
+    ]);
+    await drawOverlay(tears, [{ color: '#4060ff', left: 80, top: 250, size: 24 }]);
+    // Opaque, as sharp does not follow the usual formula for translucent multiply layers
+    await drawOverlay(shade, [{ color: '#6060a0', left: 64, top: 96, size: 128 }]);
+
+    overlayPath = path.join(testOutputDir, 'test-overlay.charpack');
+    await charpack({
+      input: {
+        smile,
+        angry,
+        blush: { path: blush, overlay: 'alpha-over', tags: ['cheeks'] },
+        shade: { path: shade, overlay: 'multiply' },
+      },
+      output: overlayPath,
+    });
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  /**
+   * Write a transparent image of the pack size with some squares drawn on it
+   */
+  async function drawOverlay(
+    file: string,
+    squares: Array<{ color: string | { r: number; g: number; b: number; alpha: number }; left: number; top: number; size: number }>
+  ): Promise<void> {
+    const { width, height } = await sharp(smile).metadata();
+    const composites = await Promise.all(squares.map(async ({ color, left, top, size }) => ({
+      input: await sharp({ create: { width: size, height: size, channels: 4, background: color } }).png().toBuffer(),
+      left,
+      top,
+    })));
+    await sharp({ create: { width: width!, height: height!, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+      .composite(composites)
+      .png()
+      .toFile(file);
+  }
+
+  /**
+   * Raw RGBA pixels of an image
+   */
+  function pixelsOf(image: string | Buffer): Promise<Buffer> {
+    return sharp(image).ensureAlpha().raw().toBuffer();
+  }
+
+  /**
+   * Pixels of an image with overlays composited by sharp, for reference
+   */
+  async function composited(file: string, layers: Array<{ input: string; blend: 'over' | 'multiply' }>): Promise<Buffer> {
+    let image: Buffer = await fs.readFile(file);
+    for (const layer of layers) {
+      image = await sharp(image).composite([layer]).png().toBuffer();
+    }
+    return pixelsOf(image);
+  }
+
+  /**
+   * Largest difference between two images in any channel, allowing for rounding
+   */
+  function maxDifference(a: Buffer, b: Buffer): number {
+    expect(a.length).toBe(b.length);
+    return a.reduce((max, value, i) => Math.max(max, Math.abs(value - b[i])), 0);
+  }
+
+  it('should stack overlays on a variation at read time', async () => {
+    const pack = await read(overlayPath);
+    const smileBlush = await pixelsOf(await pack.png(['smile', 'blush']));
+    expect(maxDifference(smileBlush, await composited(smile, [{ input: blush, blend: 'over' }]))).toBeLessThanOrEqual(1);
+
+    const angryBlushShade = await pixelsOf(await pack.png(['angry', 'blush', 'shade']));
+    const expected = await composited(angry, [{ input: blush, blend: 'over' }, { input: shade, blend: 'multiply' }]);
+    expect(maxDifference(angryBlushShade, expected)).toBeLessThanOrEqual(2);
+
+    // Variations on their own are unchanged
+    expect((await pixelsOf(await pack.png('smile'))).equals(await pixelsOf(smile))).toBe(true);
+    expect((await pixelsOf(await pack.png(['angry']))).equals(await pixelsOf(angry))).toBe(true);
+    expect(await pack.list({ tags: ['cheeks'] })).toEqual(['blush']);
+    pack.dispose();
+
+    // Only the visible pixels of an overlay are stored
+    const result = await inspect(overlayPath);
+    const info = Object.fromEntries(result.variations.map((v) => [v.name, v]));
+    expect(info.blush.overlay).toBe('alpha-over');
+    expect(info.shade.overlay).toBe('multiply');
+    expect(info.smile.overlay).toBeUndefined();
+    expect(info.blush.patchAreaPercent).toBeLessThan(20);
+    expect((await verify(overlayPath)).valid).toBe(true);
+  });
+
+  it('should reject stacking variations that are not overlays', async () => {
+    const pack = await read(overlayPath);
+    await expect(pack.png(['smile', 'angry'])).rejects.toBeInstanceOf(InvalidInputError);
+    await expect(pack.png([])).rejects.toBeInstanceOf(InvalidInputError);
+    await expect(pack.png(['smile', 'sweat'])).rejects.toBeInstanceOf(VariationNotFoundError);
+    pack.dispose();
+
+    // At least one input is needed to pick a base image from
+    const onlyOverlays = charpack({
+      input: { blush: { path: blush, overlay: 'alpha-over' } },
+      output: path.join(testOutputDir, 'test-overlay-only.charpack'),
+    });
+    await expect(onlyOverlays).rejects.toBeInstanceOf(InvalidInputError);
+  });
+
+  it('should add overlays to an existing pack', async () => {
+    const key = randomBytes(32);
+    const filePath = path.join(testOutputDir, 'test-overlay-edit.charpack');
+    await charpack({ input: { smile, angry }, output: filePath, encryption: { key } });
+
+    const pack = await read(filePath, { key });
+    await pack.add({ tears: { path: tears, overlay: 'alpha-over' } });
+    const png = await pack.png(['angry', 'tears']);
+    expect(maxDifference(await pixelsOf(png), await composited(angry, [{ input: tears, blend: 'over' }]))).toBeLessThanOrEqual(1);
+
+    // Replacing an overlay with a full image makes it a plain variation again
+    await pack.replace('tears', angry);
+    await expect(pack.png(['smile', 'tears'])).rejects.toBeInstanceOf(InvalidInputError);
+    pack.dispose();
+
+    expect((await verify(filePath)).valid).toBe(true);
+    const tearsAlone = await (await extract(filePath, 'tears', { key })).png();
+    expect((await pixelsOf(tearsAlone)).equals(await pixelsOf(angry))).toBe(true);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Test the bounds checks and limits applied to untrusted packs
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { crc32 } from 'zlib';
+import { charpack, extract, read, CharPackError, CorruptFileError, LimitExceededError } from '../';
+
+describe('parser', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'parser');
+
+  let charpackPath: string;
+  let original: Buffer;
+
+  beforeAll(async () => {
+    // Create output directory
+    await fs.mkdir(testOutputDir, { recursive: true });
+
+    // Create a test charpack file
+    charpackPath = path.join(testOutputDir, 'test-parser.charpack');
+    await charpack({
+      input: {
+        variation1: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_wx_xy.png'),
+        variation2: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_zz2_xy.png'),
+      },
+      output: charpackPath,
+    });
+    original = await fs.readFile(charpackPath);
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  /**
+   * Capture the error of a rejected promise
+   */
+  async function errorOf(promise: Promise<unknown>): Promise<CharPackError> {
+    try {
+      await promise;
+    } catch (error) {
+      return error as CharPackError;
+    }
+    throw new Error('Expected the promise to reject');
+  }
+
+  /**
+   * Locate the index entry of a variation in a version 2 pack
+   */
+  function findEntry(buffer: Buffer, name: string): { at: number; offset: number } {
+    const indexOffset = buffer.readUInt32LE(34);
+    const count = buffer.readUInt32LE(30);
+    let at = indexOffset;
+    for (let i = 0; i < count; i++) {
+      const nameLen = buffer.readUInt32LE(at);
+      const entryName = buffer.toString('utf8', at + 4, at + 4 + nameLen);
+      const fields = at + 4 + nameLen;
+      if (entryName === name) {
+        return { at: fields, offset: buffer.readUInt32LE(fields) };
+      }
+      // offset, size, crc, codec, properties, then the base field
+      at = fields + 13 + 4 + buffer.readUInt32LE(fields + 13) + 4;
+    }
+    throw new Error(`No index entry for ${name}`);
+  }
+
+  /**
+   * Copy the pack, let `edit` change it and fix up the checksums so only the bounds checks can catch it
+   */
+  async function craft(name: string, edit: (buffer: Buffer) => void): Promise<string> {
+    const buffer = Buffer.from(original);
+    edit(buffer);
+
+    const indexOffset = buffer.readUInt32LE(34);
+    buffer.writeUInt32LE(crc32(buffer.subarray(indexOffset, indexOffset + buffer.readUInt32LE(38))), 42);
+    const headerSize = buffer.readUInt32LE(8);
+    buffer.writeUInt32LE(crc32(buffer.subarray(0, headerSize - 4)), headerSize - 4);
+
+    const filePath = path.join(testOutputDir, name);
+    await fs.writeFile(filePath, buffer);
+    return filePath;
+  }
+
+  it('should refuse oversized images before decoding them', async () => {
+    const filePath = await craft('test-parser-dimensions.charpack', (buffer) => buffer.writeUInt32LE(100000, 12));
+
+    const error = await errorOf(read(filePath));
+    expect(error).toBeInstanceOf(LimitExceededError);
+    expect(error.code).toBe('LIMIT_EXCEEDED');
+    expect((await errorOf(extract(filePath, 'variation1'))).code).toBe('LIMIT_EXCEEDED');
+  });
+
+  it('should refuse huge variation counts', async () => {
+    const filePath = await craft('test-parser-count.charpack', (buffer) => buffer.writeUInt32LE(0xffffffff, 30));
+
+    expect((await errorOf(read(filePath))).code).toBe('LIMIT_EXCEEDED');
+    expect((await errorOf(extract(filePath, 'variation1'))).code).toBe('LIMIT_EXCEEDED');
+  });
+
+  it('should refuse headers of another size', async () => {
+    const filePath = await craft('test-parser-header-size.charpack', (buffer) => buffer.writeUInt32LE(87, 8));
+
+    const error = await errorOf(read(filePath));
+    expect(error.code).toBe('CORRUPT_FILE');
+    expect(error.message).toContain('unexpected header size 87');
+    expect((await errorOf(extract(filePath, 'variation1'))).code).toBe('CORRUPT_FILE');
+  });
+
+  it('should apply custom limits', async () => {
+    const error = await errorOf(read(charpackPath, { limits: { maxVariations: 1 } }));
+    expect(error.code).toBe('LIMIT_EXCEEDED');
+    expect(error.message).toContain('more than the maximum of 1');
+
+    expect((await errorOf(extract(charpackPath, 'variation1', { limits: { maxPixels: 16 } }))).code).toBe('LIMIT_EXCEEDED');
+    expect((await errorOf(read(charpackPath, { limits: { maxDimension: 0 } }))).code).toBe('INVALID_INPUT');
+
+    const pack = await read(charpackPath, { limits: { maxVariations: 2 } });
+    expect(await pack.list()).toEqual(['variation1', 'variation2']);
+    pack.dispose();
+  });
+
+  it('should reject variations that point outside the file', async () => {
+    const filePath = await craft('test-parser-offset.charpack', (buffer) => {
+      buffer.writeUInt32LE(0xffffff00, findEntry(buffer, 'variation2').at);
+    });
+
+    const error = await errorOf(read(filePath));
+    expect(error).toBeInstanceOf(CorruptFileError);
+    expect(error.message).toContain("variation 'variation2' lies outside the file");
+    expect((await errorOf(extract(filePath, 'variation1'))).code).toBe('CORRUPT_FILE');
+  });
+
+  it('should reject patches outside the image', async () => {
+    const filePath = await craft('test-parser-patch.charpack', (buffer) => {
+      const entry = findEntry(buffer, 'variation2');
+      expect(buffer.readUInt32LE(entry.offset)).toBeGreaterThan(0);
+
+      // Move the first patch past the right edge and re-checksum the block
+      buffer.writeUInt32LE(buffer.readUInt32LE(12), entry.offset + 4);
+      const size = buffer.readUInt32LE(entry.at + 4);
+      buffer.writeUInt32LE(crc32(buffer.subarray(entry.offset, entry.offset + size)), entry.at + 8);
+    });
+
+    const error = await errorOf(extract(filePath, 'variation2'));
+    expect(error).toBeInstanceOf(CorruptFileError);
+    expect(error.message).toMatch(/^Variation 'variation2' is corrupt: patch .* lies outside the \d+x\d+ image$/);
+    expect((await errorOf(read(filePath))).code).toBe('CORRUPT_FILE');
+  });
+
+  it('should reject truncated index tables', async () => {
+    const filePath = await craft('test-parser-index.charpack', (buffer) => {
+      // Claim a name longer than the whole index table
+      buffer.writeUInt32LE(0x7fffffff, buffer.readUInt32LE(34));
+    });
+
+    const error = await errorOf(read(filePath));
+    expect(error.code).toBe('CORRUPT_FILE');
+    expect(error.message).toContain('truncated index');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Test images composed from named parts grouped into slots
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { generateKeyPairSync, randomBytes } from 'crypto';
+import sharp from 'sharp';
+import { charpack, extract, read, inspect, verify, sign, verifySignature, CharPackError, PartNotFoundError } from '../';
+
+describe('parts', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'parts');
+
+  // Eyes and mouths drawn over the smile, close enough to share patch blocks
+  const eyes = {
+    closed: { color: '#202020', left: 70, top: 120, width: 116, height: 14 },
+    wide: { color: '#ffffff', left: 70, top: 110, width: 116, height: 30 },
+  };
+  const mouths = {
+    open: { color: '#c02040', left: 104, top: 146, width: 48, height: 28 },
+  };
+  let smile: string;
+  let angry: string;
+  let parts: Record<string, Record<string, string>>;
+  let partsPath: string;
+
+  beforeAll(async () => {
+    // Create output directory
+    await fs.mkdir(testOutputDir, { recursive: true });
+
+    smile = path.join(testInputDir, 'koi_smile.png');
+    angry = path.join(testInputDir, 'koi_angry.png');
+    parts = { eyes: {}, mouth: {} };
+    for (const [slot, shapes] of Object.entries({ eyes, mouth: mouths })) {
+      for (const [name, shape] of Object.entries(shapes)) {
+        parts[slot][name] = path.join(testOutputDir, `${slot}-${name}.png`);
+        await sharp(smile).composite([await overlay(shape)]).toFile(parts[slot][name]);
+      }
+    }
+
+    partsPath = path.join(testOutputDir, 'test-parts.charpack');
+    await charpack({ input: { smile, angry }, output: partsPath, parts });
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  /**
+   * A filled rectangle ready to be composited
+   */
+  async function overlay(shape: { color: string; left: number; top: number; width: number; height: number }) {
+    const { color, left, top, width, height } = shape;
+    const input = await sharp({ create: { width, height, channels: 4, background: color } }).png().toBuffer();
+    return { input, left, top };
+  }
+
+  /**
+   * Raw RGBA pixels of an image
+   */
+  function pixelsOf(image: string | Buffer): Promise<Buffer> {
+    return sharp(image).ensureAlpha().raw().toBuffer();
+  }
+
+  /**
+   * Pixels of the smile with the given shapes drawn over it, in order
+   */
+  async function expected(...shapes: Array<Parameters<typeof overlay>[0]>): Promise<Buffer> {
+    const overlays = await Promise.all(shapes.map(overlay));
+    return pixelsOf(await sharp(smile).composite(overlays).png().toBuffer());
+  }
+
+  it('should compose images from one part per slot', async () => {
+    const pack = await read(partsPath);
+    expect(await pack.slots()).toEqual({ eyes: ['closed', 'wide'], mouth: ['open'] });
+
+    const closedOpen = await pack.compose({ eyes: 'closed', mouth: 'open' });
+    expect((await pixelsOf(await closedOpen.png())).equals(await expected(eyes.closed, mouths.open))).toBe(true);
+    const wideOpen = await pack.compose({ mouth: 'open', eyes: 'wide' });
+    expect((await pixelsOf(await wideOpen.png())).equals(await expected(eyes.wide, mouths.open))).toBe(true);
+    const wide = await pack.compose({ eyes: 'wide' });
+    expect((await pixelsOf(await wide.png())).equals(await expected(eyes.wide))).toBe(true);
+
+    // Without a selection, the base image
+    const none = await pack.compose({});
+    expect((await pixelsOf(await none.png())).equals(await pixelsOf(smile))).toBe(true);
+
+    // Flat variations work alongside the parts
+    expect(await pack.list()).toEqual(['smile', 'angry']);
+    expect((await pixelsOf(await pack.png('angry'))).equals(await pixelsOf(angry))).toBe(true);
+    expect((await pixelsOf(await (await extract(partsPath, 'smile')).png())).equals(await pixelsOf(smile))).toBe(true);
+    pack.dispose();
+  });
+
+  it('should reject unknown slots and parts', async () => {
+    const pack = await read(partsPath);
+    await expect(pack.compose({ brows: 'raised' })).rejects.toBeInstanceOf(PartNotFoundError);
+    const error = await pack.compose({ eyes: 'sleepy' }).catch((e) => e);
+    expect(error).toMatchObject({ code: 'PART_NOT_FOUND', slot: 'eyes', part: 'sleepy' } as Partial<CharPackError>);
+    pack.dispose();
+
+    // A pack without parts has no slots
+    const flatPath = path.join(testOutputDir, 'test-parts-flat.charpack');
+    await charpack({ input: { smile, angry }, output: flatPath });
+    const flat = await read(flatPath);
+    expect(await flat.slots()).toEqual({});
+    flat.dispose();
+  });
+
+  it('should keep parts when the pack is edited', async () => {
+    const filePath = path.join(testOutputDir, 'test-parts-edit.charpack');
+    await fs.copyFile(partsPath, filePath);
+
+    const pack = await read(filePath);
+    await pack.add({ wink: parts.eyes.closed });
+    await pack.rename('angry', 'mad');
+    await pack.setMetadata({ character: 'Koi' });
+    await pack.compact();
+    pack.dispose();
+
+    const edited = await read(filePath);
+    const image = await edited.compose({ eyes: 'closed', mouth: 'open' });
+    expect((await pixelsOf(await image.png())).equals(await expected(eyes.closed, mouths.open))).toBe(true);
+    expect(await edited.list()).toEqual(['smile', 'mad', 'wink']);
+    edited.dispose();
+
+    const result = await verify(filePath);
+    expect(result.valid).toBe(true);
+    expect(result.parts).toEqual([
+      { slot: 'eyes', name: 'closed', valid: true },
+      { slot: 'eyes', name: 'wide', valid: true },
+      { slot: 'mouth', name: 'open', valid: true },
+    ]);
+    expect((await inspect(filePath)).deadBytes).toBe(0);
+  });
+
+  it('should encrypt, sign and check parts', async () => {
+    const key = randomBytes(32);
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    const publicPem = publicKey.export({ format: 'pem', type: 'spki' }).toString();
+    const filePath = path.join(testOutputDir, 'test-parts-encrypted.charpack');
+    await charpack({ input: { smile, angry }, output: filePath, parts, encryption: { key } });
+    await sign(filePath, privateKey);
+
+    expect((await verifySignature(filePath, publicPem)).valid).toBe(true);
+    const pack = await read(filePath, { key, publicKey: publicPem });
+    const image = await pack.compose({ eyes: 'wide', mouth: 'open' });
+    expect((await pixelsOf(await image.png())).equals(await expected(eyes.wide, mouths.open))).toBe(true);
+    pack.dispose();
+
+    // A part block is covered by its checksum and by the signature
+    const tampered = await fs.readFile(filePath);
+    // The last part block ends where the signature section starts
+    const signatureSize = tampered.readUInt32LE(tampered.length - 4);
+    tampered[tampered.length - signatureSize - 10] ^= 0xff;
+    const result = await verify(tampered);
+    expect(result.valid).toBe(false);
+    expect(result.corrupt).toEqual(['mouth/open']);
+    const signature = await verifySignature(tampered, publicPem);
+    expect(signature.valid).toBe(false);
+    expect(signature.error).toContain("Part 'mouth/open'");
+  });
+});
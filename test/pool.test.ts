@@ -0,0 +1,210 @@
+/**
+ * Test the patch pool, which stores patches shared by several variations once
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { generateKeyPairSync, randomBytes } from 'crypto';
+import { crc32 } from 'zlib';
+import sharp from 'sharp';
+import { charpack, extract, read, inspect, verify, compact, sign, verifySignature } from '../';
+
+describe('patch pool', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'pool');
+
+  // Every expression twice: as it is, and with the same sticker in the corner
+  let input: Record<string, string>;
+  let pooledPath: string;
+
+  beforeAll(async () => {
+    // Create output directory
+    await fs.mkdir(testOutputDir, { recursive: true });
+
+    const sticker = await sharp({ create: { width: 32, height: 32, channels: 4, background: '#ffd700' } }).png().toBuffer();
+    input = {};
+    for (const name of ['angry', 'blush', 'smile']) {
+      input[name] = path.join(testInputDir, `koi_${name}.png`);
+    }
+    for (const name of ['angry', 'blush', 'smile']) {
+      input[`${name}-sticker`] = path.join(testOutputDir, `${name}-sticker.png`);
+      await sharp(input[name]).composite([{ input: sticker, left: 8, top: 8 }]).toFile(input[`${name}-sticker`]);
+    }
+
+    pooledPath = path.join(testOutputDir, 'test-pool.charpack');
+    await charpack({ input, output: pooledPath });
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  /**
+   * Raw RGBA pixels of an image
+   */
+  function pixelsOf(image: string | Buffer): Promise<Buffer> {
+    return sharp(image).ensureAlpha().raw().toBuffer();
+  }
+
+  /**
+   * Check that every variation of a pack has the pixels of its input image
+   */
+  async function expectInputPixels(filePath: string, files = input, options = {}): Promise<void> {
+    for (const [name, file] of Object.entries(files)) {
+      const png = await (await extract(filePath, name, options)).png();
+      expect((await pixelsOf(png)).equals(await pixelsOf(file))).toBe(true);
+    }
+  }
+
+  it('should store patches shared by several variations once', async () => {
+    const result = await inspect(pooledPath);
+    // The sticker, and the expressions shared by their sticker variants
+    expect(result.pooledPatches).toBeGreaterThanOrEqual(3);
+    expect(result.poolBytes).toBeGreaterThan(0);
+    expect(result.dedupSavedBytes).toBeGreaterThan(0);
+    expect(result.deadBytes).toBe(0);
+    expect((await verify(pooledPath)).valid).toBe(true);
+
+    await expectInputPixels(pooledPath);
+    const pack = await read(pooledPath);
+    const png = await pack.png('smile-sticker');
+    expect((await pixelsOf(png)).equals(await pixelsOf(input['smile-sticker']))).toBe(true);
+    pack.dispose();
+
+    // Nothing to share between two different expressions
+    const distinctPath = path.join(testOutputDir, 'test-pool-distinct.charpack');
+    await charpack({ input: { angry: input.angry, smile: input.smile }, output: distinctPath });
+    const distinct = await inspect(distinctPath);
+    expect(distinct.pooledPatches).toBe(0);
+    expect(distinct.poolBytes).toBe(0);
+    expect(distinct.dedupSavedBytes).toBe(0);
+  });
+
+  it('should count the savings of the pooled patches still in use', async () => {
+    // The second copy of the smile refers to every patch of the first one in the pool
+    const twins = { base: input.angry, smile: input.smile, smile2: input.smile, blush: input.blush };
+    const filePath = path.join(testOutputDir, 'test-pool-savings.charpack');
+    await charpack({ input: twins, output: filePath });
+    const singlePath = path.join(testOutputDir, 'test-pool-single.charpack');
+    await charpack({ input: { base: input.angry, smile: input.smile, blush: input.blush }, output: singlePath });
+
+    // Without the pool, the copy stores the patch data of the smile block again,
+    // while each pooled patch costs a 6-byte entry header
+    const result = await inspect(filePath);
+    const smile = (await inspect(singlePath)).variations.find((v) => v.name === 'smile')!;
+    expect(result.pooledPatches).toBe(smile.patchCount);
+    expect(result.dedupSavedBytes).toBe(smile.compressedBytes - 4 - smile.patchCount! * (21 + 6));
+
+    // Encryption does not change the savings
+    const key = randomBytes(32);
+    const encryptedPath = path.join(testOutputDir, 'test-pool-savings-encrypted.charpack');
+    await charpack({ input: twins, output: encryptedPath, encryption: { key } });
+    const encrypted = await inspect(encryptedPath, { key });
+    expect(encrypted.pooledPatches).toBe(result.pooledPatches);
+    expect(encrypted.dedupSavedBytes).toBe(result.dedupSavedBytes);
+
+    // Entries a single variation refers to save nothing, and unused ones are not counted
+    const pack = await read(filePath);
+    await pack.remove('smile2');
+    const single = await inspect(filePath);
+    expect(single.pooledPatches).toBe(result.pooledPatches);
+    expect(single.dedupSavedBytes).toBe(-6 * result.pooledPatches!);
+    await pack.remove('smile');
+    pack.dispose();
+    const unused = await inspect(filePath);
+    expect(unused.pooledPatches).toBe(0);
+    expect(unused.dedupSavedBytes).toBe(0);
+  });
+
+  it('should keep the pool when the pack is edited', async () => {
+    const filePath = path.join(testOutputDir, 'test-pool-edit.charpack');
+    await fs.copyFile(pooledPath, filePath);
+
+    const pack = await read(filePath);
+    await pack.remove('angry-sticker');
+    await pack.add({ 'angry-sticker': input['angry-sticker'] });
+    await pack.rename('blush-sticker', 'blush-gold');
+    pack.dispose();
+
+    // Added variations store their patches in their own block
+    expect(await compact(filePath)).toBeGreaterThan(0);
+    expect((await inspect(filePath)).poolBytes).toBe((await inspect(pooledPath)).poolBytes);
+    const { 'blush-sticker': blushSticker, ...files } = input;
+    await expectInputPixels(filePath, { ...files, 'blush-gold': blushSticker });
+  });
+
+  it('should drop pooled patches no variation uses when compacting', async () => {
+    const filePath = path.join(testOutputDir, 'test-pool-compact.charpack');
+    await fs.copyFile(pooledPath, filePath);
+    const original = await inspect(pooledPath);
+
+    // Only the blush expressions share the blush patches
+    const pack = await read(filePath);
+    await pack.remove('blush');
+    await pack.remove('blush-sticker');
+    pack.dispose();
+
+    const before = await inspect(filePath);
+    const blockBytes = original.variations
+      .filter((v) => v.name.startsWith('blush'))
+      .reduce((sum, v) => sum + v.compressedBytes, 0);
+    expect(before.deadBytes).toBeGreaterThan(blockBytes);
+
+    const reclaimed = await compact(filePath);
+    expect(reclaimed).toBe(before.deadBytes);
+    const after = await inspect(filePath);
+    expect(after.deadBytes).toBe(0);
+    expect(after.pooledPatches).toBeLessThan(original.pooledPatches!);
+    expect(after.poolBytes).toBeLessThan(original.poolBytes);
+    expect((await verify(filePath)).valid).toBe(true);
+    const { blush, 'blush-sticker': blushSticker, ...files } = input;
+    await expectInputPixels(filePath, files);
+
+    // Encrypted packs need their key to find the unused entries
+    const key = randomBytes(32);
+    const encryptedPath = path.join(testOutputDir, 'test-pool-compact-encrypted.charpack');
+    await charpack({ input, output: encryptedPath, encryption: { key } });
+    const encrypted = await read(encryptedPath, { key });
+    await encrypted.remove('blush');
+    await encrypted.remove('blush-sticker');
+    await encrypted.compact();
+    encrypted.dispose();
+    expect((await inspect(encryptedPath, { key })).pooledPatches).toBe(after.pooledPatches);
+    await expectInputPixels(encryptedPath, files, { key });
+  });
+
+  it('should encrypt, sign and check the pool', async () => {
+    const key = randomBytes(32);
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    const publicPem = publicKey.export({ format: 'pem', type: 'spki' }).toString();
+    const filePath = path.join(testOutputDir, 'test-pool-encrypted.charpack');
+    await charpack({ input, output: filePath, encryption: { key } });
+    await sign(filePath, privateKey);
+
+    expect((await inspect(filePath, { key })).pooledPatches).toBeGreaterThanOrEqual(3);
+    expect((await verifySignature(filePath, publicPem)).valid).toBe(true);
+    await expectInputPixels(filePath, input, { key, publicKey: publicPem });
+
+    // The pool is covered by the checksum in the header...
+    const tampered = await fs.readFile(filePath);
+    const poolOffset = tampered.readUInt32LE(71);
+    tampered[poolOffset + 10] ^= 0xff;
+    const result = await verify(tampered);
+    expect(result.pool).toBe(false);
+    expect(result.valid).toBe(false);
+
+    // ...and by the head digest, even when the checksums are forged
+    tampered.writeUInt32LE(crc32(tampered.subarray(poolOffset, poolOffset + tampered.readUInt32LE(75))), 79);
+    const headerSize = tampered.readUInt32LE(8);
+    tampered.writeUInt32LE(crc32(tampered.subarray(0, headerSize - 4)), headerSize - 4);
+    expect((await verify(tampered)).pool).toBe(true);
+    const signature = await verifySignature(tampered, publicPem);
+    expect(signature.valid).toBe(false);
+    expect(signature.error).toContain('modified after it was signed');
+  });
+});
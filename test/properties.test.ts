@@ -0,0 +1,95 @@
+/**
+ * Test per-variation properties functionality
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { charpack, extract, read } from '../';
+
+describe('variation properties', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'properties');
+
+  const talk = {
+    displayName: { en: 'Talking', ja: '会話' },
+    tags: ['mouth-open', 'happy'],
+    anchors: {
+      mouth: { x: 128, y: 210 },
+      face: { x: 64, y: 80, width: 128, height: 160 },
+    },
+    custom: { voice: 'koi_talk' },
+  };
+
+  let charpackPath: string;
+
+  beforeAll(async () => {
+    // Create output directory
+    await fs.mkdir(testOutputDir, { recursive: true });
+
+    charpackPath = path.join(testOutputDir, 'test-properties.charpack');
+    await charpack({
+      input: {
+        normal: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_wx_xy.png'),
+        talk: { path: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_zz2_xy.png'), ...talk },
+      },
+      output: charpackPath,
+    });
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should list variations with their properties', async () => {
+    const pack = await read(charpackPath);
+
+    expect(await pack.list()).toEqual(['normal', 'talk']);
+    expect(await pack.list({ details: true })).toEqual([
+      { name: 'normal' },
+      { name: 'talk', ...talk },
+    ]);
+
+    pack.dispose();
+  });
+
+  it('should filter variations by tags', async () => {
+    const pack = await read(charpackPath);
+
+    expect(await pack.list({ tags: ['mouth-open'] })).toEqual(['talk']);
+    expect(await pack.list({ tags: ['mouth-open', 'sad'] })).toEqual([]);
+
+    pack.dispose();
+  });
+
+  it('should return properties with an extracted variation', async () => {
+    const image = await extract(charpackPath, 'talk');
+    expect(image.properties).toEqual(talk);
+
+    const normal = await extract(charpackPath, 'normal');
+    expect(normal.properties).toBeUndefined();
+  });
+
+  it('should keep properties when variations are added and removed', async () => {
+    const modifiedPath = path.join(testOutputDir, 'test-properties-modified.charpack');
+    await fs.copyFile(charpackPath, modifiedPath);
+
+    const pack = await read(modifiedPath);
+    await pack.add({
+      smile: { path: path.join(testInputDir, 'koi_smile.png'), tags: ['happy'] },
+    });
+    expect(await pack.list({ tags: ['happy'] })).toEqual(['talk', 'smile']);
+
+    await pack.remove('normal');
+    expect(await pack.list({ details: true })).toEqual([
+      { name: 'talk', ...talk },
+      { name: 'smile', tags: ['happy'] },
+    ]);
+
+    pack.dispose();
+  });
+});
@@ -4,11 +4,11 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { charpack, extract, read } from '../';
+import { charpack, extract, read, parseHeaderWithIndex } from '../';
 
 describe('read', () => {
   const testInputDir = path.join(__dirname, 'ignored', 'input');
-  const testOutputDir = path.join(__dirname, 'output');
+  const testOutputDir = path.join(__dirname, 'output', 'read');
 
   let charpackPath: string;
 
@@ -75,6 +75,43 @@ describe('read', () => {
         extract(charpackPath, 'nonexistent')
       ).rejects.toThrow("Variation 'nonexistent' not found in CharPack");
     });
+
+    it('should not read other variation blocks', async () => {
+      const { size } = await fs.stat(charpackPath);
+      const { variations } = parseHeaderWithIndex(await fs.readFile(charpackPath));
+      const otherBlocks = variations
+        .filter(v => v.name !== 'variation1')
+        .reduce((sum, v) => sum + v.size, 0);
+
+      // Count the bytes extract() pulls from disk
+      let bytesRead = 0;
+      // Spy on the module object itself, the namespace import is read-only
+      const fsModule: typeof fs = require('fs/promises');
+      const open = fsModule.open;
+      const openSpy = jest.spyOn(fsModule, 'open').mockImplementation(async (...args: Parameters<typeof fs.open>) => {
+        const handle = await open(...args);
+        const read = handle.read.bind(handle);
+        handle.read = (async (...readArgs: Parameters<fs.FileHandle['read']>) => {
+          const result = await read(...readArgs);
+          bytesRead += result.bytesRead;
+          return result;
+        }) as typeof handle.read;
+        handle.readFile = () => {
+          throw new Error('extract() must not read the whole file');
+        };
+        return handle;
+      });
+
+      try {
+        const image = await extract(charpackPath, 'variation1');
+        expect((await image.png()).length).toBeGreaterThan(0);
+      } finally {
+        openSpy.mockRestore();
+      }
+
+      expect(bytesRead).toBeGreaterThan(0);
+      expect(bytesRead).toBeLessThanOrEqual(size - otherBlocks);
+    });
   });
 
   describe('read', () => {
@@ -133,5 +170,33 @@ describe('read', () => {
 
       pack.dispose();
     });
+
+    it('should append added variations without rewriting existing blocks', async () => {
+      const modifiedPath = path.join(testOutputDir, 'test-read-add.charpack');
+      await fs.copyFile(charpackPath, modifiedPath);
+      const before = await fs.readFile(modifiedPath);
+      const { variations } = parseHeaderWithIndex(before);
+
+      const pack = await read(modifiedPath);
+      await pack.add({ smile: path.join(testInputDir, 'koi_smile.png') });
+      expect(await pack.list()).toEqual(['variation1', 'variation2', 'smile']);
+
+      // Everything after the header is kept byte for byte, new data is appended
+      const after = await fs.readFile(modifiedPath);
+      const headerSize = before.readUInt32LE(8);
+      expect(after.length).toBeGreaterThan(before.length);
+      expect(after.subarray(headerSize, before.length).equals(before.subarray(headerSize))).toBe(true);
+
+      const updated = parseHeaderWithIndex(after);
+      expect(updated.variations.slice(0, 2)).toEqual(variations);
+      expect(updated.variations[2].offset).toBe(before.length);
+
+      // The in-memory pack and the file agree
+      const smile = await pack.png('smile');
+      expect(await (await extract(modifiedPath, 'smile')).png()).toEqual(smile);
+      expect(await (await extract(modifiedPath, 'variation1')).png()).toEqual(await pack.png('variation1'));
+
+      pack.dispose();
+    });
   });
 });
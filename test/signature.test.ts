@@ -0,0 +1,142 @@
+/**
+ * Test pack signatures
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { generateKeyPairSync, randomBytes } from 'crypto';
+import { charpack, extract, read, sign, verifySignature, verify, inspect, CharPackError, SignatureError } from '../';
+
+describe('signature', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'signature');
+  const input = {
+    variation1: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_wx_xy.png'),
+    variation2: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_zz2_xy.png'),
+  };
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+  const publicPem = publicKey.export({ format: 'pem', type: 'spki' }).toString();
+  const otherPem = generateKeyPairSync('ed25519').publicKey.export({ format: 'pem', type: 'spki' }).toString();
+
+  let signedPath: string;
+  let unsignedPath: string;
+
+  beforeAll(async () => {
+    // Create output directory
+    await fs.mkdir(testOutputDir, { recursive: true });
+
+    // Create the same pack with and without a signature
+    signedPath = path.join(testOutputDir, 'test-signature.charpack');
+    unsignedPath = path.join(testOutputDir, 'test-signature-unsigned.charpack');
+    await charpack({ input, output: unsignedPath });
+    await fs.copyFile(unsignedPath, signedPath);
+    await sign(signedPath, privateKey);
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  /**
+   * Capture the error of a rejected promise
+   */
+  async function errorOf(promise: Promise<unknown>): Promise<CharPackError> {
+    try {
+      await promise;
+    } catch (error) {
+      return error as CharPackError;
+    }
+    throw new Error('Expected the promise to reject');
+  }
+
+  it('should verify signed packs with the matching public key', async () => {
+    expect(await verifySignature(signedPath, publicPem)).toEqual({ signed: true, valid: true });
+
+    // Raw 32-byte public keys work as well as PEM
+    const raw = Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url');
+    expect((await verifySignature(signedPath, raw)).valid).toBe(true);
+
+    const other = await verifySignature(signedPath, otherPem);
+    expect(other.signed).toBe(true);
+    expect(other.valid).toBe(false);
+    expect(other.error).toContain('public key');
+
+    expect(await verifySignature(unsignedPath, publicPem)).toEqual({
+      signed: false,
+      valid: false,
+      error: 'CharPack is not signed',
+    });
+
+    // The signature is part of the pack, not dead bytes
+    expect((await verify(signedPath)).valid).toBe(true);
+    expect((await inspect(signedPath)).deadBytes).toBe(0);
+  });
+
+  it('should read signed packs and refuse unsigned ones when a public key is given', async () => {
+    const image = await extract(signedPath, 'variation2', { publicKey: publicPem });
+    const expected = await extract(unsignedPath, 'variation2');
+    expect((await image.png()).equals(await expected.png())).toBe(true);
+
+    const pack = await read(signedPath, { publicKey: publicPem });
+    expect(await pack.list()).toEqual(['variation1', 'variation2']);
+    pack.dispose();
+
+    const unsigned = await errorOf(extract(unsignedPath, 'variation1', { publicKey: publicPem }));
+    expect(unsigned).toBeInstanceOf(SignatureError);
+    expect(unsigned.code).toBe('SIGNATURE_INVALID');
+    expect((await errorOf(read(signedPath, { publicKey: otherPem }))).code).toBe('SIGNATURE_INVALID');
+    expect((await errorOf(extract(signedPath, 'variation1', { publicKey: 'not a key' }))).code).toBe('INVALID_INPUT');
+  });
+
+  it('should detect changes made after signing', async () => {
+    // A flipped byte in the last block, right before the signature section
+    const tampered = await fs.readFile(signedPath);
+    tampered[tampered.length - 200] ^= 0xff;
+    const result = await verifySignature(tampered, publicPem);
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain("'variation2'");
+
+    // Edits through read() drop the signature, whether they rewrite the index in place or append
+    const filePath = path.join(testOutputDir, 'test-signature-edit.charpack');
+    const unsigned = { signed: false, valid: false, error: 'CharPack is not signed' };
+    await fs.copyFile(signedPath, filePath);
+    const pack = await read(filePath, { publicKey: publicPem });
+    await pack.rename('variation1', 'renamed');
+    expect(await verifySignature(filePath, publicPem)).toEqual(unsigned);
+    // The handle that edited the pack no longer requires the signature
+    await pack.refresh();
+    expect(await pack.list()).toEqual(['renamed', 'variation2']);
+    pack.dispose();
+
+    const edited = await errorOf(extract(filePath, 'renamed', { publicKey: publicPem }));
+    expect(edited).toBeInstanceOf(SignatureError);
+    // The section is removed, not left behind as dead bytes
+    expect((await fs.stat(filePath)).size).toBe((await fs.stat(unsignedPath)).size);
+
+    await fs.copyFile(signedPath, filePath);
+    const appended = await read(filePath);
+    await appended.add({ variation3: input.variation1 });
+    appended.dispose();
+    expect(await verifySignature(filePath, publicPem)).toEqual(unsigned);
+
+    // Signing again makes it valid
+    await sign(filePath, privateKey);
+    expect((await verifySignature(filePath, publicPem)).valid).toBe(true);
+  });
+
+  it('should sign encrypted packs', async () => {
+    const key = randomBytes(32);
+    const filePath = path.join(testOutputDir, 'test-signature-encrypted.charpack');
+    await charpack({ input, output: filePath, encryption: { key } });
+    await sign(filePath, privateKey);
+
+    expect((await verifySignature(filePath, publicPem)).valid).toBe(true);
+    const image = await extract(filePath, 'variation1', { key, publicKey: publicPem });
+    expect((await image.png()).equals(await (await extract(unsignedPath, 'variation1')).png())).toBe(true);
+  });
+});
@@ -8,7 +8,7 @@ import { charpack, unpack, visualizeCompression } from '../';
 
 describe('unpack', () => {
   const testInputDir = path.join(__dirname, 'ignored', 'input');
-  const testOutputDir = path.join(__dirname, 'output');
+  const testOutputDir = path.join(__dirname, 'output', 'unpack');
   const unpackOutputDir = path.join(testOutputDir, 'unpacked');
 
   let charpackPath: string;
@@ -0,0 +1,90 @@
+/**
+ * Test verify functionality
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { charpack, extract, parseHeaderWithIndex, verify } from '../';
+
+describe('verify', () => {
+  const testInputDir = path.join(__dirname, 'ignored', 'input');
+  const testOutputDir = path.join(__dirname, 'output', 'verify');
+
+  let charpackPath: string;
+
+  beforeAll(async () => {
+    // Create output directory
+    await fs.mkdir(testOutputDir, { recursive: true });
+
+    // Create a test charpack file
+    charpackPath = path.join(testOutputDir, 'test-verify.charpack');
+    await charpack({
+      input: {
+        variation1: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_wx_xy.png'),
+        variation2: path.join(testInputDir, 'koi_tcr_bingfu_ts_lh_pm_zz2_xy.png'),
+      },
+      output: charpackPath,
+    });
+  });
+
+  afterAll(async () => {
+    // Clean up output files
+    try {
+      await fs.rm(testOutputDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should report an intact pack as valid', async () => {
+    const result = await verify(charpackPath);
+
+    expect(result.valid).toBe(true);
+    expect(result.version).toBe(2);
+    expect(result.checksummed).toBe(true);
+    expect(result.variations.map(v => v.name)).toEqual(['variation1', 'variation2']);
+    expect(result.corrupt).toEqual([]);
+  });
+
+  it('should report exactly which variation is corrupt', async () => {
+    const buffer = await fs.readFile(charpackPath);
+    const { variations, baseImage } = parseHeaderWithIndex(buffer);
+    const entry = variations.find(v => v.name === 'variation2')!;
+    expect(Buffer.isBuffer(baseImage)).toBe(true);
+
+    // Flip a byte inside the variation2 block
+    const corrupted = Buffer.from(buffer);
+    corrupted[entry.offset + entry.size - 1] ^= 0xff;
+
+    const result = await verify(corrupted);
+    expect(result.valid).toBe(false);
+    expect(result.header).toBe(true);
+    expect(result.index).toBe(true);
+    expect(result.baseImage).toBe(true);
+    expect(result.corrupt).toEqual(['variation2']);
+
+    // The intact variation stays readable
+    const corruptedPath = path.join(testOutputDir, 'test-verify-corrupt.charpack');
+    await fs.writeFile(corruptedPath, corrupted);
+    const image = await extract(corruptedPath, 'variation1');
+    expect((await image.png()).length).toBeGreaterThan(0);
+    await expect(
+      extract(corruptedPath, 'variation2')
+    ).rejects.toThrow("Variation 'variation2' is corrupt: checksum mismatch");
+  });
+
+  it('should detect header corruption and truncation', async () => {
+    const buffer = await fs.readFile(charpackPath);
+
+    const corrupted = Buffer.from(buffer);
+    corrupted[12] ^= 0x01; // width
+    const headerResult = await verify(corrupted);
+    expect(headerResult.valid).toBe(false);
+    expect(headerResult.header).toBe(false);
+    expect(headerResult.error).toBe('Invalid CharPack file: header checksum mismatch');
+
+    const truncatedResult = await verify(buffer.subarray(0, buffer.length - 10));
+    expect(truncatedResult.valid).toBe(false);
+    expect(truncatedResult.corrupt.length).toBeGreaterThan(0);
+  });
+});